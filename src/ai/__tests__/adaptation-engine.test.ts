@@ -0,0 +1,1234 @@
+import {
+  AdaptationEngine,
+  AdaptationPhase,
+  AdaptationRecommendation,
+  AdaptationRule,
+  AdaptationRuleCompiler,
+  AdaptationRuleDocumentSchema,
+  Exercise,
+  PlanChange,
+  RuleSetVersion,
+  SimulationScenario,
+  UserMetrics,
+  WorkoutPlan,
+} from "../adaptation-engine";
+import { InMemoryAdaptationStateProvider } from "../services/AdaptationStatePersistence";
+import {
+  createOutcome,
+  createProprietaryMetrics,
+  createRecommendation,
+  createUserMetrics,
+  createUserSignature,
+  createWorkout,
+  NOW,
+} from "./fixtures";
+
+// Fires for every user, so tests can tell whether it ran
+class AlwaysRule extends AdaptationRule {
+  readonly id = "AlwaysRule";
+
+  evaluate(): AdaptationRecommendation {
+    return createRecommendation({
+      type: "nutrition",
+      priority: "low",
+      reason: "always",
+      changes: [],
+    });
+  }
+}
+
+function createRuleSetVersion(
+  versionId: string,
+  overrides: Partial<RuleSetVersion> = {}
+): RuleSetVersion {
+  return {
+    versionId,
+    versionName: versionId,
+    rules: ["FatigueRule", "SleepRule"],
+    ruleWeights: { FatigueRule: 1, SleepRule: 1 },
+    activatedAt: NOW,
+    description: "test version",
+    changeSummary: [],
+    performanceMetrics: {
+      avgUserSatisfaction: 0,
+      avgEffectiveness: 0,
+      avgAdaptationSpeed: 0,
+      retentionImpact: 0,
+    },
+    ...overrides,
+  };
+}
+
+const SHORT_SLEEP = {
+  source: "user_metrics",
+  field: "lifestyle.sleepHours",
+  operator: "lt",
+  value: 6,
+};
+
+function createRuleDocument(
+  id: string,
+  options: { version?: string; when?: unknown; reason?: string } = {}
+) {
+  return {
+    id,
+    version: options.version ?? "1.0.0",
+    branches: [
+      {
+        when: options.when ?? SHORT_SLEEP,
+        recommendation: {
+          type: "recovery",
+          priority: "high",
+          reason:
+            options.reason ?? "Slept {{ user_metrics.lifestyle.sleepHours }}h",
+          explanation: "Short sleep, lighter session",
+          duration: 3,
+          changes: [{ target: "intensity", adjustment: -10 }],
+        },
+      },
+    ],
+  };
+}
+
+function firedRuleIds(engine: AdaptationEngine): (string | undefined)[] {
+  return engine.analyze(createUserMetrics()).map((rec) => rec.ruleId);
+}
+
+const SHORT_SLEEP_SNAPSHOT = {
+  timestamp: NOW,
+  metrics: createUserMetrics({
+    lifestyle: { ...createUserMetrics().lifestyle, sleepHours: 5 },
+  }),
+  actualRecommendations: [],
+};
+
+function deployDocuments(
+  engine: AdaptationEngine,
+  versionId: string,
+  documents: ReturnType<typeof createRuleDocument>[]
+) {
+  return engine.deployRuleSetVersion(
+    createRuleSetVersion(versionId, {
+      rules: [],
+      ruleWeights: {},
+      ruleDocuments: documents.map((document) =>
+        AdaptationRuleDocumentSchema.parse(document)
+      ),
+    })
+  );
+}
+
+async function replayedReasons(
+  engine: AdaptationEngine,
+  versionId: string
+): Promise<string[]> {
+  const result = await engine.replay([SHORT_SLEEP_SNAPSHOT], versionId);
+  return result.steps[0].replayedRecommendations
+    .filter((rec) => rec.ruleId === "ShortSleep")
+    .map((rec) => rec.reason);
+}
+
+function createExercise(id: string, name: string): Exercise {
+  return { id, name, sets: 3, reps: [8, 10], weight: 50, intensity: 6 };
+}
+
+describe("AdaptationEngine.simulate", () => {
+  const scenario: Omit<SimulationScenario, "initialState"> = {
+    name: "stressful month",
+    duration: 6,
+    userSignature: createUserSignature(),
+    stochasticFactors: [
+      {
+        event: "work_stress_spike",
+        probability: 0.4,
+        impact: {
+          mood: {
+            score: 4,
+            motivation: 4,
+            confidence: 5,
+            anxiety: 7,
+            recentTrend: "declining",
+          },
+        },
+        duration: 1,
+      },
+    ],
+    constraints: [
+      { type: "min_intensity", value: 3, reason: "keep a training stimulus" },
+    ],
+  };
+  const recommendations = [
+    createRecommendation({ changes: [{ target: "intensity", adjustment: 5 }] }),
+    createRecommendation({
+      type: "volume",
+      changes: [{ target: "volume", adjustment: -10 }],
+    }),
+  ];
+
+  it("replays the same outcomes for the same seed", async () => {
+    const engine = new AdaptationEngine();
+    const options = { seed: 42, iterations: 25 };
+
+    const first = await engine.simulate(
+      createUserMetrics(),
+      recommendations,
+      scenario,
+      options
+    );
+    const second = await engine.simulate(
+      createUserMetrics(),
+      recommendations,
+      scenario,
+      options
+    );
+
+    expect(first.seed).toBe(42);
+    expect(first.iterations).toBe(25);
+    expect(second.outcomes).toEqual(first.outcomes);
+    expect(second.expectedValue).toBe(first.expectedValue);
+    expect(second.confidence).toBe(first.confidence);
+  });
+
+  it("draws different outcomes for a different seed", async () => {
+    const engine = new AdaptationEngine();
+
+    const a = await engine.simulate(
+      createUserMetrics(),
+      recommendations,
+      scenario,
+      { seed: 1, iterations: 25 }
+    );
+    const b = await engine.simulate(
+      createUserMetrics(),
+      recommendations,
+      scenario,
+      { seed: 2, iterations: 25 }
+    );
+
+    expect(b.outcomes).not.toEqual(a.outcomes);
+  });
+});
+
+describe("AdaptationEngine.applyRecommendationsWithLog exercise changes", () => {
+  const plan: WorkoutPlan = {
+    ...createUserMetrics().currentPlan,
+    exercises: [
+      createExercise("back-squat", "Back Squat"),
+      createExercise("front-squat", "Leg Press"),
+      createExercise("curl", "Barbell Curl"),
+    ],
+  };
+
+  function apply(changes: PlanChange[], currentPlan: WorkoutPlan = plan) {
+    return new AdaptationEngine().applyRecommendationsWithLog(
+      currentPlan,
+      changes.map((change) =>
+        createRecommendation({
+          type: "exercise_swap",
+          priority: "high",
+          changes: [change],
+        })
+      ),
+      { trackLineage: false }
+    );
+  }
+
+  it("sets accessories aside for core lifts only and brings them back", () => {
+    const simplified = apply([
+      { target: "exercise", adjustment: "core_lifts_only" },
+    ]).plan;
+    const restored = apply(
+      [{ target: "exercise", adjustment: "reintroduce_accessories" }],
+      simplified
+    ).plan;
+
+    expect(simplified.exercises.map((e) => e.name)).toEqual([
+      "Back Squat",
+      "Leg Press",
+    ]);
+    expect(simplified.setAsideExercises!.map((e) => e.name)).toEqual([
+      "Barbell Curl",
+    ]);
+    expect(restored.exercises.map((e) => e.name)).toEqual([
+      "Back Squat",
+      "Leg Press",
+      "Barbell Curl",
+    ]);
+    expect(restored.setAsideExercises).toBeUndefined();
+  });
+
+  it("adds mobility and breathwork without swapping lifts", () => {
+    const result = apply([
+      { target: "exercise", adjustment: "mobility_and_breathwork" },
+      { target: "exercise", adjustment: "stress_relief" },
+    ]);
+
+    expect(result.plan.exercises.map((e) => e.name)).toEqual([
+      "Back Squat",
+      "Leg Press",
+      "Barbell Curl",
+      "Mobility Flow",
+      "Box Breathing",
+    ]);
+    expect(result.skippedChanges).toHaveLength(1);
+  });
+
+  it("raises core lift reps for weekly challenge levels", () => {
+    const result = apply([
+      { target: "exercise", adjustment: "weekly_challenge_level_3" },
+    ]);
+
+    expect(result.plan.exercises.map((e) => e.reps)).toEqual([
+      [10, 12],
+      [10, 12],
+      [8, 10],
+    ]);
+  });
+
+  it("gives swapped-in exercises ids no other exercise uses", () => {
+    const result = apply([
+      {
+        target: "exercise",
+        adjustment: "variation",
+        exerciseIds: ["back-squat"],
+      },
+    ]);
+    const ids = result.plan.exercises.map((e) => e.id);
+
+    expect(result.plan.exercises[0].name).toBe("Front Squat");
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(result.plan.exercises[1]).toEqual(plan.exercises[1]);
+  });
+
+  it("does not swap an exercise back within one apply", () => {
+    const result = apply([
+      { target: "exercise", adjustment: "variation" },
+      { target: "exercise", adjustment: "fun_variety_focus" },
+    ]);
+
+    expect(result.plan.exercises.map((e) => e.name)).not.toContain(
+      "Back Squat"
+    );
+    expect(
+      result.changeLog.filter((entry) => entry.previousValue === "Back Squat")
+    ).toHaveLength(1);
+  });
+
+  it("skips directives that do not change the plan", () => {
+    const result = apply([{ target: "exercise", adjustment: "pb_focus" }]);
+
+    expect(result.plan.exercises).toEqual(plan.exercises);
+    expect(result.skippedChanges[0].reason).toBe(
+      'Exercise strategy "pb_focus" does not change the plan'
+    );
+  });
+
+  it("logs rounded values", () => {
+    const result = apply([{ target: "intensity", adjustment: -20 }]);
+
+    expect(result.changeLog[0]).toMatchObject({
+      previousValue: 6,
+      newValue: 4.8,
+    });
+  });
+});
+
+describe("Adaptation rule registry", () => {
+  it("runs registered rules in the current rule set version", () => {
+    const engine = new AdaptationEngine();
+
+    engine.registerRule(new AlwaysRule());
+
+    expect(engine.getRegisteredRules()).toContainEqual({
+      id: "AlwaysRule",
+      enabled: true,
+    });
+    expect(firedRuleIds(engine)).toContain("AlwaysRule");
+  });
+
+  it("rejects duplicate ids and unknown rule set versions", () => {
+    const engine = new AdaptationEngine();
+    engine.registerRule(new AlwaysRule());
+
+    expect(() => engine.registerRule(new AlwaysRule())).toThrow(
+      'Adaptation rule "AlwaysRule" is already registered'
+    );
+    expect(() =>
+      new AdaptationEngine().registerRule(new AlwaysRule(), {
+        ruleSetVersionIds: ["v9"],
+      })
+    ).toThrow('Unknown rule set version "v9"');
+  });
+
+  it("disables, re-enables and unregisters rules", () => {
+    const engine = new AdaptationEngine();
+    engine.registerRule(new AlwaysRule());
+
+    engine.disableRule("AlwaysRule");
+    const whileDisabled = firedRuleIds(engine);
+    engine.enableRule("AlwaysRule");
+    const whileEnabled = firedRuleIds(engine);
+    const removed = engine.unregisterRule("AlwaysRule");
+
+    expect(whileDisabled).not.toContain("AlwaysRule");
+    expect(whileEnabled).toContain("AlwaysRule");
+    expect(removed).toBe(true);
+    expect(firedRuleIds(engine)).not.toContain("AlwaysRule");
+    expect(() => engine.disableRule("Missing")).toThrow(
+      'Adaptation rule "Missing" is not registered'
+    );
+  });
+
+  it("validates rule set versions before deploying them", async () => {
+    const engine = new AdaptationEngine();
+    const version = createRuleSetVersion("v2", {
+      rules: ["FatigueRule", "Missing"],
+    });
+
+    await expect(engine.deployRuleSetVersion(version)).rejects.toThrow(
+      "Rule set v2 references unregistered rules: Missing"
+    );
+    expect(version.rules).toEqual(["FatigueRule", "Missing"]);
+  });
+});
+
+describe("Declarative rules", () => {
+  it("registers compiled rule documents", () => {
+    const engine = new AdaptationEngine();
+
+    const rule = engine.registerRuleDocument(createRuleDocument("ShortSleep"));
+
+    expect(rule.id).toBe("ShortSleep");
+    expect(engine.getRegisteredRules()).toContainEqual({
+      id: "ShortSleep",
+      enabled: true,
+    });
+  });
+
+  it("deploys different document versions of one rule side by side", async () => {
+    const engine = new AdaptationEngine();
+    await deployDocuments(engine, "v2", [
+      createRuleDocument("ShortSleep", { reason: "first draft" }),
+    ]);
+    await deployDocuments(engine, "v3", [
+      createRuleDocument("ShortSleep", {
+        version: "2.0.0",
+        reason: "second draft",
+      }),
+    ]);
+
+    expect(await replayedReasons(engine, "v2")).toEqual(["first draft"]);
+    expect(await replayedReasons(engine, "v3")).toEqual(["second draft"]);
+  });
+
+  it("stops running a deployed rule once it is unregistered", async () => {
+    const engine = new AdaptationEngine();
+    await deployDocuments(engine, "v2", [
+      createRuleDocument("ShortSleep", { reason: "deployed" }),
+    ]);
+
+    expect(engine.unregisterRule("ShortSleep")).toBe(true);
+    expect(await replayedReasons(engine, "v2")).toEqual([]);
+  });
+
+  it("rejects a version that deploys one rule id twice", async () => {
+    const engine = new AdaptationEngine();
+
+    await expect(
+      deployDocuments(engine, "v2", [
+        createRuleDocument("ShortSleep"),
+        createRuleDocument("ShortSleep", { version: "2.0.0" }),
+      ])
+    ).rejects.toThrow('Duplicate adaptation rule id "ShortSleep"');
+    expect(engine.getRegisteredRules().map((r) => r.id)).not.toContain(
+      "ShortSleep"
+    );
+  });
+});
+
+describe("AdaptationRuleCompiler", () => {
+  const compiler = new AdaptationRuleCompiler();
+
+  it("compiles a document into a rule that evaluates its branches", () => {
+    const rule = compiler.compile(createRuleDocument("ShortSleep"));
+    const tired = createUserMetrics({
+      lifestyle: { ...createUserMetrics().lifestyle, sleepHours: 5 },
+    });
+
+    const recommendation = rule.evaluate(
+      tired,
+      createUserSignature(),
+      createProprietaryMetrics()
+    );
+
+    expect(rule.documentVersion).toBe("1.0.0");
+    expect(recommendation).toMatchObject({
+      type: "recovery",
+      priority: "high",
+      reason: "Slept 5h",
+      changes: [{ target: "intensity", adjustment: -10 }],
+    });
+    expect(
+      rule.evaluate(
+        createUserMetrics(),
+        createUserSignature(),
+        createProprietaryMetrics()
+      )
+    ).toBeNull();
+  });
+
+  it("supports nested all, any and not conditions", () => {
+    const rule = compiler.compile(
+      createRuleDocument("Nested", {
+        when: {
+          all: [
+            {
+              source: "user_metrics",
+              field: "mood.motivation",
+              operator: "gte",
+              value: 5,
+            },
+            {
+              not: {
+                source: "recent_workouts",
+                field: "reportedFatigue",
+                aggregate: "avg",
+                operator: "gt",
+                value: 8,
+              },
+            },
+          ],
+        },
+      })
+    );
+
+    expect(
+      rule.evaluate(
+        createUserMetrics(),
+        createUserSignature(),
+        createProprietaryMetrics()
+      )
+    ).not.toBeNull();
+  });
+
+  it("rejects invalid documents", () => {
+    expect(() => compiler.compile(createRuleDocument("1bad"))).toThrow(
+      "Rule ids must start with a letter"
+    );
+    expect(() =>
+      compiler.compile({ ...createRuleDocument("Empty"), branches: [] })
+    ).toThrow();
+    expect(() =>
+      compiler.compile(
+        createRuleDocument("BadField", {
+          when: { ...SHORT_SLEEP, field: "lifestyle.mood" },
+        })
+      )
+    ).toThrow();
+  });
+
+  it("rejects duplicate ids in one batch", () => {
+    expect(() =>
+      compiler.compileAll([
+        createRuleDocument("ShortSleep"),
+        createRuleDocument("ShortSleep", { version: "2.0.0" }),
+      ])
+    ).toThrow('Duplicate adaptation rule id "ShortSleep"');
+  });
+});
+
+describe("AdaptationEngine experiment assignment", () => {
+  const userIds = Array.from({ length: 200 }, (_, i) => `user-${i}`);
+
+  async function startExperiment(
+    engine: AdaptationEngine,
+    rampPercentage: number
+  ) {
+    await engine.deployRuleSetVersion(createRuleSetVersion("v2"), 0);
+    return engine.startExperiment({
+      experimentId: "exp-1",
+      salt: "salt-1",
+      arms: [{ versionId: "v2", testGroup: "treatment_a", weight: 1 }],
+      controlVersionId: "v1.0.0",
+      holdoutPercentage: 10,
+      rampPercentage,
+    });
+  }
+
+  it("buckets a user the same way across engines and call order", async () => {
+    const a = new AdaptationEngine();
+    const b = new AdaptationEngine();
+    await startExperiment(a, 50);
+    await startExperiment(b, 50);
+
+    const forward = userIds.map((id) => a.getExperimentAssignment(id));
+    const backward = [...userIds]
+      .reverse()
+      .map((id) => b.getExperimentAssignment(id))
+      .reverse();
+
+    expect(backward).toEqual(forward);
+    expect(a.getExperimentAssignment("user-7")).toEqual(forward[7]);
+  });
+
+  it("keeps enrolled users in their arm when the ramp grows", async () => {
+    const engine = new AdaptationEngine();
+    await startExperiment(engine, 20);
+    const before = userIds.map((id) => engine.getExperimentAssignment(id));
+
+    engine.setExperimentRamp("exp-1", 80);
+    const after = userIds.map((id) => engine.getExperimentAssignment(id));
+
+    before.forEach((assignment, i) => {
+      if (assignment.group !== "control") {
+        expect(after[i]).toEqual(assignment);
+      }
+    });
+    const enrolled = (assignments: typeof before) =>
+      assignments.filter((a) => a.group === "treatment").length;
+    expect(enrolled(after)).toBeGreaterThan(enrolled(before));
+  });
+
+  it("serves the current version to everyone without an experiment", () => {
+    const engine = new AdaptationEngine();
+
+    expect(engine.getExperimentAssignment("user-1")).toEqual({
+      userId: "user-1",
+      versionId: "v1.0.0",
+      group: "control",
+    });
+  });
+
+  it("keeps outcome aggregates across a restart", async () => {
+    const provider = new InMemoryAdaptationStateProvider();
+    const engine = new AdaptationEngine(provider);
+    for (const effectiveness of [0.2, 0.4, 0.6]) {
+      engine.recordRuleSetOutcome("v1.0.0", { effectiveness });
+    }
+    await engine.flush();
+
+    const restarted = new AdaptationEngine(provider);
+    await restarted.hydrate();
+    restarted.recordRuleSetOutcome("v1.0.0", { effectiveness: 0.8 });
+    await restarted.flush();
+
+    const stored = (await provider.loadState())!.ruleSetVersions.find(
+      (version) => version.versionId === "v1.0.0"
+    )!;
+    expect(stored.performanceMetrics.avgEffectiveness).toBeCloseTo(0.5);
+    expect(stored.performanceIntervals!.effectiveness).toMatchObject({
+      sampleSize: 4,
+      stdDev: expect.closeTo(Math.sqrt(0.2 / 3)),
+    });
+  });
+});
+
+// Fatigue high enough that analysis recommends, and records, an adaptation
+function createTiredUser(): UserMetrics {
+  return createUserMetrics({
+    recentWorkouts: [3, 2, 1].map((daysAgo) =>
+      createWorkout(daysAgo, { reportedFatigue: 9, completionRate: 0.5 })
+    ),
+  });
+}
+
+describe("AdaptationEngine.recordAdaptationOutcome", () => {
+  it("moves the rule's weight by its learning rate", async () => {
+    const provider = new InMemoryAdaptationStateProvider();
+    const engine = new AdaptationEngine(provider);
+    const { recommendations } =
+      await engine.analyzeWithExplanation(createTiredUser());
+    const [rec] = recommendations;
+
+    const adaptation = await engine.recordAdaptationOutcome(
+      rec.adaptationId!,
+      createOutcome()
+    );
+    await engine.flush();
+
+    const weights = (await provider.loadState())!.ruleWeights.find(
+      (w) => w.ruleName === rec.ruleId
+    )!;
+    expect(weights.baseWeight).toBeCloseTo(
+      1 + weights.learningRate * adaptation!.effectiveness
+    );
+  });
+
+  it("keeps learning preferences once the signature holds ten", async () => {
+    const provider = new InMemoryAdaptationStateProvider();
+    const learned = Array.from({ length: 10 }, (_, i) => `learned-${i}`);
+    await provider.saveUserSignature(
+      createUserSignature({ preferredWorkoutTypes: learned })
+    );
+    const engine = new AdaptationEngine(provider);
+    await engine.hydrate();
+
+    const { recommendations } =
+      await engine.analyzeWithExplanation(createTiredUser());
+    await engine.recordAdaptationOutcome(
+      recommendations[0].adaptationId!,
+      createOutcome()
+    );
+
+    expect(
+      engine.getUserAdaptationInsights("user-1").signature.preferredWorkoutTypes
+    ).toEqual([...learned.slice(1), "strength"]);
+  });
+
+  it("keeps learned analytics across a restart", async () => {
+    const provider = new InMemoryAdaptationStateProvider();
+    const engine = new AdaptationEngine(provider);
+    const first = await engine.analyzeWithExplanation(createTiredUser());
+    await engine.recordAdaptationOutcome(
+      first.recommendations[0].adaptationId!,
+      createOutcome()
+    );
+    await engine.flush();
+
+    const restarted = new AdaptationEngine(provider);
+    await restarted.hydrate();
+    const second = await restarted.analyzeWithExplanation(createTiredUser());
+    await restarted.recordAdaptationOutcome(
+      second.recommendations[0].adaptationId!,
+      createOutcome({ adherenceChange: -1, motivationChange: -1 })
+    );
+    await restarted.flush();
+
+    const { analytics, analyticsSampleCounts } = (await provider.loadState())!;
+    const ruleId = first.recommendations[0].ruleId!;
+    expect(analytics!.dataPoints).toBe(2);
+    expect(analyticsSampleCounts![`rule:${ruleId}`]).toBe(2);
+    expect(analytics!.ruleEffectivenessRates[ruleId]).toBe(0.5);
+  });
+});
+
+// Records one labelled outcome per user; every other adaptation backfires
+async function recordLabelledOutcomes(engine: AdaptationEngine, count: number) {
+  for (let i = 0; i < count; i++) {
+    const { recommendations } = await engine.analyzeWithExplanation({
+      ...createTiredUser(),
+      userId: `user-${i}`,
+    });
+    await engine.recordAdaptationOutcome(
+      recommendations[0].adaptationId!,
+      i % 2 === 0
+        ? createOutcome()
+        : createOutcome({ adherenceChange: -1, motivationChange: -1 })
+    );
+  }
+}
+
+describe("AdaptationEngine ML model lifecycle", () => {
+  it("refuses to train without enough labelled outcomes", async () => {
+    const engine = new AdaptationEngine();
+    await engine.analyzeWithExplanation(createTiredUser());
+
+    await expect(engine.trainMLModel({ minSamples: 1 })).rejects.toThrow(
+      "ML training needs at least 1 labelled outcomes, found 0"
+    );
+  });
+
+  it("serves a trained model only after validation and promotion", async () => {
+    const engine = new AdaptationEngine();
+    const initial = engine.getMLModelStatus().active!;
+    await recordLabelledOutcomes(engine, 10);
+
+    const trained = await engine.trainMLModel({
+      minSamples: 10,
+      seed: 1,
+      hyperparameters: { n_estimators: 5, min_samples_leaf: 1 },
+    });
+    expect(trained).toMatchObject({
+      trainingDataSize: 8,
+      deploymentStatus: "training",
+    });
+    expect(engine.getMLModelStatus().active).toBe(initial);
+    await expect(engine.promoteMLModel()).rejects.toThrow(
+      "ML model must be validated before promotion"
+    );
+
+    const report = await engine.validateMLModel();
+    expect(report.sampleCount).toBe(2);
+    const promoted = await engine.promoteMLModel(0);
+
+    expect(promoted.version).toBe(trained.version);
+    expect(initial.deploymentStatus).toBe("retired");
+    expect(engine.getMLModelStatus()).toEqual({
+      active: expect.objectContaining({ deploymentStatus: "production" }),
+      candidate: undefined,
+    });
+  });
+});
+
+describe("AdaptationEngine plan lineage", () => {
+  const intensityCut = createRecommendation({
+    priority: "high",
+    changes: [{ target: "intensity", adjustment: -10 }],
+  });
+
+  it("records lineage for plans changed by applyRecommendations", async () => {
+    const engine = new AdaptationEngine();
+    const user = createTiredUser();
+    const { recommendations } = await engine.analyzeWithExplanation(user);
+
+    const plan = engine.applyRecommendations(user.currentPlan, recommendations);
+
+    expect(plan.id).toBe("plan-1-g1");
+    expect(engine.getPlanLineage(plan.id)).toMatchObject({
+      parentPlanId: "plan-1",
+      userId: "user-1",
+      adaptationIds: expect.arrayContaining([recommendations[0].adaptationId]),
+    });
+  });
+
+  it("finds a user's plans and their descendants after a restart", async () => {
+    const provider = new InMemoryAdaptationStateProvider();
+    const engine = new AdaptationEngine(provider);
+    const options = { userId: "user-1" };
+    const root = createUserMetrics().currentPlan;
+    const child = engine.applyRecommendationsWithLog(
+      root,
+      [intensityCut],
+      options
+    ).plan;
+    engine.applyRecommendationsWithLog(child, [intensityCut], options);
+    engine.applyRecommendationsWithLog(root, [intensityCut], options);
+    engine.applyRecommendationsWithLog(
+      { ...root, id: "other-plan" },
+      [intensityCut],
+      { userId: "user-2" }
+    );
+    await engine.flush();
+
+    const restarted = new AdaptationEngine(provider);
+    await restarted.hydrate();
+
+    expect(restarted.getPlanDescendants("plan-1").map((l) => l.planId)).toEqual(
+      ["plan-1-g1", "plan-1-g1-2", "plan-1-g2"]
+    );
+    expect(
+      restarted.getUserPlanLineages("user-1").map((l) => l.planId)
+    ).toHaveLength(4);
+    expect(restarted.getPlanTreeSummary("user-2")).toHaveLength(1);
+  });
+});
+
+describe("AdaptationEngine.whatIf", () => {
+  it("lists the recommendations a scenario adds", async () => {
+    const engine = new AdaptationEngine();
+    const user = createUserMetrics();
+
+    const result = await engine.whatIf(user, { lifestyle: { sleepHours: 4 } });
+
+    expect(
+      result.recommendationDiff.added.map((rec) => [rec.ruleId, rec.priority])
+    ).toEqual([
+      ["SleepRule", "critical"],
+      ["RecoveryRule", "high"],
+    ]);
+    expect(result.recommendationDiff.removed).toEqual([]);
+    expect(result.scenario.recommendations).toHaveLength(
+      result.baseline.recommendations.length + 2
+    );
+    expect(user.lifestyle.sleepHours).toBe(7);
+  });
+
+  it("leaves history, training data and signatures untouched", async () => {
+    const provider = new InMemoryAdaptationStateProvider();
+    const engine = new AdaptationEngine(provider);
+
+    await engine.whatIf(createTiredUser(), { lifestyle: { sleepHours: 4 } });
+    await engine.flush();
+
+    expect(await provider.loadState()).toMatchObject({
+      adaptationHistory: {},
+      mlTrainingData: [],
+      userSignatures: [],
+      userTestGroups: {},
+    });
+    expect(engine.getUserAdaptationInsights("user-1").recentHistory).toEqual(
+      []
+    );
+  });
+});
+
+describe("AdaptationEngine emergent strategies", () => {
+  const base = createUserMetrics();
+
+  it("prefers the recovery protocol over progression strategies", async () => {
+    const engine = new AdaptationEngine();
+    const user = createUserMetrics({
+      recentWorkouts: createTiredUser().recentWorkouts,
+      lifestyle: { ...base.lifestyle, stressLevel: 9 },
+      mood: { ...base.mood, motivation: 2, recentTrend: "declining" },
+      progressData: { ...base.progressData, strengthGains: { squat: 0.01 } },
+    });
+
+    const { recommendations } = await engine.analyzeWithExplanation(user);
+
+    expect(recommendations[0]).toMatchObject({
+      type: "recovery",
+      priority: "critical",
+      schedule: { strategy: "comprehensive_recovery_protocol" },
+    });
+    expect(
+      recommendations.filter((rec) => rec.schedule !== undefined)
+    ).toHaveLength(1);
+  });
+
+  it("adds back every session the simplified plan cut", async () => {
+    const engine = new AdaptationEngine();
+    const user = createUserMetrics({
+      currentPlan: { ...base.currentPlan, frequency: 5 },
+      recentWorkouts: [9, 5, 1].map((daysAgo) =>
+        createWorkout(daysAgo, { completionRate: 0.5 })
+      ),
+      progressData: {
+        ...base.progressData,
+        weeklyConsistency: 0.3,
+        monthlyConsistency: 0.3,
+        streak: 0,
+        strengthGains: { squat: 0 },
+        averageRating: 4,
+      },
+    });
+
+    const { recommendations } = await engine.analyzeWithExplanation(user);
+    const { phases } = recommendations.find(
+      (rec) => rec.schedule?.strategy === "simplified_progression_plan"
+    )!.schedule!;
+
+    expect(phases[0].changes).toContainEqual({
+      target: "frequency",
+      adjustment: -2,
+    });
+    expect(phases[2].changes).toContainEqual({
+      target: "frequency",
+      adjustment: 2,
+    });
+  });
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function createPhase(
+  startWeek: number,
+  changes: PlanChange[]
+): AdaptationPhase {
+  return {
+    name: `Week ${startWeek}`,
+    startWeek,
+    durationWeeks: 1,
+    goal: "test",
+    changes,
+    milestones: [],
+    checkIns: [],
+    exitCriteria: [],
+  };
+}
+
+// Two one-week phases; the second raises volume past the weekly budget
+const PHASED_BUILD = createRecommendation({
+  type: "volume",
+  priority: "high",
+  duration: 14,
+  changes: [{ target: "intensity", adjustment: -5 }],
+  schedule: {
+    strategy: "test_build",
+    sourceRules: [],
+    totalWeeks: 2,
+    phases: [
+      createPhase(1, [{ target: "intensity", adjustment: -5 }]),
+      createPhase(2, [
+        { target: "volume", adjustment: 40 },
+        { target: "intensity", adjustment: 2.5 },
+      ]),
+    ],
+  },
+});
+
+describe("AdaptationEngine.scheduleAdaptations", () => {
+  const plan = createUserMetrics().currentPlan;
+  const options = { userId: "user-1", startsAt: NOW };
+  const weekTwo = new Date(NOW.getTime() + 8 * DAY_MS);
+
+  it("runs later phases through guardrails as they start", () => {
+    const engine = new AdaptationEngine();
+    engine.scheduleAdaptations(plan, [PHASED_BUILD], options);
+
+    const effective = engine.getEffectivePlan(plan.id, weekTwo).plan;
+
+    expect(effective.volume).toBeCloseTo(40 * 1.3);
+    expect(effective.intensity).toBeCloseTo(6 * 0.95 * 1.025);
+    expect(engine.getGuardrailAudit("user-1")).toEqual([
+      expect.objectContaining({
+        guardrail: "weekly_budget",
+        originalAdjustment: 40,
+        adjustedAdjustment: 30,
+        timestamp: new Date(NOW.getTime() + 7 * DAY_MS),
+      }),
+    ]);
+  });
+
+  it("blocks later phase increases for injury-flagged users", async () => {
+    const provider = new InMemoryAdaptationStateProvider();
+    await provider.saveUserSignature(
+      createUserSignature({ injuryRiskFactors: ["knee"] })
+    );
+    const engine = new AdaptationEngine(provider);
+    await engine.hydrate();
+    engine.scheduleAdaptations(plan, [PHASED_BUILD], options);
+
+    const effective = engine.getEffectivePlan(plan.id, weekTwo).plan;
+
+    expect(effective.volume).toBe(40);
+    expect(effective.intensity).toBeCloseTo(6 * 0.95);
+  });
+
+  it("keeps the first baseline when scheduling again", () => {
+    const engine = new AdaptationEngine();
+    const cut = createRecommendation({
+      priority: "high",
+      duration: 30,
+      changes: [{ target: "intensity", adjustment: -10 }],
+    });
+    engine.scheduleAdaptations(plan, [cut], options);
+
+    engine.scheduleAdaptations({ ...plan, intensity: 9 }, [cut], {
+      ...options,
+      startsAt: new Date(NOW.getTime() + DAY_MS),
+    });
+
+    expect(
+      engine.getEffectivePlan(plan.id, new Date(NOW.getTime() + 2 * DAY_MS))
+        .plan.intensity
+    ).toBeCloseTo(6 * 0.9 * 0.9);
+  });
+
+  it("drops adaptations that ended weeks ago", () => {
+    const engine = new AdaptationEngine();
+    const deload = createRecommendation({
+      priority: "high",
+      duration: 7,
+      changes: [{ target: "volume", adjustment: -10 }],
+    });
+    const [expired] = engine.scheduleAdaptations(plan, [deload], options);
+    const [cancelled] = engine.scheduleAdaptations(plan, [deload], options);
+    engine.cancelAdaptation(cancelled.id, NOW);
+
+    const [current] = engine.scheduleAdaptations(plan, [deload], {
+      ...options,
+      startsAt: new Date(NOW.getTime() + 60 * DAY_MS),
+    });
+
+    expect(engine.getScheduledAdaptations(plan.id)).toEqual([current]);
+    expect(current.id).not.toBe(expired.id);
+  });
+});
+
+describe("AdaptationEngine.analyzeBatch", () => {
+  it("simulates every user and counts reused seeds", async () => {
+    const engine = new AdaptationEngine();
+    const users = ["a", "b", "c"].map((userId) => ({
+      ...createTiredUser(),
+      userId,
+    }));
+
+    const summary = await engine
+      .analyzeBatch(users, { concurrency: 2, dryRun: true })
+      .summary();
+
+    expect(summary).toMatchObject({
+      totalUsers: 3,
+      analyzedUsers: 3,
+      failedUsers: 0,
+      simulationsRun: 3,
+      seedsReused: 2,
+    });
+  });
+
+  it("streams each user's result and reports failures per user", async () => {
+    const engine = new AdaptationEngine();
+    const logError = jest.spyOn(console, "error").mockImplementation(() => {});
+    const broken = { ...createUserMetrics(), userId: "broken" };
+    delete (broken as Partial<UserMetrics>).lifestyle;
+
+    const items = [];
+    const run = engine.analyzeBatch([createTiredUser(), broken], {
+      dryRun: true,
+      skipSimulation: true,
+    });
+    for await (const item of run) items.push(item);
+    logError.mockRestore();
+
+    expect(items.map((item) => [item.index, item.userId])).toEqual(
+      expect.arrayContaining([
+        [0, "user-1"],
+        [1, "broken"],
+      ])
+    );
+    expect(items.find((item) => item.index === 1)!.error).toBeDefined();
+    expect(await run.summary()).toMatchObject({
+      analyzedUsers: 1,
+      failedUsers: 1,
+      simulationsRun: 0,
+    });
+  });
+});
+
+// Completion falls while RPE climbs, ending at the given completion rate
+function createOverreachingUser(finalCompletion: number): UserMetrics {
+  return createUserMetrics({
+    recentWorkouts: [12, 9, 6, 3, 1].map((daysAgo, i) =>
+      createWorkout(daysAgo, {
+        completionRate: finalCompletion + (4 - i) * 0.05,
+        exerciseResults: [
+          {
+            exerciseId: "squat",
+            completedSets: 4,
+            completedReps: [6, 6, 6, 6],
+            perceivedExertion: 6 + i * 0.5,
+          },
+        ],
+      })
+    ),
+  });
+}
+
+describe("AdaptationEngine preemptive plans", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW }); // trends are projected to today
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("warns and arms a contingency when completion falls as effort rises", async () => {
+    const engine = new AdaptationEngine();
+
+    const { preemptivePlan } = await engine.analyzeWithExplanation(
+      createOverreachingUser(0.75)
+    );
+
+    expect(preemptivePlan.earlyWarningSignals).toEqual([
+      expect.objectContaining({
+        id: "completion_effort_divergence",
+        currentValue: 74,
+        trend: "approaching",
+        daysToThreshold: 3,
+      }),
+    ]);
+    expect(preemptivePlan.contingencyPlans[0]).toMatchObject({
+      warningSignalId: "completion_effort_divergence",
+      status: "armed",
+      planPatch: [
+        { target: "volume", adjustment: -20 },
+        { target: "intensity", adjustment: -10 },
+      ],
+    });
+  });
+
+  it("applies the contingency once its warning fires", async () => {
+    const engine = new AdaptationEngine();
+
+    const { preemptivePlan, recommendations } =
+      await engine.analyzeWithExplanation(createOverreachingUser(0.6));
+
+    expect(preemptivePlan.contingencyPlans[0]).toMatchObject({
+      status: "activated",
+      activatedAt: NOW,
+    });
+    expect(recommendations.map((rec) => rec.reason)).toContain(
+      "Contingency: falling completion with rising effort"
+    );
+  });
+
+  it("stays quiet for a steady user", async () => {
+    const engine = new AdaptationEngine();
+
+    const { preemptivePlan } =
+      await engine.analyzeWithExplanation(createUserMetrics());
+
+    expect(preemptivePlan.earlyWarningSignals).toEqual([]);
+    expect(preemptivePlan.contingencyPlans.map((plan) => plan.status)).toEqual([
+      "armed",
+    ]);
+  });
+
+  it("projects four weeks with a confidence band", async () => {
+    const engine = new AdaptationEngine();
+
+    const { preemptivePlan } = await engine.analyzeWithExplanation(
+      createOverreachingUser(0.75)
+    );
+
+    expect(preemptivePlan.optimalTrajectory.map((p) => p.week)).toEqual([
+      1, 2, 3, 4,
+    ]);
+    for (const point of preemptivePlan.optimalTrajectory) {
+      const ari = point.predictedMetrics.adaptiveRecoveryIndex!;
+      expect(point.lowerBound!.adaptiveRecoveryIndex).toBeLessThanOrEqual(ari);
+      expect(point.upperBound!.adaptiveRecoveryIndex).toBeGreaterThanOrEqual(
+        ari
+      );
+    }
+  });
+});
+
+describe("AdaptationEngine.replay", () => {
+  const sleepyUser = createUserMetrics({
+    lifestyle: { ...createUserMetrics().lifestyle, sleepHours: 4 },
+  });
+  const withoutSleepRule = createRuleSetVersion("v-no-sleep", {
+    rules: ["FatigueRule", "RecoveryRule"],
+    ruleWeights: { FatigueRule: 1, RecoveryRule: 1 },
+  });
+
+  it("diffs recorded history against an undeployed version", async () => {
+    const engine = new AdaptationEngine();
+    await engine.analyzeWithExplanation(sleepyUser);
+    const historyBefore =
+      engine.getUserAdaptationInsights("user-1").recentHistory.length;
+
+    const report = await engine.replayUserHistory("user-1", withoutSleepRule);
+
+    expect(report.steps).toHaveLength(1);
+    expect(report.steps[0].diff.removed.map((rec) => rec.ruleId)).toContain(
+      "SleepRule"
+    );
+    expect(report.summary).toMatchObject({
+      snapshots: 1,
+      unchangedSnapshots: 0,
+      ruleTriggerDelta: expect.objectContaining({ SleepRule: -1 }),
+    });
+    expect(
+      engine.getUserAdaptationInsights("user-1").recentHistory
+    ).toHaveLength(historyBefore);
+    await expect(engine.replay([], "v-no-sleep")).rejects.toThrow(
+      'Unknown rule set version "v-no-sleep"'
+    );
+  });
+
+  it("reports no changes when replaying the version that produced them", async () => {
+    const engine = new AdaptationEngine();
+    const actual = engine.analyze(sleepyUser);
+
+    const report = await engine.replay(
+      [
+        {
+          timestamp: NOW,
+          metrics: sleepyUser,
+          actualRecommendations: actual,
+        },
+      ],
+      "v1.0.0"
+    );
+
+    expect(report.steps[0].actualSource).toBe("provided");
+    expect(report.summary).toMatchObject({
+      unchangedSnapshots: 1,
+      ruleTriggerDelta: {},
+    });
+  });
+});
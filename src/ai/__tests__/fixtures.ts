@@ -0,0 +1,167 @@
+import {
+  AdaptationOutcome,
+  AdaptationRecommendation,
+  NateProprietaryMetrics,
+  UserMetrics,
+  UserSignature,
+  WorkoutSession,
+} from "../adaptation-engine";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const NOW = new Date("2026-06-01T12:00:00Z");
+
+export function createWorkout(
+  daysAgo: number,
+  overrides: Partial<WorkoutSession> = {}
+): WorkoutSession {
+  const date = new Date(NOW.getTime() - daysAgo * DAY_MS);
+  return {
+    id: `w-${daysAgo}`,
+    planId: "plan-1",
+    scheduledDate: date,
+    completedAt: date,
+    completionRate: 0.9,
+    userRating: 7,
+    reportedFatigue: 5,
+    exerciseResults: [
+      {
+        exerciseId: "squat",
+        completedSets: 4,
+        completedReps: [8, 8, 7, 6],
+        completedWeight: 100,
+        perceivedExertion: 7,
+      },
+    ],
+    ...overrides,
+  };
+}
+
+export function createUserMetrics(
+  overrides: Partial<UserMetrics> = {}
+): UserMetrics {
+  return {
+    userId: "user-1",
+    currentPlan: {
+      id: "plan-1",
+      type: "strength",
+      intensity: 6,
+      volume: 40,
+      frequency: 4,
+      duration: 60,
+      exercises: [
+        {
+          id: "squat",
+          name: "Back Squat",
+          sets: 4,
+          reps: [6, 8],
+          weight: 100,
+          intensity: 7,
+        },
+        {
+          id: "bench",
+          name: "Bench Press",
+          sets: 3,
+          reps: 8,
+          weight: 70,
+          intensity: 6,
+        },
+      ],
+      progressionRate: 2,
+    },
+    recentWorkouts: [5, 3, 1].map((daysAgo) => createWorkout(daysAgo)),
+    progressData: {
+      streak: 3,
+      weeklyConsistency: 0.8,
+      monthlyConsistency: 0.75,
+      totalWorkouts: 24,
+      averageRating: 7,
+      strengthGains: { squat: 0.02 },
+      cardioGains: {},
+    },
+    biometrics: { weight: 80, lastUpdated: NOW },
+    lifestyle: {
+      sleepHours: 7,
+      sleepQuality: 7,
+      stressLevel: 4,
+      energyLevel: 7,
+      workload: 5,
+      nutritionCompliance: 0.8,
+      hydration: 2.5,
+    },
+    mood: {
+      score: 7,
+      motivation: 7,
+      confidence: 7,
+      anxiety: 3,
+      recentTrend: "stable",
+    },
+    ...overrides,
+  };
+}
+
+export function createUserSignature(
+  overrides: Partial<UserSignature> = {}
+): UserSignature {
+  return {
+    userId: "user-1",
+    preferredIntensityRange: [5, 8],
+    averageRecoveryTime: 2,
+    commonFatigueTriggers: [],
+    motivationalTriggers: [],
+    planCompliancePattern: "consistent",
+    adaptationResponsiveness: 0.6,
+    preferredWorkoutTypes: ["strength"],
+    injuryRiskFactors: [],
+    plateauBreakers: [],
+    lastUpdated: NOW,
+    confidenceLevel: 0.7,
+    ...overrides,
+  };
+}
+
+export function createProprietaryMetrics(
+  overrides: Partial<NateProprietaryMetrics> = {}
+): NateProprietaryMetrics {
+  return {
+    adaptiveRecoveryIndex: 0.7,
+    engagementScore: 0.7,
+    planVolatility: 0.2,
+    metabolicAdaptationScore: 0.6,
+    motivationalMomentum: 0.5,
+    adherenceQuality: 0.8,
+    progressVelocity: 0.5,
+    resilientIndex: 0.6,
+    adaptationEfficiency: 0.6,
+    ...overrides,
+  };
+}
+
+export function createRecommendation(
+  overrides: Partial<AdaptationRecommendation> = {}
+): AdaptationRecommendation {
+  return {
+    type: "intensity",
+    priority: "medium",
+    reason: "test",
+    explanation: "test",
+    duration: 7,
+    changes: [{ target: "intensity", adjustment: 10 }],
+    ...overrides,
+  };
+}
+
+export function createOutcome(
+  overrides: Partial<AdaptationOutcome> = {}
+): AdaptationOutcome {
+  return {
+    adherenceChange: 0.2,
+    motivationChange: 1,
+    performanceChange: 0.1,
+    satisfactionRating: 8,
+    behaviorChange: "completed every session",
+    followUpRequired: false,
+    unexpectedEffects: [],
+    ...overrides,
+  };
+}
@@ -0,0 +1,721 @@
+import {
+  MemoryInteractionInput,
+  parseMemoryInteraction,
+  SmartMemoryEngine,
+  UserMemoryProfile,
+} from "../smart-memory";
+import { CacheService } from "../services/CacheService";
+import {
+  IMemoryPersistenceProvider,
+  MemoryPersistenceService,
+} from "../services/MemoryPersistenceService";
+import { NateScoringEngine } from "../services/NateScoringEngine";
+import { PlanTemplateGenerator } from "../services/PlanTemplateGenerator";
+import { PrivacyManager } from "../services/PrivacyManager";
+import { DeepPartial } from "../services/ProfileMerge";
+import { VisualizationService } from "../services/VisualizationService";
+
+// Keeps the latest profile only; versioning is covered by the service specs
+class InMemoryMemoryProvider implements IMemoryPersistenceProvider {
+  profiles = new Map<string, UserMemoryProfile>();
+
+  async saveMemoryProfile(profile: UserMemoryProfile): Promise<boolean> {
+    this.profiles.set(profile.userId, structuredClone(profile));
+    return true;
+  }
+
+  async loadMemoryProfile(userId: string): Promise<UserMemoryProfile | null> {
+    const stored = this.profiles.get(userId);
+    return stored ? structuredClone(stored) : null;
+  }
+
+  async saveReinforcementProfile(): Promise<void> {}
+  async loadReinforcementProfile() {
+    return null;
+  }
+  async savePrivacySettings(): Promise<void> {}
+  async loadPrivacySettings() {
+    return null;
+  }
+  async deleteUserData(userId: string): Promise<void> {
+    this.profiles.delete(userId);
+  }
+}
+
+// Cache that never hits, so every read goes to the provider
+const noCache = {
+  getCachedMemoryProfile: async () => null,
+  cacheMemoryProfile: async () => undefined,
+  invalidateMemoryProfile: async () => undefined,
+  invalidateAllUserData: async () => undefined,
+} as unknown as CacheService;
+
+const USER_ID = "user-1";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AS_OF = new Date("2026-06-01T12:00:00Z");
+
+function daysFromAsOf(days: number): Date {
+  return new Date(AS_OF.getTime() + days * DAY_MS);
+}
+
+function historyEntry(
+  daysAgo: number,
+  completed: boolean,
+  intensity = 5
+): UserMemoryProfile["workoutHistory"][number] {
+  return {
+    date: daysFromAsOf(-daysAgo).toISOString(),
+    type: "strength",
+    duration: 45,
+    intensity,
+    completed,
+  };
+}
+
+// An engine holding a default profile for USER_ID
+async function createEngine(): Promise<SmartMemoryEngine> {
+  const engine = new SmartMemoryEngine(
+    new MemoryPersistenceService(new InMemoryMemoryProvider(), noCache),
+    new NateScoringEngine(),
+    {} as PlanTemplateGenerator, // not used by memory learning
+    new VisualizationService(),
+    new PrivacyManager("test-key"),
+    noCache
+  );
+  await engine.updateMemoryProfile(USER_ID, {});
+  return engine;
+}
+
+async function learn(
+  engine: SmartMemoryEngine,
+  events: MemoryInteractionInput[]
+): Promise<UserMemoryProfile> {
+  for (const event of events) {
+    await engine.learnFromInteraction(USER_ID, event);
+  }
+  return (await engine.getMemoryProfile(USER_ID))!;
+}
+
+function workoutCompleted(
+  date: Date,
+  exercises: { name: string; rating?: number }[] = []
+): MemoryInteractionInput {
+  return {
+    type: "workout_completed",
+    data: {
+      workoutType: "strength",
+      date,
+      durationMinutes: 45,
+      intensity: 7,
+      exercises,
+    },
+  };
+}
+
+function adaptationApplied(
+  adaptationId: string,
+  adherenceAfter: number,
+  rating?: number
+): MemoryInteractionInput {
+  return {
+    type: "adaptation_applied",
+    data: {
+      adaptationId,
+      adaptationType: "deload",
+      reasoning: "High fatigue",
+      changes: [{ target: "volume", adjustment: -20 }],
+      adherenceBefore: 0.6,
+      adherenceAfter,
+    },
+    userResponse: rating === undefined ? undefined : { rating },
+    // A Tuesday morning
+    context: { timestamp: new Date(2026, 5, 2, 8) },
+  };
+}
+
+// An outcome-driven user who dislikes bluntness and drops off when travelling
+const COACHING_PROFILE: DeepPartial<UserMemoryProfile> = {
+  personalityProfile: { goalOrientation: "outcome" },
+  failurePatterns: { dropOffTriggers: ["work travel"] },
+  motivationalTriggers: {
+    intrinsicMotivators: [
+      {
+        trigger: "beating personal records",
+        effectivenessScore: 9,
+        durationEffective: 7,
+        frequencyOptimal: "weekly",
+        contextRequirements: ["progress"],
+      },
+    ],
+    demotivators: [
+      {
+        trigger: "public weigh-ins",
+        impactSeverity: 8,
+        recoveryTime: 5,
+        countermeasures: ["private check-ins"],
+        avoidanceStrategies: [],
+      },
+    ],
+  },
+  communicationStyle: { directness: 2, humorAppreciation: 2 },
+};
+
+describe("SmartMemoryEngine.learnFromInteraction", () => {
+  it("learns preferred days, times and consistency from workouts", async () => {
+    const engine = await createEngine();
+
+    // Monday mornings are kept; a Wednesday evening is skipped
+    const profile = await learn(engine, [
+      workoutCompleted(new Date(2026, 5, 1, 7)),
+      {
+        type: "workout_skipped",
+        data: {
+          workoutType: "cardio",
+          date: new Date(2026, 5, 3, 19),
+          durationMinutes: 30,
+          intensity: 5,
+          reason: "late meeting",
+        },
+      },
+      workoutCompleted(new Date(2026, 5, 8, 7)),
+      workoutCompleted(new Date(2026, 5, 15, 7)),
+    ]);
+
+    expect(profile.workoutHistory).toHaveLength(4);
+    expect(profile.behaviorPatterns.workoutTiming).toEqual({
+      preferredDays: ["monday"],
+      preferredTimes: ["morning"],
+      consistencyScore: 0.75,
+      seasonalPatterns: { summer: 0.75 },
+    });
+    expect(profile.failurePatterns.dropOffTriggers).toEqual(["late meeting"]);
+  });
+
+  it("records goal changes and replaces only the primary goal", async () => {
+    const engine = await createEngine();
+    await engine.updateMemoryProfile(USER_ID, {
+      fitnessGoals: ["strength", "mobility"],
+    });
+
+    const profile = await learn(engine, [
+      {
+        type: "goal_changed",
+        data: { newGoal: "endurance", reason: "Signed up for a 10k" },
+      },
+    ]);
+
+    expect(profile.fitnessGoals).toEqual(["endurance", "mobility"]);
+    expect(profile.contextualMemory.goalEvolution).toEqual([
+      expect.objectContaining({
+        previousGoal: "strength",
+        newGoal: "endurance",
+        reason: "Signed up for a 10k",
+        confidence: 0.7,
+      }),
+    ]);
+  });
+
+  it("moves exercises between loved, disliked and neutral as ratings change", async () => {
+    const engine = await createEngine();
+
+    const loved = await learn(engine, [
+      workoutCompleted(new Date(2026, 5, 1, 7), [
+        { name: "squat", rating: 9 },
+        { name: "burpee", rating: 3 },
+      ]),
+    ]);
+    expect(loved.preferences.exercisePreferences).toMatchObject({
+      loved: ["squat"],
+      disliked: ["burpee"],
+      neutral: [],
+    });
+
+    const rerated = await learn(engine, [
+      {
+        type: "feedback_given",
+        data: {
+          exerciseRatings: { squat: 6, burpee: 8 },
+          modifications: { burpee: "step back instead of jumping" },
+        },
+      },
+    ]);
+    expect(rerated.preferences.exercisePreferences).toEqual({
+      loved: ["burpee"],
+      disliked: [],
+      neutral: ["squat"],
+      modifications: { burpee: "step back instead of jumping" },
+    });
+  });
+
+  it("records applied adaptations and how the user responded", async () => {
+    const engine = await createEngine();
+
+    const profile = await learn(engine, [
+      adaptationApplied("a-1", 0.8),
+      adaptationApplied("a-2", 0.5, 2),
+    ]);
+    const history = profile.adaptationHistory;
+
+    expect(
+      history.adaptationsApplied.map((a) => [
+        a.id,
+        a.userReaction,
+        a.followUpNeeded,
+      ])
+    ).toEqual([
+      ["a-1", "positive", false],
+      ["a-2", "negative", true],
+    ]);
+    expect(history.adaptationsApplied[0].adherenceChange).toBeCloseTo(0.2);
+    expect(history.userResponses.deload).toEqual([
+      expect.objectContaining({ sentiment: "positive", adherence: 0.8 }),
+      expect.objectContaining({ sentiment: "negative", adherence: 0.5 }),
+    ]);
+    expect(history.successRates.deload).toBe(0.5);
+    expect(history.optimalTimings.deload).toEqual(["tuesday_morning"]);
+  });
+
+  it("rejects interactions for an unknown user", async () => {
+    const engine = await createEngine();
+
+    await expect(
+      engine.learnFromInteraction(
+        "someone-else",
+        workoutCompleted(new Date(2026, 5, 1, 7))
+      )
+    ).rejects.toThrow("Profile not found");
+  });
+});
+
+describe("parseMemoryInteraction", () => {
+  it("accepts JSON payloads with ISO date strings", () => {
+    const event = parseMemoryInteraction({
+      type: "life_event",
+      data: {
+        event: "vacation",
+        startDate: "2026-07-01T00:00:00Z",
+        endDate: "2026-07-14T00:00:00Z",
+        impact: "negative",
+      },
+      context: { timestamp: "2026-06-20T09:00:00Z" },
+    });
+
+    expect(event.type).toBe("life_event");
+    expect(event.type === "life_event" && event.data.endDate).toEqual(
+      new Date("2026-07-14T00:00:00Z")
+    );
+    expect(event.context!.timestamp).toEqual(new Date("2026-06-20T09:00:00Z"));
+  });
+
+  it("lists every invalid field in one message", () => {
+    expect(() =>
+      parseMemoryInteraction({
+        type: "workout_completed",
+        data: {
+          workoutType: "strength",
+          date: "2026-06-01T07:00:00Z",
+          durationMinutes: 0,
+          intensity: 7,
+          exercises: [{ name: "squat", rating: 11 }],
+        },
+      })
+    ).toThrow(
+      "Invalid workout_completed event: " +
+        "data.durationMinutes: Number must be greater than 0; " +
+        "data.exercises.0.rating: Number must be less than or equal to 10"
+    );
+  });
+
+  it("explains missing reasons and inverted date ranges", () => {
+    expect(() =>
+      parseMemoryInteraction({
+        type: "workout_skipped",
+        data: {
+          workoutType: "cardio",
+          date: "2026-06-03T19:00:00Z",
+          durationMinutes: 30,
+          intensity: 5,
+          reason: "",
+        },
+      })
+    ).toThrow("data.reason: A reason is required for skipped workouts");
+    expect(() =>
+      parseMemoryInteraction({
+        type: "life_event",
+        data: {
+          event: "vacation",
+          startDate: "2026-07-14",
+          endDate: "2026-07-01",
+          impact: "neutral",
+        },
+      })
+    ).toThrow("data.endDate: endDate must not be before startDate");
+  });
+
+  it("rejects unknown event types", () => {
+    expect(() =>
+      parseMemoryInteraction({ type: "dance_party", data: {} })
+    ).toThrow(/^Invalid dance_party event: type: Invalid discriminator value/);
+    expect(() => parseMemoryInteraction(null)).toThrow(
+      /^Invalid interaction event: /
+    );
+  });
+
+  it("leaves the profile untouched when learning from an invalid event", async () => {
+    const engine = await createEngine();
+    const before = await engine.getMemoryProfile(USER_ID);
+
+    await expect(
+      engine.learnFromInteraction(USER_ID, {
+        type: "goal_changed",
+        data: { newGoal: "", reason: "bored" },
+      })
+    ).rejects.toThrow("Invalid goal_changed event: data.newGoal:");
+    expect(await engine.getMemoryProfile(USER_ID)).toBe(before);
+  });
+});
+
+describe("SmartMemoryEngine.generateContextualInsights", () => {
+  it("classifies the topics, keywords and sentiment of a message", async () => {
+    const engine = await createEngine();
+
+    const { context } = await engine.generateContextualInsights(
+      USER_ID,
+      "My knee hurts after squats and I'm stuck"
+    );
+
+    expect(context).toEqual({
+      topics: ["injury", "workout", "plateau"],
+      primaryTopic: "injury",
+      keywords: ["knee", "hurts", "after", "squats", "i'm", "stuck"],
+      sentiment: "negative",
+    });
+  });
+
+  it("matches the message against the user's personality", async () => {
+    const engine = await createEngine();
+    const message = "Any cues for my squat technique?";
+
+    await engine.updateMemoryProfile(USER_ID, {
+      personalityProfile: { goalOrientation: "outcome" },
+    });
+    const outcome = await engine.generateContextualInsights(USER_ID, message);
+    await engine.updateMemoryProfile(USER_ID, {
+      personalityProfile: { goalOrientation: "process" },
+    });
+    const process = await engine.generateContextualInsights(USER_ID, message);
+
+    expect(outcome.personalityMatch).toBe(0.55);
+    expect(process.personalityMatch).toBe(0.75);
+  });
+
+  it("flags drop-off risks and softens the tone when a trigger comes up", async () => {
+    const engine = await createEngine();
+    await engine.updateMemoryProfile(USER_ID, COACHING_PROFILE);
+
+    const insights = await engine.generateContextualInsights(
+      USER_ID,
+      "I'm frustrated, work travel next week will wreck my workout schedule"
+    );
+
+    expect(insights.riskFactors).toEqual([
+      expect.objectContaining({
+        risk: "dropout",
+        probability: 0.45,
+        severity: "medium",
+      }),
+    ]);
+    expect(insights.behaviorPredictions[0]).toMatchObject({
+      behavior: "skip_next_workout",
+      probability: 0.85,
+    });
+    expect(insights.behaviorPredictions[0].factors).toContain(
+      "known drop-off triggers: work travel"
+    );
+    expect(insights.communicationAdjustments.tone).toBe("empathetic");
+    expect(insights.communicationAdjustments.avoid).toEqual(
+      expect.arrayContaining(["public weigh-ins", "humor", "pressure"])
+    );
+    expect(insights.opportunities).toEqual([]);
+  });
+
+  it("leans on the user's motivators when they report progress", async () => {
+    const engine = await createEngine();
+    await engine.updateMemoryProfile(USER_ID, COACHING_PROFILE);
+
+    const insights = await engine.generateContextualInsights(
+      USER_ID,
+      "I hit a new squat record, so proud of my progress"
+    );
+
+    expect(
+      insights.opportunities.map((o) => [o.opportunity, o.potential])
+    ).toEqual([
+      ["leverage beating personal records", 0.9],
+      ["celebrate recent effort", 0.8],
+    ]);
+    expect(insights.motivationalStrategy).toMatchObject({
+      strategy: "beating personal records",
+      confidence: 0.81,
+    });
+    expect(insights.riskFactors).toEqual([]);
+    expect(insights.communicationAdjustments.emphasis).toEqual(
+      expect.arrayContaining(["progress", "milestones", "results"])
+    );
+  });
+});
+
+describe("SmartMemoryEngine.predictUserNeeds", () => {
+  it("predicts a deload after four hard weeks", async () => {
+    const engine = await createEngine();
+    await engine.updateMemoryProfile(USER_ID, {
+      workoutHistory: [26, 24, 22, 19, 17, 15, 12, 10, 8, 5, 3, 1].map(
+        (daysAgo) => historyEntry(daysAgo, true, 8)
+      ),
+    });
+
+    const immediate = await engine.predictUserNeeds(
+      USER_ID,
+      "immediate",
+      AS_OF
+    );
+    const shortTerm = await engine.predictUserNeeds(
+      USER_ID,
+      "short_term",
+      AS_OF
+    );
+
+    expect(immediate.predictions).toEqual([
+      expect.objectContaining({
+        need: "deload week",
+        category: "deload",
+        horizon: "immediate",
+        expectedBy: AS_OF,
+        confidence: 0.6,
+        evidence: [
+          "4 consecutive training weeks at average intensity 8.0/10",
+          "no deload on record",
+        ],
+      }),
+    ]);
+    expect(immediate.needs).toEqual(["deload week"]);
+    expect(immediate.confidence).toBe(0.6);
+    expect(immediate.reasoning).toEqual([
+      "deload week by 2026-06-01 (60% confidence): " +
+        "4 consecutive training weeks at average intensity 8.0/10; " +
+        "no deload on record",
+    ]);
+    expect(shortTerm.needs).toEqual([]);
+    expect(shortTerm.confidence).toBe(0);
+  });
+
+  it("expects the next motivation dip one cycle after the last", async () => {
+    const engine = await createEngine();
+    await engine.updateMemoryProfile(USER_ID, {
+      // A skipped workout after a completed one every 21 days
+      workoutHistory: [59, 38, 17].flatMap((daysAgo) => [
+        historyEntry(daysAgo + 2, true),
+        historyEntry(daysAgo, false),
+      ]),
+      behaviorPatterns: {
+        motivationCycles: {
+          averageCycleDuration: 21,
+          recoveryStrategies: ["group class"],
+        },
+      },
+    });
+
+    const needs = await engine.predictUserNeeds(USER_ID, "short_term", AS_OF);
+
+    expect(needs.predictions).toEqual([
+      {
+        need: "motivation boost",
+        category: "motivation",
+        horizon: "short_term",
+        expectedBy: daysFromAsOf(4),
+        confidence: 0.8,
+        evidence: [
+          "motivation typically cycles every 21 days",
+          "last dip began 2026-05-15",
+          "3 dips found in workout history",
+          "past dips were 21, 21 days apart",
+        ],
+        suggestedActions: ["group class"],
+      },
+    ]);
+  });
+
+  it("plans around an upcoming life event using earlier ones", async () => {
+    const engine = await createEngine();
+    await engine.updateMemoryProfile(USER_ID, {
+      contextualMemory: {
+        lifeEventImpacts: [
+          {
+            event: "vacation",
+            startDate: daysFromAsOf(-120),
+            endDate: daysFromAsOf(-110),
+            impact: "negative",
+            adaptationsUsed: ["hotel workouts"],
+            effectOnAdherence: -0.3,
+          },
+          {
+            event: "vacation",
+            startDate: daysFromAsOf(10),
+            endDate: daysFromAsOf(17),
+            impact: "negative",
+            adaptationsUsed: [],
+            effectOnAdherence: 0,
+          },
+        ],
+      },
+      failurePatterns: {
+        relapseCycles: [
+          {
+            pattern: "post-vacation slump",
+            frequency: 2,
+            durationDays: 10,
+            recoveryFactors: [],
+            preventionStrategies: ["book a session for the first day back"],
+          },
+        ],
+      },
+    });
+
+    const shortTerm = await engine.predictUserNeeds(
+      USER_ID,
+      "short_term",
+      AS_OF
+    );
+    const mediumTerm = await engine.predictUserNeeds(
+      USER_ID,
+      "medium_term",
+      AS_OF
+    );
+
+    expect(shortTerm.predictions).toEqual([
+      expect.objectContaining({
+        need: "plan adjustments for vacation",
+        expectedBy: daysFromAsOf(10),
+        confidence: 0.6,
+        evidence: [
+          "vacation starts 2026-06-11",
+          "1 earlier vacation events changed adherence by -30% on average",
+        ],
+        suggestedActions: ["hotel workouts"],
+      }),
+    ]);
+    expect(
+      mediumTerm.predictions!.map((p) => [p.need, p.confidence, p.expectedBy])
+    ).toEqual([
+      ["relapse prevention: post-vacation slump", 0.6, daysFromAsOf(17)],
+      ["ramp back up after vacation", 0.6, daysFromAsOf(17)],
+    ]);
+    expect(mediumTerm.predictions![0].evidence).toEqual([
+      '"post-vacation slump" has happened 2 times, lasting about 10 days',
+      "upcoming vacation ends 2026-06-18",
+    ]);
+  });
+});
+
+describe("SmartMemoryEngine.consolidateMemory", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("consolidates once learning pushes the profile past a cap", async () => {
+    jest.useFakeTimers({ now: AS_OF });
+    const engine = await createEngine();
+    engine.configureConsolidation({ maxWorkoutHistory: 3 });
+
+    const profile = await learn(
+      engine,
+      [5, 4, 3, 2].map((days) => workoutCompleted(daysFromAsOf(-days)))
+    );
+
+    expect(profile.workoutHistory).toHaveLength(3);
+    expect(profile.workoutArchive!.totalWorkouts).toBe(1);
+  });
+
+  it("saves the consolidated profile", async () => {
+    const engine = await createEngine();
+    await engine.updateMemoryProfile(USER_ID, {
+      workoutHistory: [400, 399, 398].map((days) => historyEntry(days, true)),
+    });
+
+    const result = await engine.consolidateMemory(USER_ID, AS_OF);
+    const profile = await engine.getMemoryProfile(USER_ID);
+
+    expect(result).toMatchObject({ userId: USER_ID, workoutsConsolidated: 3 });
+    expect(profile!.workoutHistory).toEqual([]);
+    expect(profile!.workoutArchive!.completedWorkouts).toBe(3);
+  });
+});
+
+describe("SmartMemoryEngine.retrieveRelevantMemories", () => {
+  it("grounds insights in the memories that match the message", async () => {
+    const engine = await createEngine();
+    await engine.updateMemoryProfile(USER_ID, {
+      contextualMemory: {
+        recentContexts: [
+          {
+            timestamp: daysFromAsOf(-10),
+            topic: "injury",
+            userMood: 4,
+            concerns: ["knee pain during squats"],
+            decisions: ["swap back squats for box squats"],
+            outcomes: [],
+            satisfaction: 7,
+          },
+        ],
+      },
+      failurePatterns: {
+        relapseCycles: [
+          {
+            pattern: "knee flare-up",
+            frequency: 2,
+            durationDays: 14,
+            recoveryFactors: [],
+            preventionStrategies: ["mobility work"],
+          },
+        ],
+      },
+      behaviorPatterns: {
+        plateauHistory: {
+          successfulBreakthroughs: [
+            {
+              strategy: "tempo squats",
+              successRate: 0.8,
+              timeToBreakthrough: 21,
+              applicablePlateaus: ["squat"],
+              userSatisfaction: 8,
+            },
+          ],
+        },
+      },
+    });
+
+    const memories = await engine.retrieveRelevantMemories(
+      USER_ID,
+      "my knee hurts on squats again",
+      2
+    );
+    const { historicalContext } = await engine.generateContextualInsights(
+      USER_ID,
+      "my knee hurts on squats again"
+    );
+
+    expect(memories).toHaveLength(2);
+    expect(memories[0].kind).toBe("concern");
+    expect(historicalContext.events).toEqual([
+      "Concern while discussing injury: knee pain during squats",
+      "Decided while discussing injury: swap back squats for box squats",
+    ]);
+    expect(historicalContext.patterns).toEqual([
+      "Relapse pattern knee flare-up lasting about 14 days; prevented by mobility work",
+    ]);
+    expect(historicalContext.successes).toEqual([
+      "Broke through a squat plateau with tempo squats in 21 days",
+    ]);
+    expect(historicalContext.memories).toHaveLength(4);
+  });
+});
@@ -7,6 +7,25 @@
  */
 
 import { z } from "zod";
+import { IAdaptationStateProvider } from "./services/AdaptationStatePersistence";
+import {
+  AdaptationGuardrails,
+  GuardrailAuditEntry,
+  GuardrailConfig,
+  GuardrailSubject,
+  WeeklyPlanChanges,
+  parseRestDayAdjustment,
+} from "./services/AdaptationGuardrails";
+import {
+  AdaptationScheduler,
+  EffectivePlan,
+  ScheduleOptions,
+  ScheduledAdaptation,
+} from "./services/AdaptationScheduler";
+import {
+  RecommendationConflict,
+  RecommendationConflictResolver,
+} from "./services/RecommendationConflictResolver";
 
 // Types for the adaptation engine
 export interface UserMetrics {
@@ -28,6 +47,7 @@ export interface WorkoutPlan {
   duration: number; // minutes per session
   exercises: Exercise[];
   progressionRate: number; // weekly increase %
+  setAsideExercises?: Exercise[]; // dropped by a simplification, restored by "reintroduce_accessories"
 }
 
 export interface Exercise {
@@ -38,6 +58,7 @@ export interface Exercise {
   weight?: number;
   duration?: number; // for cardio/time-based
   intensity: number; // 1-10 scale
+  alternatives?: string[]; // names to rotate in for variety/stagnation
 }
 
 export interface WorkoutSession {
@@ -113,14 +134,56 @@ export interface AdaptationRecommendation {
   changes: PlanChange[];
   duration: number; // days to apply
   explanation: string;
+  ruleId?: string; // rule that produced this recommendation
+  adaptationId?: string; // history id, used to report outcomes
+  schedule?: AdaptationSchedule; // multi-week plan for emergent strategies
 }
 
 export interface PlanChange {
   target: "intensity" | "volume" | "frequency" | "exercise" | "rest";
   adjustment: number | string; // percentage change or specific action
   exerciseIds?: string[];
+  exerciseField?: "sets" | "reps" | "weight" | "intensity"; // per-exercise % adjustment
+  replacementExercises?: Exercise[]; // swap-ins, matched by index to exerciseIds
 }
 
+/**
+ * Structured record of a single change applied to a plan, for user-facing diffs
+ */
+export interface PlanChangeLogEntry {
+  recommendationType: AdaptationRecommendation["type"];
+  target: PlanChange["target"];
+  field: string; // e.g. "intensity", "exercises.squat.sets"
+  exerciseId?: string;
+  previousValue: number | string | null;
+  newValue: number | string | null;
+  description: string;
+  appliedAt: Date;
+}
+
+export interface PlanApplicationResult {
+  plan: WorkoutPlan;
+  changeLog: PlanChangeLogEntry[];
+  skippedChanges: { change: PlanChange; reason: string }[];
+  conflicts: RecommendationConflict[]; // opposing changes that were not applied
+  guardrailAudit: GuardrailAuditEntry[]; // clamps applied before the changes
+  lineage?: PlanLineage; // child lineage node, whose planId the adapted plan carries
+}
+
+export interface PlanApplicationOptions {
+  userId?: string; // owner of the plan lineage when no adaptation names one
+  trackLineage?: boolean; // defaults to true
+}
+
+type PlanChangeLogger = (
+  change: PlanChange,
+  field: string,
+  previousValue: number | string | null,
+  newValue: number | string | null,
+  description: string,
+  exerciseId?: string
+) => void;
+
 // 🚀 NEW: Advanced Adaptation Features
 
 /**
@@ -171,6 +234,9 @@ export interface AdaptationHistory {
   durationEffective: number; // days before another adaptation was needed
   userSatisfaction: number; // 1-10 if they rated it
   longTermImpact: number; // impact after 30 days (-1 to 1)
+  ruleSetVersion?: string; // rule set version that produced this adaptation
+  outcomeRecordedAt?: Date; // unset while the outcome is still pending
+  appliedPlanId?: string; // plan produced when this adaptation was applied
 }
 
 export interface AdaptationOutcome {
@@ -193,6 +259,20 @@ export interface PlanLineage {
   failedStrategies: string[]; // what to avoid
   optimalConditions: string[]; // when this plan type works best
   avgLifespan: number; // days before needing adaptation
+  userId?: string;
+  createdAt?: Date;
+  supersededAt?: Date; // when the first child plan replaced this one
+  adaptationIds?: string[]; // adaptations that produced this plan
+}
+
+export interface PlanBranchStatistics {
+  rootPlanId: string;
+  planIds: string[];
+  maxGeneration: number;
+  successRate: number; // share of recorded outcomes that were effective
+  avgLifespan: number; // days, over plans that have been superseded
+  dominantStrategies: string[];
+  failedStrategies: string[];
 }
 
 /**
@@ -214,6 +294,43 @@ export interface RuleInteraction {
   customLogic?: string; // special handling for this combination
 }
 
+/**
+ * Multi-phase schedules produced by emergent strategies
+ */
+export interface AdaptationSchedule {
+  strategy: string;
+  sourceRules: string[]; // rules whose recommendations were folded in
+  totalWeeks: number;
+  phases: AdaptationPhase[];
+}
+
+export interface AdaptationPhase {
+  name: string;
+  startWeek: number; // 1-based
+  durationWeeks: number;
+  goal: string;
+  changes: PlanChange[]; // applied at the start of the phase, relative to the previous phase
+  milestones: AdaptationMilestone[];
+  checkIns: ScheduledCheckIn[];
+  exitCriteria: string[]; // conditions for moving on to the next phase
+}
+
+export interface AdaptationMilestone {
+  week: number;
+  metric: string; // UserMetrics path, e.g. "lifestyle.sleepHours"
+  comparison: "gte" | "lte";
+  target: number;
+  description: string;
+}
+
+export interface ScheduledCheckIn {
+  week: number;
+  day: number; // 1-7 within the week
+  focus: string;
+  questions: string[];
+  escalateIf?: string; // answer pattern that should trigger a re-analysis
+}
+
 /**
  * 5️⃣ Data-Driven Fine-Tuning
  */
@@ -256,12 +373,79 @@ export interface RuleSetVersion {
   description: string;
   changeSummary: string[]; // what changed from previous version
   userSegmentTargets?: string[]; // which user types this version targets
+  ruleDocuments?: AdaptationRuleDocument[]; // declarative rules shipped as data
   performanceMetrics: {
     avgUserSatisfaction: number;
     avgEffectiveness: number;
     avgAdaptationSpeed: number;
     retentionImpact: number;
   };
+  performanceIntervals?: Partial<
+    Record<RuleSetOutcomeMetric, RuleSetMetricSummary>
+  >; // 95% confidence intervals behind performanceMetrics
+}
+
+/**
+ * 🚀 Rule set experiments - deterministic hash bucketing with holdouts and ramps
+ */
+export interface RuleSetExperiment {
+  experimentId: string;
+  salt: string; // changing the salt reshuffles every assignment
+  arms: RuleSetExperimentArm[];
+  controlVersionId: string; // served to holdout and non-enrolled users
+  holdoutPercentage: number; // 0-100, never enrolled, kept as a clean baseline
+  rampPercentage: number; // 0-100 of non-holdout users enrolled in an arm
+  startedAt: Date;
+  endedAt?: Date;
+}
+
+export interface RuleSetExperimentArm {
+  versionId: string;
+  testGroup: string; // e.g. "treatment_a"
+  weight: number; // relative share of enrolled traffic
+}
+
+export interface ExperimentAssignment {
+  userId: string;
+  experimentId?: string;
+  versionId: string;
+  group: "holdout" | "control" | "treatment";
+  testGroup?: string;
+}
+
+export type RuleSetOutcomeMetric =
+  | "userSatisfaction"
+  | "effectiveness"
+  | "adaptationSpeed"
+  | "retention";
+
+export interface RuleSetOutcomeSample {
+  effectiveness: number; // -1 to 1
+  userSatisfaction?: number; // 1-10
+  adaptationSpeed?: number; // days until the adaptation took effect
+  retained?: boolean;
+}
+
+export interface RuleSetMetricSummary {
+  sampleSize: number;
+  mean: number;
+  stdDev: number;
+  confidenceInterval: [number, number]; // 95%
+}
+
+export interface ExperimentResults {
+  experimentId: string;
+  controlVersionId: string;
+  arms: {
+    versionId: string;
+    testGroup: string;
+    metrics: Partial<Record<RuleSetOutcomeMetric, RuleSetMetricSummary>>;
+    effectivenessLift?: {
+      difference: number; // arm mean - control mean
+      confidenceInterval: [number, number];
+      significant: boolean; // interval excludes zero
+    };
+  }[];
 }
 
 /**
@@ -294,6 +478,134 @@ export interface AlternativeOption {
   couldBeUsedIf: string;
 }
 
+export interface ExplainedAnalysis {
+  recommendations: AdaptationRecommendation[];
+  explanation: AdaptationExplanation;
+  preemptivePlan: PreemptiveAdaptationPlan;
+  simulationResults?: SimulationResult;
+  guardrailAudit: GuardrailAuditEntry[]; // clamps applied to this analysis
+  conflicts: RecommendationConflict[]; // opposing recommendations resolved
+}
+
+/**
+ * Counterfactual "what-if" analysis
+ */
+export interface UserMetricsOverrides {
+  currentPlan?: Partial<WorkoutPlan>;
+  recentWorkouts?: WorkoutSession[];
+  progressData?: Partial<ProgressData>;
+  biometrics?: Partial<BiometricData>;
+  lifestyle?: Partial<LifestyleData>;
+  mood?: Partial<MoodData>;
+}
+
+export interface RecommendationDiff {
+  added: AdaptationRecommendation[];
+  removed: AdaptationRecommendation[];
+  changed: {
+    before: AdaptationRecommendation;
+    after: AdaptationRecommendation;
+    differences: string[];
+  }[];
+}
+
+export interface ExplanationFactorChange {
+  metric: string;
+  before?: ExplanationFactor; // absent when the factor only appears in the scenario
+  after?: ExplanationFactor; // absent when the factor disappears in the scenario
+}
+
+export interface WhatIfResult {
+  baseline: ExplainedAnalysis;
+  scenario: ExplainedAnalysis;
+  recommendationDiff: RecommendationDiff;
+  changedFactors: ExplanationFactorChange[];
+}
+
+/**
+ * Cohort analysis - many users in one run
+ */
+export interface BatchAnalysisOptions {
+  concurrency?: number; // users analyzed at once (default 4)
+  skipSimulation?: boolean;
+  dryRun?: boolean; // leave history, training data and signatures untouched
+}
+
+export interface BatchAnalysisItem {
+  index: number; // position in the input array
+  userId: string;
+  analysis?: ExplainedAnalysis;
+  error?: string;
+}
+
+export type BatchSegmentDimension =
+  | "ruleSetVersion"
+  | "planType"
+  | "compliancePattern"
+  | "context"; // describeContext tags, a user can be in several
+
+export interface BatchSegmentStats {
+  users: number;
+  usersWithRecommendations: number;
+  triggeredRuleCounts: Record<string, number>;
+  priorityCounts: Record<AdaptationRecommendation["priority"], number>;
+}
+
+export interface BatchAnalysisSummary {
+  totalUsers: number;
+  analyzedUsers: number;
+  failedUsers: number;
+  usersWithRecommendations: number;
+  triggeredRuleCounts: Record<string, number>; // rule or strategy -> users
+  priorityCounts: Record<AdaptationRecommendation["priority"], number>;
+  segments: Record<BatchSegmentDimension, Record<string, BatchSegmentStats>>;
+  simulationsRun: number; // every user simulated, cache hits excluded
+  seedsReused: number; // of those, runs that replayed a similar user's random event draws
+  durationMs: number;
+}
+
+/**
+ * Results stream in completion order; summary() resolves once every user
+ * is analyzed (or iteration stops early) and drains the batch if nobody
+ * iterates it.
+ */
+export interface BatchAnalysisRun extends AsyncIterable<BatchAnalysisItem> {
+  summary(): Promise<BatchAnalysisSummary>;
+}
+
+/**
+ * Retroactive replay - historical snapshots through a chosen rule set version
+ */
+export interface ReplaySnapshot {
+  timestamp: Date;
+  metrics: UserMetrics;
+  actualRecommendations?: AdaptationRecommendation[]; // defaults to recorded history at this timestamp
+}
+
+export interface ReplayStep {
+  timestamp: Date;
+  userId: string;
+  actualRecommendations: AdaptationRecommendation[];
+  actualSource: "provided" | "history" | "none";
+  replayedRecommendations: AdaptationRecommendation[];
+  diff: RecommendationDiff; // actual -> replayed
+}
+
+export interface ReplayReport {
+  ruleSetVersion: string;
+  steps: ReplayStep[];
+  summary: {
+    snapshots: number;
+    unchangedSnapshots: number;
+    added: number;
+    removed: number;
+    changed: number;
+    ruleTriggerDelta: Record<string, number>; // replayed minus actual, per rule
+    removedOutcomeEffectiveness?: number; // mean recorded effectiveness of dropped recommendations
+    retainedOutcomeEffectiveness?: number; // same, for recommendations the version keeps
+  };
+}
+
 /**
  * 🚀 Pre-emptive Adaptation Planning - Predict future needs
  */
@@ -320,6 +632,7 @@ export interface PredictedAdaptation {
 }
 
 export interface EarlyWarningSignal {
+  id?: string; // stable key, matched by ContingencyPlan.warningSignalId
   signal: string;
   currentValue: number;
   warningThreshold: number;
@@ -335,6 +648,10 @@ export interface ContingencyPlan {
   immediateAction: AdaptationRecommendation;
   followUpActions: AdaptationRecommendation[];
   successProbability: number;
+  warningSignalId?: string; // activates when this signal crosses its warning threshold
+  planPatch: PlanChange[]; // applied as immediateAction when activated
+  status: "armed" | "activated";
+  activatedAt?: Date;
 }
 
 export interface TrajectoryPoint {
@@ -342,6 +659,8 @@ export interface TrajectoryPoint {
   predictedMetrics: Partial<NateProprietaryMetrics>;
   confidenceInterval: number; // how accurate we expect this to be
   keyMilestones: string[];
+  lowerBound?: Partial<NateProprietaryMetrics>; // pessimistic end of the band
+  upperBound?: Partial<NateProprietaryMetrics>; // optimistic end of the band
 }
 
 export interface RiskAssessment {
@@ -366,6 +685,7 @@ export interface SimulationResult {
   confidence: number; // how reliable this simulation is
   runTime: number; // ms taken to compute
   iterations: number; // number of simulation runs
+  seed?: number; // PRNG seed, replays the exact same outcomes
 }
 
 export interface SimulationScenario {
@@ -439,6 +759,7 @@ export interface MLPrediction {
 
 export interface MLTrainingData {
   userId: string;
+  adaptationId?: string; // links the sample to its AdaptationHistory entry
   inputFeatures: Record<string, number>;
   targetOutcome: AdaptationOutcome;
   contextMetadata: {
@@ -449,11 +770,53 @@ export interface MLTrainingData {
   validationWeight: number; // how much to weight this sample
 }
 
+export interface MLTrainingOptions {
+  validationSplit?: number; // share of labelled samples held out (default 0.2)
+  minSamples?: number; // refuse to train on fewer labelled outcomes
+  seed?: number; // shuffle seed, for reproducible splits
+  hyperparameters?: Partial<GradientBoostingHyperparameters>;
+}
+
+export interface GradientBoostingHyperparameters {
+  learning_rate: number;
+  n_estimators: number;
+  max_depth: number;
+  min_samples_leaf: number;
+}
+
+export interface MLValidationReport {
+  modelVersion: string;
+  sampleCount: number;
+  accuracy: number; // share of samples where predicted success matches actual
+  rmse: number; // error on the effectiveness scale (-1 to 1)
+}
+
+export interface RegressionTreeNode {
+  value: number; // weighted mean residual of samples reaching this node
+  feature?: number; // index into featureNames, absent on leaves
+  threshold?: number; // samples with feature <= threshold go left
+  gain?: number; // loss reduction achieved by the split
+  left?: RegressionTreeNode;
+  right?: RegressionTreeNode;
+}
+
+export interface SerializedMLModel {
+  config: MLModelConfig;
+  featureNames: string[];
+  baseScore: number;
+  learningRate: number;
+  trees: RegressionTreeNode[];
+}
+
 export class AdaptationEngine {
-  private rules: AdaptationRule[] = [];
+  private rules: Map<string, AdaptationRule> = new Map();
+  private disabledRuleIds: Set<string> = new Set();
   private userSignatures: Map<string, UserSignature> = new Map();
   private adaptationHistory: Map<string, AdaptationHistory[]> = new Map();
+  private adaptationsById: Map<string, AdaptationHistory> = new Map();
   private planLineages: Map<string, PlanLineage> = new Map();
+  private userPlanIds: Map<string, string[]> = new Map(); // userId -> plan ids in their trees
+  private childPlanIds: Map<string, string[]> = new Map(); // parent plan id -> child plan ids
   private ruleInteractions: RuleInteraction[] = [];
   private analytics: AdaptationAnalytics = {
     ruleEffectivenessRates: {},
@@ -467,146 +830,771 @@ export class AdaptationEngine {
     dataPoints: 0,
   };
   private ruleWeights: Map<string, RuleWeights> = new Map();
+  private analyticsSampleCounts: Map<string, number> = new Map();
 
   // 🚀 NEW: Final Advanced Features
   private ruleSetVersions: Map<string, RuleSetVersion> = new Map();
+  private versionRules: Map<string, Map<string, AdaptationRule>> = new Map(); // versionId -> ruleId -> declarative rule deployed with it
   private currentRuleSetVersion: string = "v1.0.0";
   private userTestGroups: Map<string, string> = new Map(); // userId -> testGroup
+  private experiments: Map<string, RuleSetExperiment> = new Map();
+  private activeExperimentId?: string;
+  private ruleSetOutcomeStats: Map<
+    string,
+    Partial<Record<RuleSetOutcomeMetric, RunningStat>>
+  > = new Map(); // versionId -> metric -> running stats
+  private guardrails = new AdaptationGuardrails();
+  private conflictResolver = new RecommendationConflictResolver();
+  private scheduler = new AdaptationScheduler(
+    (plan, recommendations) => this.applyPlanChanges(plan, recommendations),
+    (plan, recommendation, scheduled, startsAt) =>
+      this.guardPlanChanges(plan, [recommendation], scheduled.userId, startsAt)
+        .recommendations[0]?.changes || [],
+    (planId) => this.persistPlanSchedule(planId)
+  );
+  private guardrailAudit: Map<string, GuardrailAuditEntry[]> = new Map();
   private mlModel?: MLModelConfig;
+  private mlRegressor?: GradientBoostedTrees;
+  private mlCandidate?: {
+    config: MLModelConfig;
+    model: GradientBoostedTrees;
+    validationSet: LabelledMLSample[];
+  };
   private mlTrainingData: MLTrainingData[] = [];
   private simulationCache: Map<string, SimulationResult> = new Map();
+  private ruleCompiler = new AdaptationRuleCompiler();
+  private stateProvider?: IAdaptationStateProvider;
+  private pendingWrites: Set<Promise<void>> = new Set();
 
-  constructor() {
+  constructor(stateProvider?: IAdaptationStateProvider) {
+    this.stateProvider = stateProvider;
     this.initializeRules();
     this.initializeRuleInteractions();
     this.initializeAnalytics();
-    this.loadRuleWeights();
     this.initializeRuleSetVersioning();
+    this.loadRuleWeights();
     this.initializeMLModel();
   }
 
   /**
-   * 🚀 ENHANCED: Main adaptation method with full explainability
+   * Load persisted learning state. Call once after construction (e.g. on a
+   * serverless cold start) before analyzing users.
    */
-  async analyzeWithExplanation(userMetrics: UserMetrics): Promise<{
-    recommendations: AdaptationRecommendation[];
-    explanation: AdaptationExplanation;
-    preemptivePlan: PreemptiveAdaptationPlan;
-    simulationResults?: SimulationResult;
-  }> {
-    // Get or create user signature
-    const userSignature = this.getUserSignature(userMetrics.userId);
+  async hydrate(): Promise<void> {
+    if (!this.stateProvider) return;
 
-    // Calculate Nate's proprietary metrics
-    const proprietaryMetrics = this.calculateProprietaryMetrics(
-      userMetrics,
-      userSignature
+    const state = await this.stateProvider.loadState();
+    if (!state) return;
+
+    state.userSignatures.forEach((signature) =>
+      this.userSignatures.set(signature.userId, signature)
     );
+    Object.entries(state.adaptationHistory).forEach(([userId, history]) => {
+      this.adaptationHistory.set(userId, history);
+      history.forEach((h) => this.adaptationsById.set(h.id, h));
+    });
+    state.planLineages.forEach((lineage) => this.setPlanLineage(lineage));
+    state.ruleWeights.forEach((weights) =>
+      this.ruleWeights.set(weights.ruleName, weights)
+    );
+    (state.ruleSetVersions || []).forEach((version) =>
+      this.restoreRuleSetVersion(version)
+    );
+    (state.experiments || []).forEach((experiment) => {
+      this.experiments.set(experiment.experimentId, experiment);
+      if (!experiment.endedAt) {
+        this.activeExperimentId = experiment.experimentId;
+      }
+    });
+    Object.entries(state.userTestGroups).forEach(([userId, versionId]) => {
+      if (this.ruleSetVersions.has(versionId)) {
+        this.userTestGroups.set(userId, versionId);
+      }
+    });
+    if (state.analytics) {
+      this.analytics = state.analytics;
+      this.analyticsSampleCounts = new Map(
+        Object.entries(state.analyticsSampleCounts || {})
+      );
+    }
+    this.mlTrainingData = state.mlTrainingData;
+    if (state.mlModel) {
+      this.mlModel = {
+        ...state.mlModel.config,
+        lastTrainedAt: new Date(state.mlModel.config.lastTrainedAt),
+      };
+      this.mlRegressor = GradientBoostedTrees.deserialize(state.mlModel);
+    }
+    this.scheduler.load(state.planSchedules || []);
+  }
 
-    // Get current rule set version for this user
-    const ruleSetVersion = this.getRuleSetVersionForUser(userMetrics.userId);
+  /**
+   * Wait for all write-through persistence to finish
+   */
+  async flush(): Promise<void> {
+    await Promise.all(Array.from(this.pendingWrites));
+  }
 
-    // Phase 1: Base analysis (existing logic)
-    const recommendations = this.analyze(userMetrics);
+  private persist(
+    write: (provider: IAdaptationStateProvider) => Promise<void>
+  ): void {
+    if (!this.stateProvider) return;
 
-    // Phase 2: 🚀 Generate detailed explanation
-    const explanation = await this.generateExplanation(
-      recommendations,
-      userMetrics,
-      userSignature,
-      proprietaryMetrics
-    );
+    const pending = write(this.stateProvider)
+      .catch((error) => {
+        console.error("Failed to persist adaptation state:", error);
+      })
+      .finally(() => this.pendingWrites.delete(pending));
+    this.pendingWrites.add(pending);
+  }
 
-    // Phase 3: 🚀 Create pre-emptive plan
-    const preemptivePlan = await this.generatePreemptivePlan(
-      userMetrics,
-      userSignature,
-      proprietaryMetrics
+  // Recompile a persisted version's declarative rules as deployRuleSetVersion did
+  private restoreRuleSetVersion(version: RuleSetVersion): void {
+    const compiledRules = this.compileRuleDocuments(version);
+    for (const rule of compiledRules.values()) {
+      if (!this.rules.has(rule.id)) {
+        this.rules.set(rule.id, rule);
+      }
+    }
+    this.versionRules.set(version.versionId, compiledRules);
+    this.ruleSetVersions.set(version.versionId, version);
+
+    // Outcome aggregates are persisted as the version's intervals
+    const stats: Partial<Record<RuleSetOutcomeMetric, RunningStat>> = {};
+    for (const [metric, summary] of Object.entries(
+      version.performanceIntervals || {}
+    ) as [RuleSetOutcomeMetric, RuleSetMetricSummary][]) {
+      stats[metric] = {
+        count: summary.sampleSize,
+        mean: summary.mean,
+        m2: summary.stdDev ** 2 * Math.max(0, summary.sampleSize - 1),
+      };
+    }
+    if (Object.keys(stats).length > 0) {
+      this.ruleSetOutcomeStats.set(version.versionId, stats);
+    }
+  }
+
+  // A version's declarative rules by id; duplicate ids are rejected
+  private compileRuleDocuments(
+    version: RuleSetVersion
+  ): Map<string, AdaptationRule> {
+    return new Map(
+      this.ruleCompiler
+        .compileAll(version.ruleDocuments || [])
+        .map((rule) => [rule.id, rule])
     );
+  }
 
-    // Phase 4: 🚀 Run simulation if recommendations are significant
-    let simulationResults: SimulationResult | undefined;
-    if (
-      recommendations.some(
-        (r) => r.priority === "critical" || r.priority === "high"
-      )
-    ) {
-      simulationResults = await this.runSimulation(
-        userMetrics,
-        userSignature,
-        recommendations
-      );
+  private persistRuleSetVersion(versionId: string): void {
+    const version = this.ruleSetVersions.get(versionId);
+    if (version) {
+      this.persist((provider) => provider.saveRuleSetVersion(version));
     }
+  }
 
-    // Phase 5: 🚀 Apply ML fine-tuning if available
-    if (this.mlModel?.deploymentStatus === "production") {
-      const mlPredictions = await this.getMlPredictions(
-        userMetrics,
-        proprietaryMetrics
-      );
-      if (mlPredictions && mlPredictions.confidence > 0.7) {
-        this.applyMlFineTuning(recommendations, mlPredictions);
+  private persistExperiment(experiment: RuleSetExperiment): void {
+    this.persist((provider) => provider.saveExperiment(experiment));
+  }
+
+  private clearUserTestGroups(): void {
+    const userIds = Array.from(this.userTestGroups.keys());
+    this.userTestGroups.clear();
+    this.persist(async (provider) => {
+      for (const userId of userIds) {
+        await provider.saveUserTestGroup(userId, null);
       }
-    }
+    });
+  }
 
-    // Record this analysis for learning
-    await this.recordAnalysisForLearning(
-      userMetrics,
-      recommendations,
-      explanation,
-      ruleSetVersion
+  /**
+   * 🚀 ENHANCED: Main adaptation method with full explainability
+   */
+  async analyzeWithExplanation(
+    userMetrics: UserMetrics
+  ): Promise<ExplainedAnalysis> {
+    return this.runExplainedAnalysis(userMetrics, { dryRun: false });
+  }
+
+  /**
+   * Counterfactual analysis: what would be recommended if some metrics were
+   * different. Runs on copies and leaves history, training data, signatures
+   * and test group assignments untouched.
+   */
+  async whatIf(
+    userMetrics: UserMetrics,
+    overrides: UserMetricsOverrides
+  ): Promise<WhatIfResult> {
+    const baseline = await this.runExplainedAnalysis(
+      this.cloneUserMetrics(userMetrics),
+      { dryRun: true }
+    );
+    const scenario = await this.runExplainedAnalysis(
+      this.applyMetricOverrides(userMetrics, overrides),
+      { dryRun: true }
     );
 
     return {
-      recommendations,
-      explanation,
-      preemptivePlan,
-      simulationResults,
+      baseline,
+      scenario,
+      recommendationDiff: this.diffRecommendations(
+        baseline.recommendations,
+        scenario.recommendations
+      ),
+      changedFactors: this.diffExplanationFactors(
+        baseline.explanation.contributingFactors,
+        scenario.explanation.contributingFactors
+      ),
     };
   }
 
   /**
-   * 🚀 Explainability Layer - Generate human-friendly explanations
+   * Analyze a cohort with bounded concurrency. Similar users reuse one
+   * random seed, so their simulations draw the same events, but each user
+   * is still simulated on their own metrics; skipSimulation drops the
+   * Monte Carlo step entirely.
    */
-  private async generateExplanation(
-    recommendations: AdaptationRecommendation[],
+  analyzeBatch(
+    metrics: UserMetrics[],
+    options: BatchAnalysisOptions = {}
+  ): BatchAnalysisRun {
+    const summary = this.createBatchSummary(metrics.length);
+    let resolveSummary!: (summary: BatchAnalysisSummary) => void;
+    const finished = new Promise<BatchAnalysisSummary>(
+      (resolve) => (resolveSummary = resolve)
+    );
+    const results = this.runBatch(metrics, options, summary, resolveSummary);
+    let started = false;
+
+    return {
+      [Symbol.asyncIterator]: () => {
+        if (started) {
+          throw new Error("Batch results can only be iterated once");
+        }
+        started = true;
+        return results;
+      },
+      summary: async () => {
+        if (!started) {
+          started = true;
+          for await (const _ of results) {
+            // drain: the summary is built as results complete
+          }
+        }
+        return finished;
+      },
+    };
+  }
+
+  private async *runBatch(
+    metrics: UserMetrics[],
+    options: BatchAnalysisOptions,
+    summary: BatchAnalysisSummary,
+    onFinished: (summary: BatchAnalysisSummary) => void
+  ): AsyncGenerator<BatchAnalysisItem> {
+    const startTime = Date.now();
+    const concurrency = Math.max(1, Math.floor(options.concurrency ?? 4));
+    const cohortSeeds = new Map<string, number>();
+    const inFlight = new Map<
+      number,
+      Promise<{ slot: number; item: BatchAnalysisItem }>
+    >();
+    let next = 0;
+
+    const launch = (slot: number) => {
+      const index = next++;
+      inFlight.set(
+        slot,
+        this.analyzeBatchItem(
+          metrics[index],
+          index,
+          options,
+          cohortSeeds,
+          summary
+        ).then((item) => ({ slot, item }))
+      );
+    };
+
+    try {
+      for (let slot = 0; slot < concurrency && next < metrics.length; slot++) {
+        launch(slot);
+      }
+      while (inFlight.size > 0) {
+        const { slot, item } = await Promise.race(inFlight.values());
+        inFlight.delete(slot);
+        if (next < metrics.length) launch(slot);
+
+        this.addToBatchSummary(summary, metrics[item.index], item);
+        yield item;
+      }
+    } finally {
+      summary.durationMs = Date.now() - startTime;
+      onFinished(summary);
+    }
+  }
+
+  private async analyzeBatchItem(
     userMetrics: UserMetrics,
-    userSignature: UserSignature,
-    proprietaryMetrics: NateProprietaryMetrics
-  ): Promise<AdaptationExplanation> {
-    if (recommendations.length === 0) {
+    index: number,
+    options: BatchAnalysisOptions,
+    cohortSeeds: Map<string, number>,
+    summary: BatchAnalysisSummary
+  ): Promise<BatchAnalysisItem> {
+    try {
+      const analysis = await this.runExplainedAnalysis(userMetrics, {
+        dryRun: options.dryRun ?? false,
+        skipSimulation: options.skipSimulation,
+        cohortSeeds,
+        onSimulation: (reusedSeed) => {
+          summary.simulationsRun++;
+          if (reusedSeed) summary.seedsReused++;
+        },
+      });
+      return { index, userId: userMetrics.userId, analysis };
+    } catch (error) {
+      console.error(`Batch analysis failed for ${userMetrics.userId}:`, error);
       return {
-        recommendationId: `no-change-${Date.now()}`,
-        primaryReason: "Your current plan is working well",
-        contributingFactors: [
-          {
-            metric: "Adaptive Recovery Index",
-            value: proprietaryMetrics.adaptiveRecoveryIndex,
-            impact: "low",
-            description: "Your recovery is on track",
-            trend: "stable",
-          },
-        ],
-        confidence: 0.9,
-        riskFactors: [],
-        expectedOutcome:
-          "Continue seeing steady progress with current approach",
-        alternativesConsidered: [],
-        dataPoints: ["No concerning metrics detected"],
-        timelineExpectation: "Keep monitoring for next 1-2 weeks",
+        index,
+        userId: userMetrics.userId,
+        error: error instanceof Error ? error.message : String(error),
       };
     }
+  }
 
-    const primaryRecommendation = recommendations[0];
-    const contributingFactors: ExplanationFactor[] = [];
-    const dataPoints: string[] = [];
-    const riskFactors: string[] = [];
-    const alternativesConsidered: AlternativeOption[] = [];
+  private createBatchSummary(totalUsers: number): BatchAnalysisSummary {
+    return {
+      totalUsers,
+      analyzedUsers: 0,
+      failedUsers: 0,
+      usersWithRecommendations: 0,
+      triggeredRuleCounts: {},
+      priorityCounts: { critical: 0, high: 0, medium: 0, low: 0 },
+      segments: {
+        ruleSetVersion: {},
+        planType: {},
+        compliancePattern: {},
+        context: {},
+      },
+      simulationsRun: 0,
+      seedsReused: 0,
+      durationMs: 0,
+    };
+  }
 
-    // Analyze primary drivers
-    if (proprietaryMetrics.adaptiveRecoveryIndex < 30) {
-      contributingFactors.push({
-        metric: "Adaptive Recovery Index",
+  private addToBatchSummary(
+    summary: BatchAnalysisSummary,
+    userMetrics: UserMetrics,
+    item: BatchAnalysisItem
+  ): void {
+    if (!item.analysis) {
+      summary.failedUsers++;
+      return;
+    }
+
+    const recommendations = item.analysis.recommendations;
+    const ruleIds = Array.from(
+      new Set(
+        recommendations.map(
+          (rec) => rec.ruleId || rec.schedule?.strategy || "chained"
+        )
+      )
+    );
+    const tally = (stats: {
+      triggeredRuleCounts: Record<string, number>;
+      priorityCounts: Record<AdaptationRecommendation["priority"], number>;
+      usersWithRecommendations: number;
+    }) => {
+      ruleIds.forEach((ruleId) => {
+        stats.triggeredRuleCounts[ruleId] =
+          (stats.triggeredRuleCounts[ruleId] || 0) + 1;
+      });
+      recommendations.forEach((rec) => stats.priorityCounts[rec.priority]++);
+      if (recommendations.length > 0) stats.usersWithRecommendations++;
+    };
+
+    summary.analyzedUsers++;
+    tally(summary);
+
+    const segmentValues: Record<BatchSegmentDimension, string[]> = {
+      ruleSetVersion: [this.peekRuleSetVersionForUser(userMetrics.userId)],
+      planType: [userMetrics.currentPlan.type],
+      compliancePattern: [
+        this.peekUserSignature(userMetrics.userId).planCompliancePattern,
+      ],
+      context: this.describeContext(userMetrics),
+    };
+    (Object.keys(segmentValues) as BatchSegmentDimension[]).forEach(
+      (dimension) => {
+        segmentValues[dimension].forEach((value) => {
+          const segment = (summary.segments[dimension][value] ||= {
+            users: 0,
+            usersWithRecommendations: 0,
+            triggeredRuleCounts: {},
+            priorityCounts: { critical: 0, high: 0, medium: 0, low: 0 },
+          });
+          segment.users++;
+          tally(segment);
+        });
+      }
+    );
+  }
+
+  /**
+   * Re-run snapshots through a rule set version and diff the result against
+   * what was actually recommended. Uses the dry-run pipeline, so live
+   * history, signatures, test groups and training data are untouched.
+   * Signatures and learned weights are the current ones, not those at the
+   * time of each snapshot; guardrails run at the snapshot's time against the
+   * adaptations applied in the week before it. Pass a RuleSetVersion object
+   * to replay a version that has not been deployed yet.
+   */
+  async replay(
+    snapshots: ReplaySnapshot[],
+    ruleSetVersion: string | RuleSetVersion
+  ): Promise<ReplayReport> {
+    const ruleSetVersionId =
+      typeof ruleSetVersion === "string"
+        ? ruleSetVersion
+        : ruleSetVersion.versionId;
+    const activeRules =
+      typeof ruleSetVersion === "string"
+        ? undefined
+        : this.resolveUndeployedRules(ruleSetVersion);
+    if (!activeRules && !this.ruleSetVersions.has(ruleSetVersionId)) {
+      throw new Error(`Unknown rule set version "${ruleSetVersionId}"`);
+    }
+
+    const steps: ReplayStep[] = [];
+    const ordered = [...snapshots].sort(
+      (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+    );
+
+    for (const snapshot of ordered) {
+      const userId = snapshot.metrics.userId;
+      let actualSource: ReplayStep["actualSource"] = "provided";
+      let actualRecommendations = snapshot.actualRecommendations;
+      if (!actualRecommendations) {
+        const recorded = (this.adaptationHistory.get(userId) || []).filter(
+          (h) => h.timestamp.getTime() === snapshot.timestamp.getTime()
+        );
+        actualSource = recorded.length > 0 ? "history" : "none";
+        actualRecommendations = recorded.map((h) => h.recommendation);
+      }
+
+      const analysis = await this.runExplainedAnalysis(
+        this.cloneUserMetrics(snapshot.metrics),
+        {
+          dryRun: true,
+          skipSimulation: true,
+          ruleSetVersion: ruleSetVersionId,
+          activeRules,
+          asOf: snapshot.timestamp,
+        }
+      );
+
+      steps.push({
+        timestamp: snapshot.timestamp,
+        userId,
+        actualRecommendations,
+        actualSource,
+        replayedRecommendations: analysis.recommendations,
+        diff: this.diffRecommendations(
+          actualRecommendations,
+          analysis.recommendations
+        ),
+      });
+    }
+
+    return {
+      ruleSetVersion: ruleSetVersionId,
+      steps,
+      summary: this.summarizeReplay(steps),
+    };
+  }
+
+  /**
+   * Replay a user's recorded analyses, e.g. last quarter, against a version
+   */
+  async replayUserHistory(
+    userId: string,
+    ruleSetVersion: string | RuleSetVersion,
+    range: { from?: Date; to?: Date } = {}
+  ): Promise<ReplayReport> {
+    const byTimestamp = new Map<number, AdaptationHistory[]>();
+    for (const entry of this.adaptationHistory.get(userId) || []) {
+      const time = entry.timestamp.getTime();
+      if (range.from && time < range.from.getTime()) continue;
+      if (range.to && time > range.to.getTime()) continue;
+      byTimestamp.set(time, [...(byTimestamp.get(time) || []), entry]);
+    }
+
+    return this.replay(
+      Array.from(byTimestamp.values()).map((entries) => ({
+        timestamp: entries[0].timestamp,
+        metrics: entries[0].contextSnapshot,
+        actualRecommendations: entries.map((entry) => entry.recommendation),
+      })),
+      ruleSetVersion
+    );
+  }
+
+  // Rules a version would run with, compiling its documents without registering them
+  private resolveUndeployedRules(version: RuleSetVersion): AdaptationRule[] {
+    const compiled = this.compileRuleDocuments(version);
+    const ruleIds = Array.from(new Set([...version.rules, ...compiled.keys()]));
+    const unknownRules = ruleIds.filter(
+      (ruleId) => !compiled.has(ruleId) && !this.rules.has(ruleId)
+    );
+    if (unknownRules.length > 0) {
+      throw new Error(
+        `Rule set ${version.versionId} references unregistered rules: ${unknownRules.join(", ")}`
+      );
+    }
+
+    return ruleIds
+      .filter((ruleId) => !this.disabledRuleIds.has(ruleId))
+      .map((ruleId) => compiled.get(ruleId) || this.rules.get(ruleId)!);
+  }
+
+  private summarizeReplay(steps: ReplayStep[]): ReplayReport["summary"] {
+    const ruleTriggerDelta: Record<string, number> = {};
+    const tallyRules = (
+      recommendations: AdaptationRecommendation[],
+      delta: number
+    ) =>
+      recommendations.forEach((rec) => {
+        const ruleId = rec.ruleId || rec.schedule?.strategy || "chained";
+        ruleTriggerDelta[ruleId] = (ruleTriggerDelta[ruleId] || 0) + delta;
+      });
+    const removedEffectiveness: number[] = [];
+    const retainedEffectiveness: number[] = [];
+
+    for (const step of steps) {
+      tallyRules(step.actualRecommendations, -1);
+      tallyRules(step.replayedRecommendations, 1);
+
+      for (const rec of step.actualRecommendations) {
+        const outcome = rec.adaptationId
+          ? this.findAdaptation(rec.adaptationId)
+          : undefined;
+        if (!outcome?.outcomeRecordedAt) continue;
+        (step.diff.removed.includes(rec)
+          ? removedEffectiveness
+          : retainedEffectiveness
+        ).push(outcome.effectiveness);
+      }
+    }
+
+    const mean = (values: number[]) =>
+      values.length > 0
+        ? values.reduce((sum, value) => sum + value, 0) / values.length
+        : undefined;
+
+    return {
+      snapshots: steps.length,
+      unchangedSnapshots: steps.filter(
+        (step) =>
+          step.diff.added.length === 0 &&
+          step.diff.removed.length === 0 &&
+          step.diff.changed.length === 0
+      ).length,
+      added: steps.reduce((sum, step) => sum + step.diff.added.length, 0),
+      removed: steps.reduce((sum, step) => sum + step.diff.removed.length, 0),
+      changed: steps.reduce((sum, step) => sum + step.diff.changed.length, 0),
+      ruleTriggerDelta: Object.fromEntries(
+        Object.entries(ruleTriggerDelta).filter(([, delta]) => delta !== 0)
+      ),
+      removedOutcomeEffectiveness: mean(removedEffectiveness),
+      retainedOutcomeEffectiveness: mean(retainedEffectiveness),
+    };
+  }
+
+  private async runExplainedAnalysis(
+    userMetrics: UserMetrics,
+    options: {
+      dryRun: boolean;
+      ruleSetVersion?: string; // overrides the user's assigned version
+      activeRules?: AdaptationRule[]; // rules of an undeployed version
+      asOf?: Date; // evaluate guardrails at this time, e.g. a replayed snapshot's
+      skipSimulation?: boolean;
+      cohortSeeds?: Map<string, number>; // cohort key -> simulation seed, batch only
+      onSimulation?: (shared: boolean) => void;
+    }
+  ): Promise<ExplainedAnalysis> {
+    // Get or create user signature
+    const userSignature = options.dryRun
+      ? this.peekUserSignature(userMetrics.userId)
+      : this.getUserSignature(userMetrics.userId);
+
+    // Calculate Nate's proprietary metrics
+    const proprietaryMetrics = this.calculateProprietaryMetrics(
+      userMetrics,
+      userSignature
+    );
+
+    // Get current rule set version for this user
+    const ruleSetVersion =
+      options.ruleSetVersion ||
+      (options.dryRun
+        ? this.peekRuleSetVersionForUser(userMetrics.userId)
+        : this.getRuleSetVersionForUser(userMetrics.userId));
+
+    // Phase 1: Base analysis (existing logic)
+    const guardrailAudit: GuardrailAuditEntry[] = [];
+    const conflicts: RecommendationConflict[] = [];
+    let recommendations = this.runRulePipeline(userMetrics, {
+      dryRun: options.dryRun,
+      userSignature,
+      ruleSetVersion,
+      activeRules: options.activeRules,
+      asOf: options.asOf,
+      guardrailAudit,
+      conflicts,
+    });
+
+    // Phase 2: 🚀 Create pre-emptive plan
+    const preemptivePlan = await this.generatePreemptivePlan(
+      userMetrics,
+      userSignature,
+      proprietaryMetrics
+    );
+
+    // Contingencies whose warning has already fired join the recommendations
+    const activated = preemptivePlan.contingencyPlans.filter(
+      (plan) => plan.status === "activated"
+    );
+    if (activated.length > 0) {
+      const resolved = this.conflictResolver.resolve(
+        [...recommendations, ...activated.map((plan) => plan.immediateAction)],
+        this.ruleWeights,
+        this.ruleInteractions
+      );
+      conflicts.push(...resolved.conflicts);
+      recommendations = this.enforceGuardrails(
+        this.finalizeRecommendations(resolved.recommendations),
+        userMetrics,
+        userSignature,
+        options.dryRun,
+        guardrailAudit,
+        options.asOf
+      );
+    }
+
+    // Phase 3: 🚀 Generate detailed explanation
+    const explanation = await this.generateExplanation(
+      recommendations,
+      userMetrics,
+      userSignature,
+      proprietaryMetrics
+    );
+
+    // Phase 4: 🚀 Run simulation if recommendations are significant
+    let simulationResults: SimulationResult | undefined;
+    if (
+      !options.skipSimulation &&
+      recommendations.some(
+        (r) => r.priority === "critical" || r.priority === "high"
+      )
+    ) {
+      simulationResults = await this.runSimulation(
+        userMetrics,
+        userSignature,
+        recommendations,
+        options.cohortSeeds,
+        options.onSimulation
+      );
+    }
+
+    // Phase 5: 🚀 Apply ML fine-tuning if available
+    if (this.mlModel?.deploymentStatus === "production") {
+      for (const recommendation of recommendations) {
+        const mlPrediction = await this.getMlPrediction(
+          userMetrics,
+          proprietaryMetrics,
+          recommendation
+        );
+        if (
+          mlPrediction &&
+          !mlPrediction.fallbackToRules &&
+          mlPrediction.confidence > 0.7
+        ) {
+          this.applyMlFineTuning(recommendation, mlPrediction);
+        }
+      }
+
+      // Fine-tuned parameters must respect the same guardrails
+      recommendations = this.enforceGuardrails(
+        recommendations,
+        userMetrics,
+        userSignature,
+        options.dryRun,
+        guardrailAudit,
+        options.asOf
+      );
+    }
+
+    // Record this analysis for learning
+    if (!options.dryRun) {
+      await this.recordAnalysisForLearning(
+        userMetrics,
+        recommendations,
+        explanation,
+        ruleSetVersion
+      );
+    }
+
+    return {
+      recommendations,
+      explanation,
+      preemptivePlan,
+      simulationResults,
+      guardrailAudit,
+      conflicts,
+    };
+  }
+
+  /**
+   * 🚀 Explainability Layer - Generate human-friendly explanations
+   */
+  private async generateExplanation(
+    recommendations: AdaptationRecommendation[],
+    userMetrics: UserMetrics,
+    userSignature: UserSignature,
+    proprietaryMetrics: NateProprietaryMetrics
+  ): Promise<AdaptationExplanation> {
+    if (recommendations.length === 0) {
+      return {
+        recommendationId: `no-change-${Date.now()}`,
+        primaryReason: "Your current plan is working well",
+        contributingFactors: [
+          {
+            metric: "Adaptive Recovery Index",
+            value: proprietaryMetrics.adaptiveRecoveryIndex,
+            impact: "low",
+            description: "Your recovery is on track",
+            trend: "stable",
+          },
+        ],
+        confidence: 0.9,
+        riskFactors: [],
+        expectedOutcome:
+          "Continue seeing steady progress with current approach",
+        alternativesConsidered: [],
+        dataPoints: ["No concerning metrics detected"],
+        timelineExpectation: "Keep monitoring for next 1-2 weeks",
+      };
+    }
+
+    const primaryRecommendation = recommendations[0];
+    const contributingFactors: ExplanationFactor[] = [];
+    const dataPoints: string[] = [];
+    const riskFactors: string[] = [];
+    const alternativesConsidered: AlternativeOption[] = [];
+
+    // Analyze primary drivers
+    if (proprietaryMetrics.adaptiveRecoveryIndex < 30) {
+      contributingFactors.push({
+        metric: "Adaptive Recovery Index",
         value: proprietaryMetrics.adaptiveRecoveryIndex,
         impact: "high",
         description: "Your recovery capacity is significantly compromised",
@@ -729,30 +1717,39 @@ export class AdaptationEngine {
       proprietaryMetrics
     );
 
-    // Generate early warning signals
-    const earlyWarningSignals = this.generateEarlyWarningSignals(
+    // Trends in recent workouts drive the projections below
+    const trends = this.extractWorkoutTrends(userMetrics);
+
+    // Project optimal trajectory
+    const optimalTrajectory = this.projectOptimalTrajectory(
       userMetrics,
-      proprietaryMetrics
+      userSignature,
+      proprietaryMetrics,
+      trends
     );
 
-    // Create contingency plans
-    const contingencyPlans = this.generateContingencyPlans(
+    // Generate early warning signals
+    const earlyWarningSignals = this.generateEarlyWarningSignals(
       userMetrics,
-      userSignature
+      proprietaryMetrics,
+      trends,
+      optimalTrajectory
     );
 
-    // Project optimal trajectory
-    const optimalTrajectory = this.projectOptimalTrajectory(
+    // Create contingency plans, activating those whose warning has fired
+    const contingencyPlans = this.generateContingencyPlans(
       userMetrics,
       userSignature,
-      proprietaryMetrics
+      earlyWarningSignals
     );
 
     // Assess risks
     const riskAssessment = this.assessRisks(
       userMetrics,
       userSignature,
-      proprietaryMetrics
+      proprietaryMetrics,
+      trends,
+      optimalTrajectory
     );
 
     return {
@@ -769,29 +1766,107 @@ export class AdaptationEngine {
     };
   }
 
+  /**
+   * 🚀 Seeded Monte Carlo simulation - week-by-week state transitions over
+   * the scenario duration. The same seed always produces the same outcomes.
+   */
+  async simulate(
+    userMetrics: UserMetrics,
+    recommendations: AdaptationRecommendation[],
+    scenario: Omit<SimulationScenario, "initialState">,
+    options: { seed?: number; iterations?: number } = {}
+  ): Promise<SimulationResult> {
+    const iterations = Math.max(1, Math.floor(options.iterations ?? 100));
+    const seed = options.seed ?? Math.floor(Math.random() * 0xffffffff);
+    const random = createSeededRandom(seed);
+    const fullScenario: SimulationScenario = {
+      ...scenario,
+      initialState: userMetrics,
+    };
+
+    const startTime = Date.now();
+    const outcomes: SimulationOutcome[] = [];
+
+    // Run multiple simulations off a single seeded stream
+    for (let i = 0; i < iterations; i++) {
+      outcomes.push(
+        this.runSingleSimulation(fullScenario, recommendations, random)
+      );
+    }
+
+    // Analyze results
+    const bestPath = outcomes.reduce((best, current) =>
+      current.progressScore > best.progressScore ? current : best
+    ).path;
+
+    const worstPath = outcomes.reduce((worst, current) =>
+      current.progressScore < worst.progressScore ? current : worst
+    ).path;
+
+    const expectedValue =
+      outcomes.reduce(
+        (sum, outcome) =>
+          sum +
+          (outcome.progressScore * 0.4 +
+            outcome.adherenceRate * 0.3 +
+            outcome.userSatisfactionScore * 0.3),
+        0
+      ) / outcomes.length;
+
+    return {
+      simulationId: `sim-${userMetrics.userId}-${seed}`,
+      scenario: fullScenario,
+      outcomes,
+      bestPath,
+      worstPath,
+      expectedValue,
+      confidence: this.calculateSimulationConfidence(outcomes),
+      runTime: Date.now() - startTime,
+      iterations,
+      seed,
+    };
+  }
+
   /**
    * 🚀 Simulated Plan Testing - Run virtual scenarios
    */
   private async runSimulation(
     userMetrics: UserMetrics,
     userSignature: UserSignature,
-    proposedRecommendations: AdaptationRecommendation[]
+    proposedRecommendations: AdaptationRecommendation[],
+    cohortSeeds?: Map<string, number>,
+    onSimulation?: (reusedSeed: boolean) => void
   ): Promise<SimulationResult> {
-    const simulationId = `sim-${userMetrics.userId}-${Date.now()}`;
-
-    // Check cache first
+    // Check cache first, refreshing the entry's place in the LRU order
     const cacheKey = this.generateSimulationCacheKey(
       userMetrics,
       proposedRecommendations
     );
-    if (this.simulationCache.has(cacheKey)) {
-      return this.simulationCache.get(cacheKey)!;
+    const cached = this.simulationCache.get(cacheKey);
+    if (cached) {
+      this.simulationCache.delete(cacheKey);
+      this.simulationCache.set(cacheKey, cached);
+      return cached;
+    }
+
+    // In a batch, users with the same metrics bucket and recommendations
+    // replay the same random event draws; results are always built from
+    // the user's own metrics
+    const cohortKey = this.generateSimulationCacheKey(
+      userMetrics,
+      proposedRecommendations,
+      false
+    );
+    const sharedSeed = cohortSeeds?.get(cohortKey);
+    const seed = sharedSeed ?? hashString(cacheKey);
+    // Claim the seed before simulating so concurrent similar users reuse it
+    if (sharedSeed === undefined) {
+      cohortSeeds?.set(cohortKey, seed);
     }
 
-    const scenario: SimulationScenario = {
+    const scenario: Omit<SimulationScenario, "initialState"> = {
       name: "Adaptation Impact Simulation",
       duration: 4, // 4 weeks
-      initialState: userMetrics,
       userSignature,
       stochasticFactors: [
         {
@@ -822,52 +1897,19 @@ export class AdaptationEngine {
       ],
     };
 
-    const startTime = Date.now();
-    const iterations = 100;
-    const outcomes: SimulationOutcome[] = [];
+    const result = await this.simulate(
+      userMetrics,
+      proposedRecommendations,
+      scenario,
+      { seed, iterations: 100 }
+    );
 
-    // Run multiple simulations
-    for (let i = 0; i < iterations; i++) {
-      const outcome = await this.runSingleSimulation(
-        scenario,
-        proposedRecommendations
-      );
-      outcomes.push(outcome);
+    // Cache result, evicting the least recently used entry when full
+    this.simulationCache.set(cacheKey, result);
+    if (this.simulationCache.size > SIMULATION_CACHE_SIZE) {
+      this.simulationCache.delete(this.simulationCache.keys().next().value!);
     }
-
-    // Analyze results
-    const bestPath = outcomes.reduce((best, current) =>
-      current.progressScore > best.progressScore ? current : best
-    ).path;
-
-    const worstPath = outcomes.reduce((worst, current) =>
-      current.progressScore < worst.progressScore ? current : worst
-    ).path;
-
-    const expectedValue =
-      outcomes.reduce(
-        (sum, outcome) =>
-          sum +
-          (outcome.progressScore * 0.4 +
-            outcome.adherenceRate * 0.3 +
-            outcome.userSatisfactionScore * 0.3),
-        0
-      ) / outcomes.length;
-
-    const result: SimulationResult = {
-      simulationId,
-      scenario,
-      outcomes,
-      bestPath,
-      worstPath,
-      expectedValue,
-      confidence: this.calculateSimulationConfidence(outcomes),
-      runTime: Date.now() - startTime,
-      iterations,
-    };
-
-    // Cache result
-    this.simulationCache.set(cacheKey, result);
+    onSimulation?.(sharedSeed !== undefined);
     return result;
   }
 
@@ -919,18 +1961,322 @@ export class AdaptationEngine {
     version: RuleSetVersion,
     testGroupPercentage: number = 10
   ): Promise<void> {
-    this.ruleSetVersions.set(version.versionId, version);
+    // Validate everything before touching engine state or the caller's version
+    const compiledRules = this.compileRuleDocuments(version);
+    const ruleIds = Array.from(
+      new Set([...version.rules, ...compiledRules.keys()])
+    );
+    const unknownRules = ruleIds.filter(
+      (ruleId) => !this.rules.has(ruleId) && !compiledRules.has(ruleId)
+    );
+    if (unknownRules.length > 0) {
+      throw new Error(
+        `Rule set ${version.versionId} references unregistered rules: ${unknownRules.join(", ")}`
+      );
+    }
+
+    // Declarative rules are keyed by version, so control and treatment arms
+    // can run different document versions of the same rule id
+    for (const rule of compiledRules.values()) {
+      if (!this.rules.has(rule.id)) {
+        this.registerRule(rule, {
+          weight: version.ruleWeights[rule.id],
+          ruleSetVersionIds: [],
+        });
+      }
+    }
+    this.versionRules.set(version.versionId, compiledRules);
+    this.ruleSetVersions.set(version.versionId, {
+      ...version,
+      rules: ruleIds,
+      ruleWeights: { ...version.ruleWeights },
+    });
+    this.persistRuleSetVersion(version.versionId);
+
+    // Users are bucketed lazily by hash, so users seen later are enrolled too
+    this.startExperiment({
+      experimentId: `exp-${version.versionId}`,
+      salt: version.versionId,
+      arms: [
+        {
+          versionId: version.versionId,
+          testGroup: version.testGroup || "treatment",
+          weight: 1,
+        },
+      ],
+      controlVersionId: this.currentRuleSetVersion,
+      holdoutPercentage: 0,
+      rampPercentage: testGroupPercentage,
+    });
+  }
+
+  /**
+   * Start a multi-arm rule set experiment, ending any active experiment
+   */
+  startExperiment(
+    config: Omit<RuleSetExperiment, "startedAt" | "endedAt">
+  ): RuleSetExperiment {
+    const versionIds = [
+      config.controlVersionId,
+      ...config.arms.map((arm) => arm.versionId),
+    ];
+    for (const versionId of versionIds) {
+      if (!this.ruleSetVersions.has(versionId)) {
+        throw new Error(`Unknown rule set version "${versionId}"`);
+      }
+    }
+    if (config.arms.length === 0 || config.arms.some((a) => a.weight <= 0)) {
+      throw new Error(
+        "Experiments need at least one arm with a positive weight"
+      );
+    }
+    this.assertPercentage(config.holdoutPercentage, "holdoutPercentage");
+    this.assertPercentage(config.rampPercentage, "rampPercentage");
+
+    if (this.activeExperimentId) {
+      this.stopExperiment(this.activeExperimentId);
+    }
+
+    const experiment: RuleSetExperiment = {
+      ...config,
+      arms: config.arms.map((arm) => ({ ...arm })),
+      startedAt: new Date(),
+    };
+    this.experiments.set(experiment.experimentId, experiment);
+    this.activeExperimentId = experiment.experimentId;
+    this.clearUserTestGroups();
+
+    for (const arm of experiment.arms) {
+      this.ruleSetVersions.get(arm.versionId)!.testGroup = arm.testGroup;
+      this.persistRuleSetVersion(arm.versionId);
+    }
+    this.persistExperiment(experiment);
+
+    return experiment;
+  }
+
+  /**
+   * Gradually ramp enrollment. Raising the ramp only adds users; anyone
+   * already enrolled stays in the same arm.
+   */
+  setExperimentRamp(experimentId: string, rampPercentage: number): void {
+    const experiment = this.experiments.get(experimentId);
+    if (!experiment) {
+      throw new Error(`Unknown experiment "${experimentId}"`);
+    }
+    this.assertPercentage(rampPercentage, "rampPercentage");
+
+    experiment.rampPercentage = rampPercentage;
+    this.persistExperiment(experiment);
+    this.clearUserTestGroups();
+  }
+
+  stopExperiment(experimentId: string): void {
+    const experiment = this.experiments.get(experimentId);
+    if (!experiment) return;
+
+    experiment.endedAt = new Date();
+    this.persistExperiment(experiment);
+    if (this.activeExperimentId === experimentId) {
+      this.activeExperimentId = undefined;
+      this.clearUserTestGroups();
+    }
+  }
+
+  /**
+   * Deterministic assignment: the same userId and salt always land in the
+   * same bucket, independent of the order users are seen in
+   */
+  getExperimentAssignment(userId: string): ExperimentAssignment {
+    const experiment = this.activeExperimentId
+      ? this.experiments.get(this.activeExperimentId)
+      : undefined;
+
+    if (!experiment) {
+      return {
+        userId,
+        versionId: this.currentRuleSetVersion,
+        group: "control",
+      };
+    }
+
+    const base = {
+      userId,
+      experimentId: experiment.experimentId,
+      versionId: experiment.controlVersionId,
+    };
+
+    // Independent hashes per stage so ramp changes never reshuffle arms
+    if (
+      this.bucketUser(userId, experiment.salt, "holdout") <
+      experiment.holdoutPercentage
+    ) {
+      return { ...base, group: "holdout" };
+    }
+    if (
+      this.bucketUser(userId, experiment.salt, "ramp") >=
+      experiment.rampPercentage
+    ) {
+      return { ...base, group: "control" };
+    }
+
+    const totalWeight = experiment.arms.reduce((sum, a) => sum + a.weight, 0);
+    let armBucket =
+      (this.bucketUser(userId, experiment.salt, "arm") / 100) * totalWeight;
+    const arm =
+      experiment.arms.find((candidate) => {
+        armBucket -= candidate.weight;
+        return armBucket < 0;
+      }) || experiment.arms[experiment.arms.length - 1];
+
+    return {
+      ...base,
+      versionId: arm.versionId,
+      group: "treatment",
+      testGroup: arm.testGroup,
+    };
+  }
+
+  /**
+   * Record an outcome against the rule set version that produced it and
+   * refresh that version's performance metrics
+   */
+  recordRuleSetOutcome(versionId: string, sample: RuleSetOutcomeSample): void {
+    const version = this.ruleSetVersions.get(versionId);
+    if (!version) {
+      throw new Error(`Unknown rule set version "${versionId}"`);
+    }
+
+    const stats = this.ruleSetOutcomeStats.get(versionId) || {};
+    const observe = (metric: RuleSetOutcomeMetric, value?: number) => {
+      if (value === undefined || Number.isNaN(value)) return;
+      const stat = stats[metric] || { count: 0, mean: 0, m2: 0 };
+      // Welford's online update
+      stat.count++;
+      const delta = value - stat.mean;
+      stat.mean += delta / stat.count;
+      stat.m2 += delta * (value - stat.mean);
+      stats[metric] = stat;
+    };
 
-    // Assign users to test groups (simple implementation)
-    // In production, this would be more sophisticated
-    const allUserIds = Array.from(this.userSignatures.keys());
-    const testGroupSize = Math.floor(
-      allUserIds.length * (testGroupPercentage / 100)
+    observe("effectiveness", sample.effectiveness);
+    observe("userSatisfaction", sample.userSatisfaction);
+    observe("adaptationSpeed", sample.adaptationSpeed);
+    observe(
+      "retention",
+      sample.retained === undefined ? undefined : sample.retained ? 1 : 0
     );
+    this.ruleSetOutcomeStats.set(versionId, stats);
+
+    this.refreshRuleSetPerformance();
+  }
+
+  /**
+   * Compare each arm's effectiveness against the control version
+   */
+  getExperimentResults(experimentId: string): ExperimentResults {
+    const experiment = this.experiments.get(experimentId);
+    if (!experiment) {
+      throw new Error(`Unknown experiment "${experimentId}"`);
+    }
+
+    const control = this.ruleSetOutcomeStats.get(
+      experiment.controlVersionId
+    )?.effectiveness;
+
+    return {
+      experimentId,
+      controlVersionId: experiment.controlVersionId,
+      arms: experiment.arms.map((arm) => {
+        const stats = this.ruleSetOutcomeStats.get(arm.versionId) || {};
+        const treatment = stats.effectiveness;
+        let effectivenessLift;
+
+        if (control && treatment && control.count > 1 && treatment.count > 1) {
+          // Welch's difference of means, normal approximation
+          const difference = treatment.mean - control.mean;
+          const standardError = Math.sqrt(
+            treatment.m2 / (treatment.count - 1) / treatment.count +
+              control.m2 / (control.count - 1) / control.count
+          );
+          const interval: [number, number] = [
+            difference - 1.96 * standardError,
+            difference + 1.96 * standardError,
+          ];
+          effectivenessLift = {
+            difference,
+            confidenceInterval: interval,
+            significant: interval[0] > 0 || interval[1] < 0,
+          };
+        }
 
-    for (let i = 0; i < testGroupSize; i++) {
-      const userId = allUserIds[i];
-      this.userTestGroups.set(userId, version.versionId);
+        return {
+          versionId: arm.versionId,
+          testGroup: arm.testGroup,
+          metrics: this.summarizeRuleSetStats(stats),
+          effectivenessLift,
+        };
+      }),
+    };
+  }
+
+  private refreshRuleSetPerformance(): void {
+    const controlRetention = this.ruleSetOutcomeStats.get(
+      this.currentRuleSetVersion
+    )?.retention;
+
+    this.ruleSetOutcomeStats.forEach((stats, versionId) => {
+      const version = this.ruleSetVersions.get(versionId);
+      if (!version) return;
+
+      const summary = this.summarizeRuleSetStats(stats);
+      version.performanceIntervals = summary;
+      version.performanceMetrics = {
+        avgUserSatisfaction: stats.userSatisfaction?.mean ?? 0,
+        avgEffectiveness: stats.effectiveness?.mean ?? 0,
+        avgAdaptationSpeed: stats.adaptationSpeed?.mean ?? 0,
+        retentionImpact:
+          stats.retention && controlRetention
+            ? stats.retention.mean - controlRetention.mean
+            : 0,
+      };
+      if (stats.effectiveness) {
+        // Rescale -1..1 effectiveness to a 0-1 success rate
+        version.successRate = (stats.effectiveness.mean + 1) / 2;
+      }
+      this.persistRuleSetVersion(versionId);
+    });
+  }
+
+  private summarizeRuleSetStats(
+    stats: Partial<Record<RuleSetOutcomeMetric, RunningStat>>
+  ): Partial<Record<RuleSetOutcomeMetric, RuleSetMetricSummary>> {
+    const summary: Partial<Record<RuleSetOutcomeMetric, RuleSetMetricSummary>> =
+      {};
+
+    (Object.keys(stats) as RuleSetOutcomeMetric[]).forEach((metric) => {
+      const stat = stats[metric]!;
+      const stdDev = stat.count > 1 ? Math.sqrt(stat.m2 / (stat.count - 1)) : 0;
+      const margin =
+        stat.count > 1 ? (1.96 * stdDev) / Math.sqrt(stat.count) : 0;
+      summary[metric] = {
+        sampleSize: stat.count,
+        mean: stat.mean,
+        stdDev,
+        confidenceInterval: [stat.mean - margin, stat.mean + margin],
+      };
+    });
+
+    return summary;
+  }
+
+  private bucketUser(userId: string, salt: string, stage: string): number {
+    return (hashString(`${salt}:${stage}:${userId}`) % 10000) / 100;
+  }
+
+  private assertPercentage(value: number, name: string): void {
+    if (!(value >= 0 && value <= 100)) {
+      throw new Error(`${name} must be between 0 and 100`);
     }
   }
 
@@ -971,52 +2317,385 @@ export class AdaptationEngine {
       hyperparameters: {
         learning_rate: 0.1,
         n_estimators: 100,
-        max_depth: 6,
+        max_depth: 3,
+        min_samples_leaf: 5,
       },
       deploymentStatus: "training",
     };
   }
 
   /**
-   * Get ML-enhanced predictions
+   * Train a candidate model on adaptations with recorded outcomes. The
+   * candidate does not serve predictions until validated and promoted.
+   */
+  async trainMLModel(options: MLTrainingOptions = {}): Promise<MLModelConfig> {
+    const validationSplit = options.validationSplit ?? 0.2;
+    const minSamples = options.minSamples ?? 20;
+    if (!(validationSplit > 0 && validationSplit < 1)) {
+      throw new Error("validationSplit must be between 0 and 1");
+    }
+
+    const samples = this.collectLabelledMLSamples();
+    if (samples.length < minSamples) {
+      throw new Error(
+        `ML training needs at least ${minSamples} labelled outcomes, found ${samples.length}`
+      );
+    }
+
+    // Deterministic shuffle, then hold out the tail for validation
+    const random = createSeededRandom(options.seed ?? samples.length);
+    for (let i = samples.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [samples[i], samples[j]] = [samples[j], samples[i]];
+    }
+    const validationSize = Math.max(
+      1,
+      Math.round(samples.length * validationSplit)
+    );
+    const trainingSet = samples.slice(0, samples.length - validationSize);
+    const validationSet = samples.slice(samples.length - validationSize);
+
+    const hyperparameters: GradientBoostingHyperparameters = {
+      learning_rate: 0.1,
+      n_estimators: 100,
+      max_depth: 3,
+      min_samples_leaf: 5,
+      ...options.hyperparameters,
+    };
+    const featureNames = Array.from(
+      new Set(trainingSet.flatMap((sample) => Object.keys(sample.features)))
+    ).sort();
+
+    const model = GradientBoostedTrees.fit(
+      trainingSet.map((sample) =>
+        featureNames.map((name) => sample.features[name] ?? 0)
+      ),
+      trainingSet.map((sample) => sample.target),
+      trainingSet.map((sample) => sample.weight),
+      featureNames,
+      hyperparameters
+    );
+
+    const config: MLModelConfig = {
+      modelType: "gradient_boosting",
+      version: this.nextMLModelVersion(),
+      trainingDataSize: trainingSet.length,
+      lastTrainedAt: new Date(),
+      accuracy: 0,
+      features: this.describeMLFeatures(model),
+      hyperparameters,
+      deploymentStatus: "training",
+    };
+
+    this.mlCandidate = { config, model, validationSet };
+    return config;
+  }
+
+  /**
+   * Score the candidate model on its held-out samples (or on all labelled
+   * outcomes when it was imported) and move it to testing
+   */
+  async validateMLModel(): Promise<MLValidationReport> {
+    const candidate = this.mlCandidate;
+    if (!candidate) {
+      throw new Error("No candidate ML model to validate");
+    }
+
+    const samples =
+      candidate.validationSet.length > 0
+        ? candidate.validationSet
+        : this.collectLabelledMLSamples();
+    if (samples.length === 0) {
+      throw new Error("No labelled outcomes available for validation");
+    }
+
+    let correct = 0;
+    let squaredError = 0;
+    for (const sample of samples) {
+      const predicted = candidate.model.predict(sample.features);
+      if (predicted > 0.3 === sample.target > 0.3) correct++;
+      squaredError += (predicted - sample.target) ** 2;
+    }
+
+    candidate.config.accuracy = correct / samples.length;
+    candidate.config.deploymentStatus = "testing";
+
+    return {
+      modelVersion: candidate.config.version,
+      sampleCount: samples.length,
+      accuracy: candidate.config.accuracy,
+      rmse: Math.sqrt(squaredError / samples.length),
+    };
+  }
+
+  /**
+   * Put the validated candidate into production, retiring the current model
+   */
+  async promoteMLModel(minAccuracy: number = 0.6): Promise<MLModelConfig> {
+    const candidate = this.mlCandidate;
+    if (!candidate || candidate.config.deploymentStatus !== "testing") {
+      throw new Error("ML model must be validated before promotion");
+    }
+    if (candidate.config.accuracy < minAccuracy) {
+      throw new Error(
+        `ML model ${candidate.config.version} accuracy ${candidate.config.accuracy.toFixed(2)} is below ${minAccuracy}`
+      );
+    }
+
+    if (this.mlModel) {
+      this.mlModel.deploymentStatus = "retired";
+    }
+    candidate.config.deploymentStatus = "production";
+    this.mlModel = candidate.config;
+    this.mlRegressor = candidate.model;
+    this.mlCandidate = undefined;
+    this.persistMLModel();
+
+    return this.mlModel;
+  }
+
+  getMLModelStatus(): { active?: MLModelConfig; candidate?: MLModelConfig } {
+    return {
+      active: this.mlModel,
+      candidate: this.mlCandidate?.config,
+    };
+  }
+
+  /**
+   * Serialize the production model, or the candidate when none is serving
+   */
+  exportMLModel(): SerializedMLModel | null {
+    if (this.mlRegressor && this.mlModel) {
+      return this.mlRegressor.serialize(this.mlModel);
+    }
+    if (this.mlCandidate) {
+      return this.mlCandidate.model.serialize(this.mlCandidate.config);
+    }
+    return null;
+  }
+
+  /**
+   * Load a serialized model. Production models start serving immediately;
+   * anything else becomes the candidate and goes through validation.
+   */
+  importMLModel(serialized: SerializedMLModel): MLModelConfig {
+    const model = GradientBoostedTrees.deserialize(serialized);
+    const config: MLModelConfig = {
+      ...serialized.config,
+      lastTrainedAt: new Date(serialized.config.lastTrainedAt),
+    };
+
+    if (config.deploymentStatus === "production") {
+      if (this.mlModel) {
+        this.mlModel.deploymentStatus = "retired";
+      }
+      this.mlModel = config;
+      this.mlRegressor = model;
+      this.persistMLModel();
+    } else {
+      this.mlCandidate = { config, model, validationSet: [] };
+    }
+    return config;
+  }
+
+  private persistMLModel(): void {
+    if (this.mlModel && this.mlRegressor) {
+      const serialized = this.mlRegressor.serialize(this.mlModel);
+      this.persist((provider) => provider.saveMLModel(serialized));
+    }
+  }
+
+  /**
+   * Get ML-enhanced predictions: search around the rule's parameters for
+   * the combination the model expects to be most effective
    */
-  private async getMlPredictions(
+  private async getMlPrediction(
     userMetrics: UserMetrics,
-    proprietaryMetrics: NateProprietaryMetrics
+    proprietaryMetrics: NateProprietaryMetrics,
+    recommendation: AdaptationRecommendation
   ): Promise<MLPrediction | null> {
-    if (!this.mlModel || this.mlModel.deploymentStatus !== "production") {
+    if (
+      !this.mlModel ||
+      !this.mlRegressor ||
+      this.mlModel.deploymentStatus !== "production"
+    ) {
       return null;
     }
 
     // Extract features
     const features = this.extractFeaturesForML(userMetrics, proprietaryMetrics);
+    const intensityChange = recommendation.changes.find(
+      (c) => c.target === "intensity" && typeof c.adjustment === "number"
+    );
+    const ruleIntensity = intensityChange?.adjustment as number | undefined;
+
+    const intensityFactors =
+      ruleIntensity !== undefined ? ML_PARAMETER_FACTORS : [1];
+    let baseline: { score: number; row: Record<string, number> } | undefined;
+    let best:
+      | {
+          score: number;
+          row: Record<string, number>;
+          intensity?: number;
+          duration: number;
+        }
+      | undefined;
+
+    for (const intensityFactor of intensityFactors) {
+      for (const durationFactor of ML_PARAMETER_FACTORS) {
+        const intensity =
+          ruleIntensity !== undefined
+            ? Math.round(ruleIntensity * intensityFactor * 10) / 10
+            : undefined;
+        const duration = Math.max(
+          1,
+          Math.round(recommendation.duration * durationFactor)
+        );
+        const row = {
+          ...features,
+          ...this.extractRecommendationFeatures(recommendation, {
+            intensity,
+            duration,
+          }),
+        };
+        const score = this.mlRegressor.predict(row);
+
+        if (intensityFactor === 1 && durationFactor === 1) {
+          baseline = { score, row };
+        }
+        if (!best || score > best.score) {
+          best = { score, row, intensity, duration };
+        }
+      }
+    }
+    if (!best || !baseline) return null;
+
+    // Trust grows with validation accuracy and the amount of training data
+    const confidence =
+      this.mlModel.accuracy * Math.min(1, this.mlModel.trainingDataSize / 100);
+    const featureInfluences = this.mlRegressor.explain(best.row);
+    const drivers = Object.entries(featureInfluences)
+      .sort((a, b) => Math.abs(b[1]) - Math.abs(a[1]))
+      .slice(0, 2)
+      .map(([name]) => name);
+
+    const parameterAdjustments: Record<string, number> = {
+      duration: best.duration,
+    };
+    if (best.intensity !== undefined) {
+      parameterAdjustments.intensity_change = best.intensity;
+    }
 
-    // Simulate ML prediction (in production, this would call actual ML service)
-    const mockPrediction: MLPrediction = {
-      recommendationType: "intensity",
-      parameterAdjustments: {
-        intensity_change: -12.5, // ML suggests 12.5% instead of rules-based 15%
-        duration: 5.2, // Slightly longer duration
-      },
-      confidence: 0.78,
-      explanation:
-        "ML model suggests slightly gentler intensity reduction based on similar user patterns",
-      featureInfluences: {
-        adaptive_recovery_index: 0.35,
-        engagement_score: 0.25,
-        historical_effectiveness: 0.2,
-      },
+    return {
+      recommendationType: recommendation.type,
+      parameterAdjustments,
+      confidence,
+      explanation: `model expects ${best.score.toFixed(2)} effectiveness vs ${baseline.score.toFixed(2)} for the rule's parameters, driven by ${drivers.join(" and ") || "no single feature"}`,
+      featureInfluences,
       modelVersion: this.mlModel.version,
-      fallbackToRules: false,
+      fallbackToRules: best.score - baseline.score < 0.02,
+    };
+  }
+
+  private collectLabelledMLSamples(): LabelledMLSample[] {
+    const samples: LabelledMLSample[] = [];
+
+    for (const sample of this.mlTrainingData) {
+      if (sample.targetOutcome.behaviorChange === "pending") continue;
+      const adaptation = sample.adaptationId
+        ? this.findAdaptation(sample.adaptationId)
+        : undefined;
+      if (!adaptation) continue;
+
+      samples.push({
+        features: {
+          ...sample.inputFeatures,
+          ...this.extractRecommendationFeatures(adaptation.recommendation),
+        },
+        target: this.calculateEffectiveness(sample.targetOutcome),
+        weight: sample.validationWeight > 0 ? sample.validationWeight : 1,
+      });
+    }
+
+    return samples;
+  }
+
+  private extractRecommendationFeatures(
+    recommendation: AdaptationRecommendation,
+    overrides: { intensity?: number; duration?: number } = {}
+  ): Record<string, number> {
+    const numericChange = (target: PlanChange["target"]) => {
+      const change = recommendation.changes.find(
+        (c) => c.target === target && typeof c.adjustment === "number"
+      );
+      return (change?.adjustment as number | undefined) ?? 0;
+    };
+
+    return {
+      [`recommendation_${recommendation.type}`]: 1,
+      intensity_change: overrides.intensity ?? numericChange("intensity"),
+      volume_change: numericChange("volume"),
+      adaptation_duration: overrides.duration ?? recommendation.duration,
     };
+  }
+
+  private describeMLFeatures(model: GradientBoostedTrees): MLFeature[] {
+    const importance = model.featureImportance();
+    const userMetricFeatures = [
+      "weekly_consistency",
+      "motivation_score",
+      "sleep_quality",
+      "stress_level",
+    ];
+    const proprietaryFeatures = [
+      "adaptive_recovery_index",
+      "engagement_score",
+      "progress_velocity",
+    ];
 
-    return mockPrediction;
+    return model.featureNames.map((name) => ({
+      name,
+      type: name.startsWith("recommendation_") ? "categorical" : "numeric",
+      importance: importance[name] ?? 0,
+      source: userMetricFeatures.includes(name)
+        ? "user_metrics"
+        : proprietaryFeatures.includes(name)
+          ? "proprietary_metrics"
+          : name === "historical_effectiveness"
+            ? "historical_data"
+            : "computed",
+      description: name.replace(/_/g, " "),
+    }));
+  }
+
+  private nextMLModelVersion(): string {
+    const latest = this.mlCandidate?.config.version || this.mlModel?.version;
+    const [major, minor] = (latest || "1.0.0").split(".").map(Number);
+    return `${major || 1}.${(minor || 0) + 1}.0`;
   }
 
   // Helper methods for the new features...
 
   private getRuleSetVersionForUser(userId: string): string {
-    return this.userTestGroups.get(userId) || this.currentRuleSetVersion;
+    const cached = this.userTestGroups.get(userId);
+    if (cached) return cached;
+
+    const assignment = this.getExperimentAssignment(userId);
+    if (assignment.group === "treatment") {
+      this.userTestGroups.set(userId, assignment.versionId);
+      this.persist((provider) =>
+        provider.saveUserTestGroup(userId, assignment.versionId)
+      );
+    }
+    return assignment.versionId;
+  }
+
+  // Same resolution as getRuleSetVersionForUser without caching the assignment
+  private peekRuleSetVersionForUser(userId: string): string {
+    return (
+      this.userTestGroups.get(userId) ||
+      this.getExperimentAssignment(userId).versionId
+    );
   }
 
   private generatePrimaryReason(
@@ -1138,160 +2817,895 @@ export class AdaptationEngine {
     return predictions;
   }
 
-  private generateEarlyWarningSignals(
-    userMetrics: UserMetrics,
-    proprietaryMetrics: NateProprietaryMetrics
-  ): EarlyWarningSignal[] {
-    const signals: EarlyWarningSignal[] = [];
-
-    // ARI warning
-    if (proprietaryMetrics.adaptiveRecoveryIndex < 50) {
-      signals.push({
-        signal: "Adaptive Recovery Index Decline",
-        currentValue: proprietaryMetrics.adaptiveRecoveryIndex,
-        warningThreshold: 30,
-        criticalThreshold: 15,
-        trend:
-          proprietaryMetrics.adaptiveRecoveryIndex < 40
-            ? "approaching"
-            : "stable",
-        daysToThreshold: Math.max(
-          1,
-          Math.floor((proprietaryMetrics.adaptiveRecoveryIndex - 30) / 5)
-        ),
-        suggestedPreventiveAction:
-          "Schedule additional rest days and focus on sleep quality",
-      });
-    }
+  /**
+   * Least-squares trends over recent workouts, in units per day relative to now
+   */
+  private extractWorkoutTrends(userMetrics: UserMetrics): WorkoutTrends {
+    const now = Date.now();
+    const sessions = userMetrics.recentWorkouts
+      .map((workout) => ({
+        workout,
+        day:
+          ((workout.completedAt || workout.scheduledDate).getTime() - now) /
+          (24 * 60 * 60 * 1000),
+      }))
+      .sort((a, b) => a.day - b.day);
+    const series = (value: (workout: WorkoutSession) => number | null) =>
+      fitLinearTrend(
+        sessions
+          .map(({ workout, day }) => [day, value(workout)] as const)
+          .filter((point): point is readonly [number, number] =>
+            Number.isFinite(point[1])
+          )
+      );
 
-    return signals;
-  }
+    const { weeklyConsistency, monthlyConsistency } = userMetrics.progressData;
+
+    return {
+      completion: series((w) => w.completionRate),
+      exertion: series((w) =>
+        w.exerciseResults.length > 0
+          ? w.exerciseResults.reduce((sum, r) => sum + r.perceivedExertion, 0) /
+            w.exerciseResults.length
+          : null
+      ),
+      fatigue: series((w) => w.reportedFatigue),
+      rating: series((w) => w.userRating),
+      // The monthly figure is centred roughly 12 days before the weekly one
+      consistencyPerDay: (weeklyConsistency - monthlyConsistency) / 12,
+    };
+  }
+
+  // Metrics as they would be `daysAhead` from now if current trends hold.
+  // band shifts every trend by that many standard errors towards the
+  // favourable (+) or unfavourable (-) side.
+  private projectUserMetrics(
+    userMetrics: UserMetrics,
+    trends: WorkoutTrends,
+    daysAhead: number,
+    band: number
+  ): UserMetrics {
+    const now = Date.now();
+    const project = (
+      trend: LinearTrend,
+      day: number,
+      favourable: 1 | -1,
+      min: number,
+      max: number,
+      fallback: number
+    ) => {
+      if (trend.samples === 0) return fallback;
+      const { value, standardError } = predictLinearTrend(trend, day);
+      return Math.max(
+        min,
+        Math.min(max, value + band * standardError * favourable)
+      );
+    };
+
+    const projected = this.cloneUserMetrics(userMetrics);
+    projected.recentWorkouts = projected.recentWorkouts.map((workout) => {
+      const date = workout.completedAt || workout.scheduledDate;
+      const day = (date.getTime() - now) / (24 * 60 * 60 * 1000) + daysAhead;
+      const shifted = new Date(
+        date.getTime() + daysAhead * 24 * 60 * 60 * 1000
+      );
+      const exertion = project(trends.exertion, day, -1, 1, 10, 0);
+
+      return {
+        ...workout,
+        scheduledDate: shifted,
+        completedAt: workout.completedAt ? shifted : undefined,
+        completionRate: project(
+          trends.completion,
+          day,
+          1,
+          0,
+          1,
+          workout.completionRate
+        ),
+        userRating: project(trends.rating, day, 1, 1, 10, workout.userRating),
+        reportedFatigue: project(
+          trends.fatigue,
+          day,
+          -1,
+          1,
+          10,
+          workout.reportedFatigue
+        ),
+        exerciseResults: workout.exerciseResults.map((result) => ({
+          ...result,
+          perceivedExertion: exertion || result.perceivedExertion,
+        })),
+      };
+    });
+
+    const progress = projected.progressData;
+    progress.weeklyConsistency = Math.max(
+      0,
+      Math.min(
+        1,
+        progress.weeklyConsistency + trends.consistencyPerDay * daysAhead
+      )
+    );
+    if (trends.rating.samples > 0) {
+      progress.averageRating = project(
+        trends.rating,
+        daysAhead,
+        1,
+        1,
+        10,
+        progress.averageRating
+      );
+    }
+
+    return projected;
+  }
+
+  private generateEarlyWarningSignals(
+    userMetrics: UserMetrics,
+    proprietaryMetrics: NateProprietaryMetrics,
+    trends: WorkoutTrends,
+    trajectory: TrajectoryPoint[]
+  ): EarlyWarningSignal[] {
+    const signals: EarlyWarningSignal[] = [];
+    const horizonDays = 28;
+
+    const consider = (
+      id: string,
+      signal: string,
+      currentValue: number,
+      warningThreshold: number,
+      criticalThreshold: number,
+      slopePerDay: number,
+      suggestedPreventiveAction: string
+    ) => {
+      // Lower values are worse when the critical threshold sits below the warning one
+      const worsening = warningThreshold > criticalThreshold ? -1 : 1;
+      const towards = Math.sign(slopePerDay) === worsening;
+      const trend: EarlyWarningSignal["trend"] =
+        Math.abs(slopePerDay) < 1e-3
+          ? "stable"
+          : towards
+            ? "approaching"
+            : "retreating";
+      const fired = (currentValue - warningThreshold) * worsening >= 0;
+      const daysToThreshold = fired
+        ? 0
+        : trend === "approaching"
+          ? Math.max(
+              1,
+              Math.ceil(
+                Math.abs(warningThreshold - currentValue) /
+                  Math.abs(slopePerDay)
+              )
+            )
+          : Infinity;
+
+      if (fired || daysToThreshold <= horizonDays) {
+        signals.push({
+          id,
+          signal,
+          currentValue: Math.round(currentValue * 10) / 10,
+          warningThreshold,
+          criticalThreshold,
+          trend,
+          daysToThreshold,
+          suggestedPreventiveAction,
+        });
+      }
+    };
+
+    // Falling completion while effort rises is the earliest sign of overreach
+    const completionNow = predictLinearTrend(trends.completion, 0).value;
+    if (
+      trends.completion.samples >= 3 &&
+      trends.completion.slope < 0 &&
+      trends.exertion.slope > 0
+    ) {
+      consider(
+        "completion_effort_divergence",
+        "Falling Completion With Rising Effort",
+        completionNow * 100,
+        70,
+        50,
+        trends.completion.slope * 100,
+        "Trim session volume before missed sets turn into missed sessions"
+      );
+    }
+
+    if (trends.fatigue.samples >= 3) {
+      consider(
+        "rising_fatigue",
+        "Rising Reported Fatigue",
+        predictLinearTrend(trends.fatigue, 0).value,
+        7,
+        8.5,
+        trends.fatigue.slope,
+        "Add a rest day and lower intensity for a few sessions"
+      );
+    }
+
+    if (trends.rating.samples >= 3) {
+      consider(
+        "declining_session_rating",
+        "Declining Session Ratings",
+        predictLinearTrend(trends.rating, 0).value,
+        5,
+        3,
+        trends.rating.slope,
+        "Rotate in exercises the user enjoys"
+      );
+    }
+
+    consider(
+      "consistency_drop",
+      "Weekly Consistency Drop",
+      userMetrics.progressData.weeklyConsistency * 100,
+      60,
+      40,
+      trends.consistencyPerDay * 100,
+      "Reduce sessions per week to a schedule the user can keep"
+    );
+
+    const ariNextWeek = trajectory[0]?.predictedMetrics.adaptiveRecoveryIndex;
+    consider(
+      "ari_decline",
+      "Adaptive Recovery Index Decline",
+      proprietaryMetrics.adaptiveRecoveryIndex,
+      30,
+      15,
+      ariNextWeek !== undefined
+        ? (ariNextWeek - proprietaryMetrics.adaptiveRecoveryIndex) / 7
+        : 0,
+      "Schedule additional rest days and focus on sleep quality"
+    );
+
+    return signals.sort((a, b) => a.daysToThreshold - b.daysToThreshold);
+  }
 
   private generateContingencyPlans(
     userMetrics: UserMetrics,
-    userSignature: UserSignature
+    userSignature: UserSignature,
+    signals: EarlyWarningSignal[]
   ): ContingencyPlan[] {
-    return [
-      {
-        scenario: "Motivation Crisis (score < 3)",
-        triggerConditions: [
-          "Motivation drops below 3",
-          "Missed 3+ workouts in a week",
+    const now = new Date();
+    const patches: Record<
+      string,
+      Pick<AdaptationRecommendation, "type" | "changes" | "explanation">
+    > = {
+      completion_effort_divergence: {
+        type: "volume",
+        changes: [
+          { target: "volume", adjustment: -20 },
+          { target: "intensity", adjustment: -10 },
         ],
-        immediateAction: {
-          type: "exercise_swap",
-          priority: "critical",
-          reason: "Emergency motivation intervention",
-          changes: [{ target: "exercise", adjustment: "fun_variety_focus" }],
-          duration: 3,
-          explanation: "Switching to enjoyable exercises to rebuild enthusiasm",
-        },
-        followUpActions: [],
-        successProbability: 0.75,
+        explanation:
+          "Sessions are getting harder to finish, so we're trimming volume and load until completion recovers",
       },
-    ];
+      rising_fatigue: {
+        type: "recovery",
+        changes: [
+          { target: "rest", adjustment: "+1 day" },
+          { target: "intensity", adjustment: -15 },
+        ],
+        explanation:
+          "Fatigue keeps climbing, so we're adding a rest day and easing intensity",
+      },
+      declining_session_rating: {
+        type: "exercise_swap",
+        changes: [
+          { target: "exercise", adjustment: "fun_variety_focus" },
+          { target: "volume", adjustment: -10 },
+        ],
+        explanation:
+          "Workouts are feeling less rewarding, so we're adding variety and shortening sessions",
+      },
+      consistency_drop: {
+        type: "frequency",
+        changes: [
+          ...(userMetrics.currentPlan.frequency > 2
+            ? [{ target: "frequency" as const, adjustment: -1 }]
+            : []),
+          { target: "volume", adjustment: -10 },
+        ],
+        explanation:
+          "Sessions are being missed, so we're moving to a schedule that fits your week",
+      },
+      ari_decline: {
+        type: "recovery",
+        changes: [
+          { target: "rest", adjustment: "+1 day" },
+          { target: "volume", adjustment: -25 },
+        ],
+        explanation:
+          "Your recovery capacity is dropping, so we're prioritising rest until it rebounds",
+      },
+    };
+
+    const plans: ContingencyPlan[] = signals
+      .filter((signal) => signal.id && patches[signal.id])
+      .map((signal) => {
+        const patch = patches[signal.id!];
+        const activated = signal.daysToThreshold === 0;
+        const critical =
+          signal.warningThreshold > signal.criticalThreshold
+            ? signal.currentValue <= signal.criticalThreshold
+            : signal.currentValue >= signal.criticalThreshold;
+
+        return {
+          scenario: `${signal.signal} (${signal.warningThreshold} threshold)`,
+          triggerConditions: [
+            `${signal.signal} crosses ${signal.warningThreshold}`,
+          ],
+          immediateAction: {
+            type: patch.type,
+            priority: critical ? "critical" : "high",
+            reason: `Contingency: ${signal.signal.toLowerCase()}`,
+            changes: patch.changes,
+            duration: critical ? 7 : 5,
+            explanation: patch.explanation,
+          },
+          followUpActions: [],
+          successProbability:
+            Math.round(
+              Math.max(
+                0.3,
+                Math.min(
+                  0.9,
+                  0.5 +
+                    userSignature.adaptationResponsiveness * 0.3 -
+                    (critical ? 0.1 : 0)
+                )
+              ) * 100
+            ) / 100,
+          warningSignalId: signal.id,
+          planPatch: patch.changes,
+          status: activated ? "activated" : "armed",
+          activatedAt: activated ? now : undefined,
+        };
+      });
+
+    const motivationCrisis = {
+      type: "exercise_swap" as const,
+      changes: [
+        { target: "exercise" as const, adjustment: "fun_variety_focus" },
+      ],
+    };
+    const inCrisis = userMetrics.mood.motivation < 3;
+    plans.push({
+      scenario: "Motivation Crisis (score < 3)",
+      triggerConditions: [
+        "Motivation drops below 3",
+        "Missed 3+ workouts in a week",
+      ],
+      immediateAction: {
+        ...motivationCrisis,
+        priority: "critical",
+        reason: "Emergency motivation intervention",
+        duration: 3,
+        explanation: "Switching to enjoyable exercises to rebuild enthusiasm",
+      },
+      followUpActions: [],
+      successProbability: 0.75,
+      planPatch: motivationCrisis.changes,
+      status: inCrisis ? "activated" : "armed",
+      activatedAt: inCrisis ? now : undefined,
+    });
+
+    return plans;
   }
 
   private projectOptimalTrajectory(
     userMetrics: UserMetrics,
     userSignature: UserSignature,
-    proprietaryMetrics: NateProprietaryMetrics
+    proprietaryMetrics: NateProprietaryMetrics,
+    trends: WorkoutTrends
   ): TrajectoryPoint[] {
-    // Project 4 weeks ahead
+    // Project 4 weeks ahead, with an 80% band (±1.28 standard errors)
     const trajectory: TrajectoryPoint[] = [];
+    const pick = (metrics: NateProprietaryMetrics) => ({
+      adaptiveRecoveryIndex: metrics.adaptiveRecoveryIndex,
+      engagementScore: metrics.engagementScore,
+      adherenceQuality: metrics.adherenceQuality,
+      motivationalMomentum: metrics.motivationalMomentum,
+      progressVelocity: metrics.progressVelocity,
+    });
+    const at = (week: number, band: number) =>
+      pick(
+        this.calculateProprietaryMetrics(
+          this.projectUserMetrics(userMetrics, trends, week * 7, band),
+          userSignature
+        )
+      );
+    const samples = trends.completion.samples;
 
+    let previous = pick(proprietaryMetrics);
     for (let week = 1; week <= 4; week++) {
+      const predictedMetrics = at(week, 0);
+      const lowerBound = at(week, -1.28);
+      const upperBound = at(week, 1.28);
+
+      // Narrow bands and more data points mean a more trustworthy projection
+      const keys = Object.keys(predictedMetrics) as Array<
+        keyof typeof predictedMetrics
+      >;
+      const relativeWidth =
+        keys.reduce(
+          (sum, key) => sum + Math.abs(upperBound[key] - lowerBound[key]) / 100,
+          0
+        ) / keys.length;
+      const confidenceInterval =
+        Math.round(
+          Math.max(
+            0.1,
+            Math.min(0.95, (1 - relativeWidth) * Math.min(1, samples / 6))
+          ) * 100
+        ) / 100;
+
       trajectory.push({
         week,
-        predictedMetrics: {
-          adaptiveRecoveryIndex: Math.min(
-            90,
-            proprietaryMetrics.adaptiveRecoveryIndex + week * 10
-          ),
-          engagementScore: Math.min(
-            85,
-            proprietaryMetrics.engagementScore + week * 8
-          ),
-          progressVelocity: Math.min(
-            75,
-            proprietaryMetrics.progressVelocity + week * 5
-          ),
-        },
-        confidenceInterval: 0.8 - week * 0.1,
-        keyMilestones: week === 2 ? ["Should see improved energy levels"] : [],
+        predictedMetrics,
+        confidenceInterval,
+        keyMilestones: this.describeTrajectoryMilestones(
+          previous,
+          predictedMetrics
+        ),
+        lowerBound,
+        upperBound,
       });
+      previous = predictedMetrics;
     }
 
     return trajectory;
   }
 
+  private describeTrajectoryMilestones(
+    previous: Partial<NateProprietaryMetrics>,
+    next: Partial<NateProprietaryMetrics>
+  ): string[] {
+    const thresholds: Array<[keyof NateProprietaryMetrics, string, number]> = [
+      ["adaptiveRecoveryIndex", "Adaptive Recovery Index", 30],
+      ["adaptiveRecoveryIndex", "Adaptive Recovery Index", 50],
+      ["engagementScore", "Engagement", 40],
+      ["engagementScore", "Engagement", 60],
+      ["adherenceQuality", "Adherence quality", 50],
+    ];
+    const milestones: string[] = [];
+
+    for (const [metric, label, threshold] of thresholds) {
+      const before = previous[metric];
+      const after = next[metric];
+      if (before === undefined || after === undefined) continue;
+      if (before < threshold && after >= threshold) {
+        milestones.push(`${label} projected to rise above ${threshold}`);
+      } else if (before >= threshold && after < threshold) {
+        milestones.push(`${label} projected to fall below ${threshold}`);
+      }
+    }
+
+    return milestones;
+  }
+
   private assessRisks(
     userMetrics: UserMetrics,
     userSignature: UserSignature,
-    proprietaryMetrics: NateProprietaryMetrics
+    proprietaryMetrics: NateProprietaryMetrics,
+    trends: WorkoutTrends,
+    trajectory: TrajectoryPoint[]
   ): RiskAssessment {
+    const { lifestyle, mood, progressData } = userMetrics;
+    const endOfHorizon = trajectory[trajectory.length - 1]?.lowerBound || {};
+    const probability = (score: number) =>
+      Math.round(Math.max(0.05, Math.min(0.95, score)) * 100) / 100;
+    const rising = (trend: LinearTrend) =>
+      trend.samples >= 3 ? Math.max(0, trend.slope * 7) : 0; // per week
+    const falling = (trend: LinearTrend) =>
+      trend.samples >= 3 ? Math.max(0, -trend.slope * 7) : 0;
+    const strengthGain = Object.values(progressData.strengthGains);
+    const averageGain =
+      strengthGain.length > 0
+        ? strengthGain.reduce((a, b) => a + b, 0) / strengthGain.length
+        : 0;
+
+    const plateauRisk = probability(
+      0.15 +
+        (proprietaryMetrics.progressVelocity < 20 ? 0.3 : 0) +
+        (averageGain <= 0.01 ? 0.2 : 0) +
+        rising(trends.exertion) * 0.15
+    );
+    const burnoutRisk = probability(
+      0.05 +
+        (100 -
+          (endOfHorizon.adaptiveRecoveryIndex ??
+            proprietaryMetrics.adaptiveRecoveryIndex)) /
+          200 +
+        rising(trends.fatigue) * 0.1 +
+        rising(trends.exertion) * 0.1 +
+        (lifestyle.stressLevel >= 8 ? 0.15 : 0)
+    );
+    const injuryRisk = probability(
+      0.05 +
+        (lifestyle.sleepHours < 6 ? 0.15 : 0) +
+        Math.min(0.2, userSignature.injuryRiskFactors.length * 0.1) +
+        (predictLinearTrend(trends.exertion, 0).value >= 8.5 ? 0.15 : 0) +
+        rising(trends.fatigue) * 0.1
+    );
+    const motivationDropRisk = probability(
+      0.1 +
+        (proprietaryMetrics.motivationalMomentum < 30 ? 0.3 : 0) +
+        falling(trends.rating) * 0.15 +
+        (mood.recentTrend === "declining" ? 0.2 : 0)
+    );
+    const adherenceRisk = probability(
+      0.1 +
+        falling(trends.completion) * 2 +
+        Math.max(0, -trends.consistencyPerDay * 7) * 2 +
+        (proprietaryMetrics.engagementScore < 40 ? 0.3 : 0)
+    );
+
+    const mitigations: Array<[number, string]> = [
+      [plateauRisk, "Rotate exercise variations before progress stalls"],
+      [burnoutRisk, "Protect recovery with planned deload weeks"],
+      [injuryRisk, "Cap high-effort sets and prioritise sleep"],
+      [motivationDropRisk, "Add short-term challenges and celebrate wins"],
+      [adherenceRisk, "Offer shorter fallback sessions for busy days"],
+    ];
+
     return {
-      plateauRisk: proprietaryMetrics.progressVelocity < 20 ? 0.6 : 0.2,
-      burnoutRisk: proprietaryMetrics.adaptiveRecoveryIndex < 30 ? 0.4 : 0.1,
-      injuryRisk: userMetrics.lifestyle.sleepHours < 6 ? 0.3 : 0.1,
-      motivationDropRisk:
-        proprietaryMetrics.motivationalMomentum < 30 ? 0.5 : 0.2,
-      adherenceRisk: proprietaryMetrics.engagementScore < 40 ? 0.6 : 0.2,
+      plateauRisk,
+      burnoutRisk,
+      injuryRisk,
+      motivationDropRisk,
+      adherenceRisk,
       mitigationStrategies: [
+        ...mitigations
+          .filter(([risk]) => risk >= 0.4)
+          .sort((a, b) => b[0] - a[0])
+          .map(([, strategy]) => strategy),
         "Regular check-ins on energy levels",
-        "Flexible workout scheduling",
-        "Backup exercise options for low-motivation days",
       ],
     };
   }
 
-  private async runSingleSimulation(
+  private runSingleSimulation(
     scenario: SimulationScenario,
-    recommendations: AdaptationRecommendation[]
-  ): Promise<SimulationOutcome> {
-    // Simplified simulation logic
-    let currentMetrics = { ...scenario.initialState };
-    const path: AdaptationRecommendation[] = [];
+    recommendations: AdaptationRecommendation[],
+    random: () => number
+  ): SimulationOutcome {
+    const state = this.cloneUserMetrics(scenario.initialState);
+    const baselinePlan = state.currentPlan;
+    const weeks = Math.max(1, Math.round(scenario.duration));
+    // Simulated sessions are dated from the input, not the clock, so a
+    // seed replays identical outcomes
+    const startTime = Math.max(
+      new Date(state.biometrics.lastUpdated).getTime(),
+      ...state.recentWorkouts.map((w) => new Date(w.scheduledDate).getTime())
+    );
+
+    // Constraints
+    const maxPerWeek =
+      scenario.constraints.find((c) => c.type === "max_adaptations_per_week")
+        ?.value ?? Infinity;
+    const minIntensity = scenario.constraints.find(
+      (c) => c.type === "min_intensity"
+    )?.value;
+    const maxFrequencyChange = scenario.constraints.find(
+      (c) => c.type === "max_frequency_change"
+    )?.value;
+
+    // Schedule recommendations, deferring any beyond the weekly limit
+    const scheduled = recommendations
+      .map((rec, index) => ({
+        rec,
+        startWeek: 1 + Math.floor(index / Math.max(1, maxPerWeek)),
+        weeksActive: Math.max(1, Math.ceil(rec.duration / 7)),
+      }))
+      .filter((entry) => entry.startWeek <= weeks);
+
+    const path = scheduled.map((entry) => entry.rec);
     const eventsOccurred: string[] = [];
+    const activeEvents: { factor: StochasticFactor; weeksLeft: number }[] = [];
+
+    let fatigue =
+      state.recentWorkouts.length > 0
+        ? state.recentWorkouts
+            .slice(-3)
+            .reduce((sum, w) => sum + w.reportedFatigue, 0) /
+          Math.min(3, state.recentWorkouts.length)
+        : 5;
+    let plan = baselinePlan;
+    let progress = 0;
+    let totalScheduled = 0;
+    let totalCompleted = 0;
+    const weeklyRatings: number[] = [];
+
+    for (let week = 1; week <= weeks; week++) {
+      // Random events start and run for their duration
+      for (const factor of scenario.stochasticFactors) {
+        const alreadyActive = activeEvents.some((e) => e.factor === factor);
+        if (!alreadyActive && random() < factor.probability) {
+          activeEvents.push({
+            factor,
+            weeksLeft: Math.max(1, factor.duration),
+          });
+          eventsOccurred.push(factor.event);
+        }
+      }
 
-    // Apply recommendations and simulate effects
-    for (const rec of recommendations) {
-      path.push(rec);
-      // Simulate positive effects of recommendations
-      if (rec.type === "recovery") {
-        currentMetrics.lifestyle.sleepQuality = Math.min(
+      const lifestyle = activeEvents.reduce(
+        (current, e) => ({ ...current, ...e.factor.impact.lifestyle }),
+        state.lifestyle
+      );
+      const mood = activeEvents.reduce(
+        (current, e) => ({ ...current, ...e.factor.impact.mood }),
+        state.mood
+      );
+
+      // Plan for this week = baseline + recommendations currently active
+      const active = scheduled.filter(
+        (entry) =>
+          week >= entry.startWeek && week < entry.startWeek + entry.weeksActive
+      );
+      plan = active.reduce(
+        (current, entry) => this.applyChanges(current, entry.rec, [], []),
+        { ...baselinePlan }
+      );
+      if (minIntensity !== undefined) {
+        plan.intensity = Math.max(minIntensity, plan.intensity);
+      }
+      if (maxFrequencyChange !== undefined) {
+        plan.frequency = Math.max(
+          baselinePlan.frequency - maxFrequencyChange,
+          Math.min(baselinePlan.frequency + maxFrequencyChange, plan.frequency)
+        );
+      }
+
+      // Recovery capacity and training load drive fatigue
+      const recovery = Math.max(
+        0,
+        Math.min(
+          1,
+          ((lifestyle.sleepHours / 8) * (lifestyle.sleepQuality / 10) +
+            (10 - lifestyle.stressLevel) / 10 +
+            (10 - lifestyle.workload) / 10) /
+            3
+        )
+      );
+      const load =
+        (plan.intensity / 10) *
+        (plan.frequency / 7) *
+        Math.sqrt(plan.volume / Math.max(1, baselinePlan.volume));
+      fatigue = Math.max(
+        1,
+        Math.min(
+          10,
+          fatigue * 0.5 + load * 12 * (1.3 - recovery) + (random() - 0.5)
+        )
+      );
+
+      // Each scheduled session is attended with an adherence probability
+      const adherenceProbability = Math.max(
+        0.05,
+        Math.min(
+          0.98,
+          0.35 +
+            0.4 * state.progressData.weeklyConsistency +
+            0.05 * (mood.motivation - 5) -
+            0.04 * Math.max(0, fatigue - 6) -
+            0.03 * Math.max(0, lifestyle.stressLevel - 6)
+        )
+      );
+      const sessions = Math.max(1, Math.round(plan.frequency));
+      let completed = 0;
+      for (let session = 0; session < sessions; session++) {
+        if (random() < adherenceProbability) completed++;
+      }
+      const completion = completed / sessions;
+
+      // Productive stimulus needs recovery; overreaching halves it
+      progress +=
+        completed * (plan.intensity / 10) * recovery * (fatigue > 8 ? 0.5 : 1);
+
+      const rating = Math.max(
+        1,
+        Math.min(
+          10,
+          5 +
+            (completion - 0.5) * 4 +
+            (mood.motivation - 5) * 0.3 -
+            Math.max(0, fatigue - 6) * 0.5
+        )
+      );
+      weeklyRatings.push(rating);
+
+      // Carry the week forward into the user's state
+      state.mood.motivation = Math.max(
+        1,
+        Math.min(
+          10,
+          state.mood.motivation +
+            (completion - 0.6) * 1.5 -
+            Math.max(0, fatigue - 7) * 0.3 +
+            (random() - 0.5) * 0.6
+        )
+      );
+      if (
+        active.some(
+          (entry) =>
+            entry.rec.type === "recovery" || entry.rec.type === "rest_day"
+        )
+      ) {
+        state.lifestyle.sleepQuality = Math.min(
           10,
-          currentMetrics.lifestyle.sleepQuality + 1
+          state.lifestyle.sleepQuality + 0.5
         );
       }
-    }
+      state.progressData.weeklyConsistency =
+        state.progressData.weeklyConsistency * 0.6 + completion * 0.4;
+      state.progressData.totalWorkouts += completed;
+      state.progressData.streak =
+        completed > 0 ? state.progressData.streak + completed : 0;
+      state.progressData.averageRating =
+        state.progressData.averageRating * 0.7 + rating * 0.3;
+      for (let session = 0; session < completed; session++) {
+        state.recentWorkouts.push({
+          id: `sim-w${week}-s${session + 1}`,
+          planId: plan.id,
+          scheduledDate: new Date(startTime + week * 7 * 24 * 60 * 60 * 1000),
+          completionRate: 1,
+          userRating: rating,
+          reportedFatigue: fatigue,
+          exerciseResults: [],
+        });
+      }
 
-    // Simulate random events
-    for (const factor of scenario.stochasticFactors) {
-      if (Math.random() < factor.probability) {
-        eventsOccurred.push(factor.event);
-        // Apply impact (simplified)
-        if (factor.impact.lifestyle) {
-          currentMetrics.lifestyle = {
-            ...currentMetrics.lifestyle,
-            ...factor.impact.lifestyle,
-          };
-        }
+      totalScheduled += sessions;
+      totalCompleted += completed;
+      activeEvents.forEach((e) => e.weeksLeft--);
+      for (let i = activeEvents.length - 1; i >= 0; i--) {
+        if (activeEvents[i].weeksLeft <= 0) activeEvents.splice(i, 1);
       }
     }
 
+    state.currentPlan = plan;
+    state.recentWorkouts = state.recentWorkouts.slice(-20);
+
+    // A full-adherence week at intensity 7 and recovery 0.75 scores 100
+    const referenceStimulus =
+      weeks * Math.max(1, baselinePlan.frequency) * 0.7 * 0.75;
+    const progressScore = Math.round(
+      Math.min(100, (progress / referenceStimulus) * 100)
+    );
+    const adherenceRate =
+      totalScheduled > 0 ? totalCompleted / totalScheduled : 0;
+    const totalCost = path.reduce(
+      (sum, rec) => sum + rec.changes.length * 10,
+      0
+    );
+
     return {
       path,
-      finalMetrics: currentMetrics,
-      userSatisfactionScore: 7.5, // Simulated
-      adherenceRate: 0.8, // Simulated
-      progressScore: 75, // Simulated
-      adaptationEfficiency: 0.85, // Simulated
+      finalMetrics: state,
+      userSatisfactionScore:
+        Math.round(
+          (weeklyRatings.reduce((sum, r) => sum + r, 0) /
+            weeklyRatings.length) *
+            10
+        ) / 10,
+      adherenceRate,
+      progressScore,
+      adaptationEfficiency:
+        Math.round((progressScore / 100 / (1 + totalCost / 100)) * 100) / 100,
       eventsThatOccurred: eventsOccurred,
-      totalCost: recommendations.length * 10, // Complexity score
+      totalCost,
+    };
+  }
+
+  private cloneUserMetrics(userMetrics: UserMetrics): UserMetrics {
+    return {
+      ...userMetrics,
+      currentPlan: {
+        ...userMetrics.currentPlan,
+        exercises: userMetrics.currentPlan.exercises.map((e) => ({ ...e })),
+      },
+      recentWorkouts: userMetrics.recentWorkouts.map((w) => ({ ...w })),
+      progressData: {
+        ...userMetrics.progressData,
+        strengthGains: { ...userMetrics.progressData.strengthGains },
+        cardioGains: { ...userMetrics.progressData.cardioGains },
+      },
+      biometrics: { ...userMetrics.biometrics },
+      lifestyle: { ...userMetrics.lifestyle },
+      mood: { ...userMetrics.mood },
+    };
+  }
+
+  private applyMetricOverrides(
+    userMetrics: UserMetrics,
+    overrides: UserMetricsOverrides
+  ): UserMetrics {
+    const patched = this.cloneUserMetrics(userMetrics);
+
+    return {
+      ...patched,
+      currentPlan: { ...patched.currentPlan, ...overrides.currentPlan },
+      recentWorkouts: overrides.recentWorkouts
+        ? overrides.recentWorkouts.map((w) => ({ ...w }))
+        : patched.recentWorkouts,
+      progressData: { ...patched.progressData, ...overrides.progressData },
+      biometrics: { ...patched.biometrics, ...overrides.biometrics },
+      lifestyle: { ...patched.lifestyle, ...overrides.lifestyle },
+      mood: { ...patched.mood, ...overrides.mood },
     };
   }
 
+  private diffRecommendations(
+    baseline: AdaptationRecommendation[],
+    scenario: AdaptationRecommendation[]
+  ): RecommendationDiff {
+    const keyOf = (rec: AdaptationRecommendation) =>
+      `${rec.ruleId || "chained"}:${rec.type}`;
+    const baselineByKey = new Map(baseline.map((rec) => [keyOf(rec), rec]));
+    const scenarioKeys = new Set(scenario.map(keyOf));
+
+    const diff: RecommendationDiff = {
+      added: [],
+      removed: baseline.filter((rec) => !scenarioKeys.has(keyOf(rec))),
+      changed: [],
+    };
+
+    for (const after of scenario) {
+      const before = baselineByKey.get(keyOf(after));
+      if (!before) {
+        diff.added.push(after);
+        continue;
+      }
+
+      const differences: string[] = [];
+      if (before.priority !== after.priority) {
+        differences.push(`priority ${before.priority} -> ${after.priority}`);
+      }
+      if (before.duration !== after.duration) {
+        differences.push(
+          `duration ${before.duration} -> ${after.duration} days`
+        );
+      }
+      if (JSON.stringify(before.changes) !== JSON.stringify(after.changes)) {
+        differences.push("plan changes differ");
+      }
+      if (differences.length > 0) {
+        diff.changed.push({ before, after, differences });
+      }
+    }
+
+    return diff;
+  }
+
+  private diffExplanationFactors(
+    baseline: ExplanationFactor[],
+    scenario: ExplanationFactor[]
+  ): ExplanationFactorChange[] {
+    const metrics = new Set([
+      ...baseline.map((f) => f.metric),
+      ...scenario.map((f) => f.metric),
+    ]);
+
+    return Array.from(metrics)
+      .map((metric) => ({
+        metric,
+        before: baseline.find((f) => f.metric === metric),
+        after: scenario.find((f) => f.metric === metric),
+      }))
+      .filter(
+        ({ before, after }) =>
+          !before ||
+          !after ||
+          before.value !== after.value ||
+          before.impact !== after.impact ||
+          before.trend !== after.trend
+      );
+  }
+
   private calculateSimulationConfidence(outcomes: SimulationOutcome[]): number {
     // Calculate variance in outcomes to determine confidence
     const scores = outcomes.map((o) => o.progressScore);
@@ -1306,14 +3720,17 @@ export class AdaptationEngine {
 
   private generateSimulationCacheKey(
     userMetrics: UserMetrics,
-    recommendations: AdaptationRecommendation[]
+    recommendations: AdaptationRecommendation[],
+    perUser = true
   ): string {
     const metricsHash = JSON.stringify({
       fatigue: userMetrics.lifestyle.stressLevel,
       engagement: userMetrics.progressData.weeklyConsistency,
     });
     const recHash = recommendations.map((r) => r.type).join("-");
-    return `${userMetrics.userId}-${metricsHash}-${recHash}`;
+    return perUser
+      ? `${userMetrics.userId}-${metricsHash}-${recHash}`
+      : `${metricsHash}-${recHash}`;
   }
 
   private extractFeaturesForML(
@@ -1328,32 +3745,40 @@ export class AdaptationEngine {
       motivation_score: userMetrics.mood.motivation,
       sleep_quality: userMetrics.lifestyle.sleepQuality,
       stress_level: userMetrics.lifestyle.stressLevel,
+      historical_effectiveness:
+        this.calculateAdaptationEfficiency(userMetrics.userId) / 100,
     };
   }
 
   private applyMlFineTuning(
-    recommendations: AdaptationRecommendation[],
+    recommendation: AdaptationRecommendation,
     mlPrediction: MLPrediction
   ): void {
-    // Apply ML fine-tuning to recommendations
-    for (const rec of recommendations) {
-      if (rec.type === mlPrediction.recommendationType) {
-        for (const [param, adjustment] of Object.entries(
-          mlPrediction.parameterAdjustments
-        )) {
-          if (param === "intensity_change") {
-            const change = rec.changes.find((c) => c.target === "intensity");
-            if (change && typeof change.adjustment === "number") {
-              change.adjustment = adjustment;
-            }
-          }
-          if (param === "duration") {
-            rec.duration = Math.round(adjustment);
-          }
+    // Blend the model's parameters into the rule's, weighted by confidence
+    const weight = mlPrediction.confidence;
+    const blend = (ruleValue: number, mlValue: number) =>
+      ruleValue * (1 - weight) + mlValue * weight;
+
+    for (const [param, adjustment] of Object.entries(
+      mlPrediction.parameterAdjustments
+    )) {
+      if (param === "intensity_change") {
+        const change = recommendation.changes.find(
+          (c) => c.target === "intensity"
+        );
+        if (change && typeof change.adjustment === "number") {
+          change.adjustment =
+            Math.round(blend(change.adjustment, adjustment) * 10) / 10;
         }
-        rec.explanation += ` (ML-optimized: ${mlPrediction.explanation})`;
+      }
+      if (param === "duration") {
+        recommendation.duration = Math.max(
+          1,
+          Math.round(blend(recommendation.duration, adjustment))
+        );
       }
     }
+    recommendation.explanation += ` (ML-optimized: ${mlPrediction.explanation})`;
   }
 
   private async recordAnalysisForLearning(
@@ -1363,34 +3788,77 @@ export class AdaptationEngine {
     ruleSetVersion: string
   ): Promise<void> {
     // Record this analysis for future ML training
-    if (recommendations.length > 0) {
-      const trainingData: MLTrainingData = {
-        userId: userMetrics.userId,
-        inputFeatures: this.extractFeaturesForML(
-          userMetrics,
-          this.calculateProprietaryMetrics(
-            userMetrics,
-            this.getUserSignature(userMetrics.userId)
-          )
-        ),
-        targetOutcome: {
-          adherenceChange: 0, // Will be filled when we get actual outcome
-          motivationChange: 0,
-          performanceChange: 0,
-          behaviorChange: "pending",
-          followUpRequired: false,
-          unexpectedEffects: [],
-        },
+    if (recommendations.length === 0) return;
+
+    const userId = userMetrics.userId;
+    const inputFeatures = this.extractFeaturesForML(
+      userMetrics,
+      this.calculateProprietaryMetrics(
+        userMetrics,
+        this.getUserSignature(userId)
+      )
+    );
+    const triggeredRules = Array.from(
+      new Set(
+        recommendations
+          .map((rec) => rec.ruleId)
+          .filter((ruleId): ruleId is string => !!ruleId)
+      )
+    );
+    const history = this.adaptationHistory.get(userId) || [];
+    const timestamp = new Date();
+    const samples: MLTrainingData[] = [];
+
+    recommendations.forEach((recommendation, index) => {
+      const adaptationId = `adapt-${userId}-${timestamp.getTime()}-${index}`;
+      recommendation.adaptationId = adaptationId;
+
+      const adaptation: AdaptationHistory = {
+        id: adaptationId,
+        userId,
+        timestamp,
+        triggeredRules,
+        recommendation,
+        userResponse: this.createPendingOutcome(),
+        contextSnapshot: this.cloneUserMetrics(userMetrics),
+        effectiveness: 0,
+        durationEffective: 0,
+        userSatisfaction: 0,
+        longTermImpact: 0,
+        ruleSetVersion,
+      };
+      history.push(adaptation);
+      this.adaptationsById.set(adaptationId, adaptation);
+
+      samples.push({
+        userId,
+        adaptationId,
+        inputFeatures,
+        targetOutcome: this.createPendingOutcome(), // filled in by recordAdaptationOutcome
         contextMetadata: {
           userSegment: "general", // Would be more sophisticated
-          timeOfYear: new Date().toISOString().substring(0, 7),
+          timeOfYear: timestamp.toISOString().substring(0, 7),
           ruleSetVersion,
         },
         validationWeight: explanation.confidence,
-      };
+      });
+    });
 
-      this.mlTrainingData.push(trainingData);
-    }
+    this.mlTrainingData.push(...samples);
+    this.adaptationHistory.set(userId, history);
+    this.persist((provider) => provider.saveAdaptationHistory(userId, history));
+    this.persist((provider) => provider.appendTrainingData(samples));
+  }
+
+  private createPendingOutcome(): AdaptationOutcome {
+    return {
+      adherenceChange: 0,
+      motivationChange: 0,
+      performanceChange: 0,
+      behaviorChange: "pending",
+      followUpRequired: false,
+      unexpectedEffects: [],
+    };
   }
 
   /**
@@ -1407,7 +3875,7 @@ export class AdaptationEngine {
     const signature = this.getUserSignature(userId);
     const history = this.adaptationHistory.get(userId) || [];
     const ruleSetVersion = this.getRuleSetVersionForUser(userId);
-    const testGroup = this.userTestGroups.get(userId);
+    const testGroup = this.getExperimentAssignment(userId).testGroup;
 
     return {
       signature,
@@ -1423,8 +3891,26 @@ export class AdaptationEngine {
    * 🚀 ENHANCED: Main adaptation method with rule chaining & contextual layering
    */
   analyze(userMetrics: UserMetrics): AdaptationRecommendation[] {
-    // Get or create user signature
-    const userSignature = this.getUserSignature(userMetrics.userId);
+    return this.runRulePipeline(userMetrics, {
+      dryRun: false,
+      userSignature: this.getUserSignature(userMetrics.userId),
+      ruleSetVersion: this.getRuleSetVersionForUser(userMetrics.userId),
+    });
+  }
+
+  private runRulePipeline(
+    userMetrics: UserMetrics,
+    options: {
+      dryRun: boolean;
+      userSignature: UserSignature;
+      ruleSetVersion: string;
+      activeRules?: AdaptationRule[]; // overrides the version's registered rules
+      asOf?: Date;
+      guardrailAudit?: GuardrailAuditEntry[];
+      conflicts?: RecommendationConflict[];
+    }
+  ): AdaptationRecommendation[] {
+    const { userSignature } = options;
 
     // Calculate Nate's proprietary metrics
     const proprietaryMetrics = this.calculateProprietaryMetrics(
@@ -1436,13 +3922,16 @@ export class AdaptationEngine {
     const baseRecommendations: AdaptationRecommendation[] = [];
     const triggeredRules: AdaptationRule[] = [];
 
-    for (const rule of this.rules) {
+    const rules =
+      options.activeRules || this.getActiveRules(options.ruleSetVersion);
+    for (const rule of rules) {
       const recommendation = rule.evaluate(
         userMetrics,
         userSignature,
         proprietaryMetrics
       );
       if (recommendation) {
+        recommendation.ruleId = recommendation.ruleId || rule.id;
         baseRecommendations.push(recommendation);
         triggeredRules.push(rule);
       }
@@ -1455,7 +3944,8 @@ export class AdaptationEngine {
     );
     const chainedRecommendations = this.applyRuleChaining(
       baseRecommendations,
-      ruleContext
+      ruleContext,
+      userMetrics
     );
 
     // Phase 3: Apply user signature learning
@@ -1478,13 +3968,31 @@ export class AdaptationEngine {
     );
 
     // Update user signature based on current analysis
-    this.updateUserSignature(
-      userMetrics.userId,
-      userMetrics,
-      proprietaryMetrics
+    if (!options.dryRun) {
+      this.updateUserSignature(
+        userMetrics.userId,
+        userMetrics,
+        proprietaryMetrics
+      );
+    }
+
+    // Phase 6: Resolve recommendations that pull the plan in opposite directions
+    const resolved = this.conflictResolver.resolve(
+      weightedRecommendations,
+      this.ruleWeights,
+      this.ruleInteractions
     );
+    options.conflicts?.push(...resolved.conflicts);
 
-    return this.finalizeRecommendations(weightedRecommendations);
+    // Phase 7: Safety guardrails on the combined output
+    return this.enforceGuardrails(
+      this.finalizeRecommendations(resolved.recommendations),
+      userMetrics,
+      userSignature,
+      options.dryRun,
+      options.guardrailAudit,
+      options.asOf
+    );
   }
 
   /**
@@ -1565,7 +4073,7 @@ export class AdaptationEngine {
     triggeredRules: AdaptationRule[],
     userMetrics: UserMetrics
   ): RuleContext {
-    const ruleNames = triggeredRules.map((rule) => rule.constructor.name);
+    const ruleNames = triggeredRules.map((rule) => rule.id);
     const applicableInteractions = this.ruleInteractions.filter((interaction) =>
       interaction.rules.every((ruleName) => ruleNames.includes(ruleName))
     );
@@ -1574,7 +4082,8 @@ export class AdaptationEngine {
     const contextualFactors: string[] = [];
     let emergentStrategy: string | undefined;
 
-    // Check for critical compound conditions
+    // Compound conditions in precedence order: recovery before progression,
+    // so the first matching strategy wins
     if (ruleNames.includes("FatigueRule") && ruleNames.includes("StressRule")) {
       compoundPriority = "critical";
       emergentStrategy = "comprehensive_recovery_protocol";
@@ -1585,8 +4094,8 @@ export class AdaptationEngine {
       ruleNames.includes("PlateauRule") &&
       ruleNames.includes("ConsistencyRule")
     ) {
-      compoundPriority = "high";
-      emergentStrategy = "simplified_progression_plan";
+      if (compoundPriority !== "critical") compoundPriority = "high";
+      emergentStrategy = emergentStrategy || "simplified_progression_plan";
       contextualFactors.push("plateau_consistency_issue");
     }
 
@@ -1594,7 +4103,7 @@ export class AdaptationEngine {
       ruleNames.includes("MotivationRule") &&
       ruleNames.includes("ProgressiveOverloadRule")
     ) {
-      emergentStrategy = "gamified_progression_system";
+      emergentStrategy = emergentStrategy || "gamified_progression_system";
       contextualFactors.push("motivation_progression_synergy");
     }
 
@@ -1612,7 +4121,8 @@ export class AdaptationEngine {
    */
   private applyRuleChaining(
     recommendations: AdaptationRecommendation[],
-    context: RuleContext
+    context: RuleContext,
+    userMetrics: UserMetrics
   ): AdaptationRecommendation[] {
     if (!context.emergentStrategy) {
       return recommendations;
@@ -1623,14 +4133,23 @@ export class AdaptationEngine {
       case "comprehensive_recovery_protocol":
         return this.createComprehensiveRecoveryProtocol(
           recommendations,
-          context
+          context,
+          userMetrics
         );
 
       case "simplified_progression_plan":
-        return this.createSimplifiedProgressionPlan(recommendations, context);
+        return this.createSimplifiedProgressionPlan(
+          recommendations,
+          context,
+          userMetrics
+        );
 
       case "gamified_progression_system":
-        return this.createGamifiedProgressionSystem(recommendations, context);
+        return this.createGamifiedProgressionSystem(
+          recommendations,
+          context,
+          userMetrics
+        );
 
       default:
         return recommendations;
@@ -1646,11 +4165,21 @@ export class AdaptationEngine {
     if (!signature) {
       signature = this.createDefaultUserSignature(userId);
       this.userSignatures.set(userId, signature);
+      const created = signature;
+      this.persist((provider) => provider.saveUserSignature(created));
     }
 
     return signature;
   }
 
+  // A private copy of the user's signature, created on the fly if missing
+  private peekUserSignature(userId: string): UserSignature {
+    const signature = this.userSignatures.get(userId);
+    return signature
+      ? structuredClone(signature)
+      : this.createDefaultUserSignature(userId);
+  }
+
   /**
    * 3️⃣ Filter Based on Plan Evolution History
    */
@@ -1659,18 +4188,22 @@ export class AdaptationEngine {
     userId: string
   ): AdaptationRecommendation[] {
     const history = this.adaptationHistory.get(userId) || [];
+    const planTree = this.getUserPlanLineages(userId);
 
-    // Get failed strategies from history
-    const failedStrategies = history
-      .filter((h) => h.effectiveness < 0.3)
-      .map((h) => h.recommendation.type);
+    // Get failed strategies from the plan tree, or raw outcomes without one
+    const failedStrategies =
+      planTree.length > 0
+        ? this.summarizeLineages(planTree).failedStrategies
+        : history
+            .filter((h) => h.outcomeRecordedAt && h.effectiveness < 0.3)
+            .map((h) => h.recommendation.type);
 
-    // Get recently tried strategies (avoid repeating too soon)
+    // Get recently applied strategies (avoid repeating too soon)
     const recentStrategies = history
       .filter((h) => {
         const daysSince =
           (Date.now() - h.timestamp.getTime()) / (1000 * 60 * 60 * 24);
-        return daysSince < 7;
+        return h.appliedPlanId && daysSince < 7;
       })
       .map((h) => h.recommendation.type);
 
@@ -1694,12 +4227,13 @@ export class AdaptationEngine {
     userMetrics: UserMetrics
   ): AdaptationRecommendation[] {
     return recommendations.map((rec) => {
-      const weights = this.ruleWeights.get(rec.type);
+      const ruleKey = rec.ruleId || rec.type;
+      const weights = this.ruleWeights.get(ruleKey);
       if (!weights) return rec;
 
       // Adjust priority based on historical effectiveness
       const effectivenessRate =
-        this.analytics.ruleEffectivenessRates[rec.type] || 0.5;
+        this.analytics.ruleEffectivenessRates[ruleKey] ?? 0.5;
 
       if (effectivenessRate > 0.8 && rec.priority !== "critical") {
         rec.priority = this.upgradePriority(rec.priority);
@@ -1712,20 +4246,74 @@ export class AdaptationEngine {
   }
 
   /**
-   * Record Adaptation Outcome for Learning
+   * Record Adaptation Outcome for Learning. Fills in the training sample,
+   * updates rule weights, analytics and the user's signature.
    */
+  async recordAdaptationOutcome(
+    adaptationId: string,
+    outcome: AdaptationOutcome
+  ): Promise<AdaptationHistory | null>;
   async recordAdaptationOutcome(
     userId: string,
     adaptationId: string,
     outcome: AdaptationOutcome
-  ): Promise<void> {
+  ): Promise<AdaptationHistory | null>;
+  async recordAdaptationOutcome(
+    idOrUserId: string,
+    adaptationIdOrOutcome: string | AdaptationOutcome,
+    maybeOutcome?: AdaptationOutcome
+  ): Promise<AdaptationHistory | null> {
+    const adaptationId =
+      typeof adaptationIdOrOutcome === "string"
+        ? adaptationIdOrOutcome
+        : idOrUserId;
+    const outcome =
+      typeof adaptationIdOrOutcome === "string"
+        ? maybeOutcome!
+        : adaptationIdOrOutcome;
+
+    const adaptation = this.findAdaptation(adaptationId);
+    if (!adaptation) return null;
+
+    const userId = adaptation.userId;
     const history = this.adaptationHistory.get(userId) || [];
-    const adaptation = history.find((h) => h.id === adaptationId);
+    const firstOutcome = !adaptation.outcomeRecordedAt;
+    const daysSince =
+      (Date.now() - adaptation.timestamp.getTime()) / (1000 * 60 * 60 * 24);
+
+    adaptation.userResponse = outcome;
+    adaptation.effectiveness = this.calculateEffectiveness(outcome);
+    adaptation.userSatisfaction = outcome.satisfactionRating ?? 0;
+    if (!adaptation.appliedPlanId || !adaptation.durationEffective) {
+      adaptation.durationEffective = Math.round(daysSince);
+    }
+    if (daysSince >= 30) {
+      adaptation.longTermImpact = adaptation.effectiveness;
+    }
+    adaptation.outcomeRecordedAt = new Date();
 
-    if (adaptation) {
-      adaptation.userResponse = outcome;
-      adaptation.effectiveness = this.calculateEffectiveness(outcome);
+    // Fill in the pending training sample
+    const trainingSample = this.mlTrainingData.find(
+      (sample) => sample.adaptationId === adaptationId
+    );
+    if (trainingSample) {
+      trainingSample.targetOutcome = outcome;
+      this.persist((provider) => provider.updateTrainingSample(trainingSample));
+    }
+
+    // Attribute the outcome to the rule set version for A/B analysis
+    if (firstOutcome) {
+      this.recordRuleSetOutcome(
+        adaptation.ruleSetVersion || this.getRuleSetVersionForUser(userId),
+        {
+          effectiveness: adaptation.effectiveness,
+          userSatisfaction: outcome.satisfactionRating,
+        }
+      );
+    }
 
+    // Learning updates only count each adaptation once
+    if (firstOutcome) {
       // Update analytics
       await this.updateAnalytics(adaptation);
 
@@ -1735,6 +4323,18 @@ export class AdaptationEngine {
       // Update user signature based on outcome
       await this.updateUserSignatureFromOutcome(userId, adaptation, outcome);
     }
+
+    if (adaptation.appliedPlanId) {
+      this.refreshLineage(adaptation.appliedPlanId);
+    }
+
+    this.persist((provider) => provider.saveAdaptationHistory(userId, history));
+
+    return adaptation;
+  }
+
+  private findAdaptation(adaptationId: string): AdaptationHistory | undefined {
+    return this.adaptationsById.get(adaptationId);
   }
 
   /**
@@ -1872,7 +4472,9 @@ export class AdaptationEngine {
   }
 
   private calculateAdaptationEfficiency(userId: string): number {
-    const history = this.adaptationHistory.get(userId) || [];
+    const history = (this.adaptationHistory.get(userId) || []).filter(
+      (h) => h.outcomeRecordedAt
+    );
     if (history.length === 0) return 50;
 
     const effectiveAdaptations = history.filter(
@@ -1932,6 +4534,7 @@ export class AdaptationEngine {
     }
 
     this.userSignatures.set(userId, signature);
+    this.persist((provider) => provider.saveUserSignature(signature));
   }
 
   private initializeRuleInteractions(): void {
@@ -1987,10 +4590,14 @@ export class AdaptationEngine {
       lastUpdated: new Date(),
     };
 
-    this.rules.forEach((rule) => {
-      this.ruleWeights.set(rule.constructor.name, {
+    const baseWeights =
+      this.ruleSetVersions.get(this.currentRuleSetVersion)?.ruleWeights || {};
+
+    this.rules.forEach((rule, ruleId) => {
+      this.ruleWeights.set(ruleId, {
         ...defaultWeight,
-        ruleName: rule.constructor.name,
+        ruleName: ruleId,
+        baseWeight: baseWeights[ruleId] ?? defaultWeight.baseWeight,
       });
     });
   }
@@ -2004,182 +4611,2340 @@ export class AdaptationEngine {
     return recommendations; // Implementation would personalize based on signature
   }
 
-  private finalizeRecommendations(
-    recommendations: AdaptationRecommendation[]
-  ): AdaptationRecommendation[] {
-    return recommendations.sort((a, b) => {
-      const priorityOrder = { critical: 4, high: 3, medium: 2, low: 1 };
-      return priorityOrder[b.priority] - priorityOrder[a.priority];
-    });
-  }
+  private finalizeRecommendations(
+    recommendations: AdaptationRecommendation[]
+  ): AdaptationRecommendation[] {
+    return recommendations.sort((a, b) => {
+      const priorityOrder = { critical: 4, high: 3, medium: 2, low: 1 };
+      return priorityOrder[b.priority] - priorityOrder[a.priority];
+    });
+  }
+
+  /**
+   * Safety Guardrails - clamp combined changes and keep an audit trail
+   */
+  configureGuardrails(config: Partial<GuardrailConfig>): GuardrailConfig {
+    return this.guardrails.configure(config);
+  }
+
+  getGuardrailAudit(userId: string): GuardrailAuditEntry[] {
+    return [...(this.guardrailAudit.get(userId) || [])];
+  }
+
+  private enforceGuardrails(
+    recommendations: AdaptationRecommendation[],
+    userMetrics: UserMetrics,
+    userSignature: UserSignature,
+    dryRun: boolean,
+    collector?: GuardrailAuditEntry[],
+    asOf: Date = new Date()
+  ): AdaptationRecommendation[] {
+    return this.enforceGuardrailsOn(
+      recommendations,
+      {
+        userId: userMetrics.userId,
+        plan: userMetrics.currentPlan,
+        injuryRiskFactors: userSignature.injuryRiskFactors,
+        recentWorkouts: userMetrics.recentWorkouts,
+      },
+      dryRun,
+      collector,
+      asOf
+    );
+  }
+
+  private enforceGuardrailsOn(
+    recommendations: AdaptationRecommendation[],
+    subject: GuardrailSubject,
+    dryRun: boolean,
+    collector?: GuardrailAuditEntry[],
+    asOf: Date = new Date()
+  ): AdaptationRecommendation[] {
+    const result = this.guardrails.enforce(
+      recommendations,
+      subject,
+      this.getWeeklyPlanChanges(subject.userId, asOf),
+      asOf
+    );
+
+    collector?.push(...result.audit);
+    if (!dryRun && subject.userId && result.audit.length > 0) {
+      const log = this.guardrailAudit.get(subject.userId) || [];
+      this.guardrailAudit.set(
+        subject.userId,
+        [...log, ...result.audit].slice(-200)
+      );
+    }
+
+    return result.recommendations;
+  }
+
+  /**
+   * Guardrails for recommendations applied or scheduled directly against a
+   * plan. The owner comes from the caller, the plan's lineage or the
+   * recommendations' history; an unknown owner gets no weekly history and no
+   * audit log. No workout sessions are known here, so the high-intensity rest
+   * check only runs during analysis.
+   */
+  private guardPlanChanges(
+    plan: WorkoutPlan,
+    recommendations: AdaptationRecommendation[],
+    userId?: string,
+    asOf: Date = new Date()
+  ): {
+    recommendations: AdaptationRecommendation[];
+    audit: GuardrailAuditEntry[];
+  } {
+    const ownerId =
+      userId ||
+      this.planLineages.get(plan.id)?.userId ||
+      recommendations
+        .map((rec) =>
+          rec.adaptationId ? this.findAdaptation(rec.adaptationId) : undefined
+        )
+        .find((adaptation) => adaptation !== undefined)?.userId ||
+      "";
+    const audit: GuardrailAuditEntry[] = [];
+    const guarded = this.enforceGuardrailsOn(
+      recommendations,
+      {
+        userId: ownerId,
+        plan,
+        injuryRiskFactors:
+          this.userSignatures.get(ownerId)?.injuryRiskFactors || [],
+        recentWorkouts: [],
+      },
+      false,
+      audit,
+      asOf
+    );
+    return { recommendations: guarded, audit };
+  }
+
+  // Net plan change from adaptations applied in the 7 days before asOf
+  private getWeeklyPlanChanges(
+    userId: string,
+    asOf: Date = new Date()
+  ): WeeklyPlanChanges {
+    const totals: WeeklyPlanChanges = {
+      intensity: 0,
+      volume: 0,
+      frequency: 0,
+      exercises: {},
+    };
+    const cutoff = asOf.getTime() - 7 * 24 * 60 * 60 * 1000;
+
+    for (const adaptation of this.adaptationHistory.get(userId) || []) {
+      const time = adaptation.timestamp.getTime();
+      if (
+        !adaptation.appliedPlanId ||
+        time < cutoff ||
+        time >= asOf.getTime()
+      ) {
+        continue;
+      }
+      for (const change of adaptation.recommendation.changes) {
+        if (change.target === "rest") {
+          totals.frequency -= parseRestDayAdjustment(change.adjustment) ?? 0;
+        } else if (typeof change.adjustment !== "number") {
+          continue;
+        } else if (change.target !== "exercise") {
+          totals[change.target] += change.adjustment;
+        } else if (change.exerciseField) {
+          const exercises = totals.exercises!;
+          for (const id of change.exerciseIds || ["*"]) {
+            const key = `${id}.${change.exerciseField}`;
+            exercises[key] = (exercises[key] ?? 0) + change.adjustment;
+          }
+        }
+      }
+    }
+
+    return totals;
+  }
+
+  private upgradePriority(
+    priority: "critical" | "high" | "medium" | "low"
+  ): "critical" | "high" | "medium" | "low" {
+    const upgrades: Record<string, "critical" | "high" | "medium" | "low"> = {
+      low: "medium",
+      medium: "high",
+      high: "critical",
+      critical: "critical",
+    };
+    return upgrades[priority];
+  }
+
+  private downgradePriority(
+    priority: "critical" | "high" | "medium" | "low"
+  ): "critical" | "high" | "medium" | "low" {
+    const downgrades: Record<string, "critical" | "high" | "medium" | "low"> = {
+      critical: "high",
+      high: "medium",
+      medium: "low",
+      low: "low",
+    };
+    return downgrades[priority];
+  }
+
+  /**
+   * Deload, rebuild, then return to full training over four weeks
+   */
+  private createComprehensiveRecoveryProtocol(
+    recommendations: AdaptationRecommendation[],
+    context: RuleContext,
+    userMetrics: UserMetrics
+  ): AdaptationRecommendation[] {
+    const sourceRules = ["FatigueRule", "StressRule"];
+    const severe = context.compoundPriority === "critical";
+    const deload = severe ? -25 : -20;
+    const rebuild = severe ? 15 : 10;
+    const { lifestyle } = userMetrics;
+
+    const phases: AdaptationPhase[] = [
+      {
+        name: "Deload",
+        startWeek: 1,
+        durationWeeks: 1,
+        goal: "Bring fatigue and stress down before adding load back",
+        changes: [
+          { target: "intensity", adjustment: deload },
+          { target: "volume", adjustment: deload },
+          { target: "rest", adjustment: "+1 day" },
+          { target: "exercise", adjustment: "mobility_and_breathwork" },
+        ],
+        milestones: [
+          {
+            week: 1,
+            metric: "lifestyle.sleepHours",
+            comparison: "gte",
+            target: Math.max(7, lifestyle.sleepHours),
+            description: "Averaging at least 7 hours of sleep",
+          },
+          {
+            week: 1,
+            metric: "lifestyle.stressLevel",
+            comparison: "lte",
+            target: Math.min(6, lifestyle.stressLevel),
+            description: "Stress back to a manageable level",
+          },
+        ],
+        checkIns: [
+          this.createCheckIn(1, 3, "recovery", [
+            "How rested do you feel on a 1-10 scale?",
+            "Has your sleep improved since lightening the load?",
+          ]),
+          this.createCheckIn(
+            1,
+            7,
+            "stress",
+            ["What is your stress level this week, 1-10?"],
+            "stress stays at 8 or above"
+          ),
+        ],
+        exitCriteria: [
+          "Reported fatigue at 6 or below",
+          "Sleep and stress milestones met",
+        ],
+      },
+      {
+        name: "Rebuild",
+        startWeek: 2,
+        durationWeeks: 2,
+        goal: "Reintroduce training load while recovery holds",
+        changes: [
+          { target: "intensity", adjustment: rebuild },
+          { target: "volume", adjustment: rebuild },
+          { target: "rest", adjustment: "-1 day" },
+        ],
+        milestones: [
+          {
+            week: 3,
+            metric: "progressData.weeklyConsistency",
+            comparison: "gte",
+            target: 0.8,
+            description: "Completing at least 80% of planned sessions",
+          },
+        ],
+        checkIns: [
+          this.createCheckIn(
+            2,
+            4,
+            "fatigue",
+            ["How did the heavier sessions feel?"],
+            "fatigue back at 8 or above"
+          ),
+          this.createCheckIn(3, 7, "readiness", [
+            "Do you feel ready to train at full load next week?",
+          ]),
+        ],
+        exitCriteria: ["Completion rate at or above 80% for two weeks"],
+      },
+      {
+        name: "Return",
+        startWeek: 4,
+        durationWeeks: 1,
+        goal: "Return to the pre-protocol training load",
+        changes: [
+          {
+            target: "intensity",
+            adjustment: this.restoringAdjustment(deload, rebuild),
+          },
+          {
+            target: "volume",
+            adjustment: this.restoringAdjustment(deload, rebuild),
+          },
+        ],
+        milestones: [
+          {
+            week: 4,
+            metric: "mood.motivation",
+            comparison: "gte",
+            target: 6,
+            description: "Motivation back at 6 or above",
+          },
+        ],
+        checkIns: [
+          this.createCheckIn(4, 7, "review", [
+            "What helped your recovery most over the last month?",
+          ]),
+        ],
+        exitCriteria: ["Full load sustained for a week without fatigue spikes"],
+      },
+    ];
+
+    return this.foldIntoSchedule(
+      recommendations,
+      context.emergentStrategy!,
+      sourceRules,
+      {
+        type: "recovery",
+        priority: severe ? "critical" : "high",
+        reason:
+          "High stress and fatigue together - comprehensive recovery protocol",
+        explanation:
+          "Stress and fatigue are compounding, so we're running a 4-week protocol: a deload week, two rebuild weeks, then a return to your normal load.",
+      },
+      phases
+    );
+  }
+
+  /**
+   * Strip the plan back to what the user can do consistently, then progress
+   */
+  private createSimplifiedProgressionPlan(
+    recommendations: AdaptationRecommendation[],
+    context: RuleContext,
+    userMetrics: UserMetrics
+  ): AdaptationRecommendation[] {
+    const sourceRules = ["PlateauRule", "ConsistencyRule"];
+    const plan = userMetrics.currentPlan;
+    const sessionCut = Math.min(0, 3 - plan.frequency);
+    const consistency = userMetrics.progressData.weeklyConsistency;
+
+    const phases: AdaptationPhase[] = [
+      {
+        name: "Simplify",
+        startWeek: 1,
+        durationWeeks: 2,
+        goal: "Build a routine the user completes every week",
+        changes: [
+          ...(sessionCut < 0
+            ? [{ target: "frequency" as const, adjustment: sessionCut }]
+            : []),
+          { target: "volume", adjustment: -20 },
+          { target: "exercise", adjustment: "core_lifts_only" },
+        ],
+        milestones: [
+          {
+            week: 2,
+            metric: "progressData.weeklyConsistency",
+            comparison: "gte",
+            target: Math.max(0.75, Math.min(1, consistency + 0.2)),
+            description: "Completing the simplified plan every week",
+          },
+        ],
+        checkIns: [
+          this.createCheckIn(
+            1,
+            7,
+            "consistency",
+            [
+              "Did the shorter plan fit your week?",
+              "Which session was hardest to fit in?",
+            ],
+            "two or more sessions missed"
+          ),
+          this.createCheckIn(2, 7, "consistency", [
+            "How confident are you that you can keep this up?",
+          ]),
+        ],
+        exitCriteria: ["Two consecutive weeks with no missed sessions"],
+      },
+      {
+        name: "Linear progression",
+        startWeek: 3,
+        durationWeeks: 2,
+        goal: "Break the plateau with small, predictable load increases",
+        changes: [
+          { target: "intensity", adjustment: 5 },
+          {
+            target: "exercise",
+            adjustment: "add_small_weekly_load_increments",
+          },
+        ],
+        milestones: [
+          {
+            week: 4,
+            metric: "progressData.averageRating",
+            comparison: "gte",
+            target: 6,
+            description: "Sessions rated 6 or above while load increases",
+          },
+        ],
+        checkIns: [
+          this.createCheckIn(
+            4,
+            7,
+            "progress",
+            ["Did your lifts go up this week?"],
+            "no progress for two weeks"
+          ),
+        ],
+        exitCriteria: ["Load increased in at least two core lifts"],
+      },
+      {
+        name: "Reintroduce variety",
+        startWeek: 5,
+        durationWeeks: 2,
+        goal: "Add accessory work back without losing consistency",
+        changes: [
+          ...(sessionCut < 0
+            ? [{ target: "frequency" as const, adjustment: -sessionCut }]
+            : []),
+          { target: "volume", adjustment: 10 },
+          { target: "exercise", adjustment: "reintroduce_accessories" },
+        ],
+        milestones: [
+          {
+            week: 6,
+            metric: "progressData.weeklyConsistency",
+            comparison: "gte",
+            target: 0.8,
+            description: "Consistency holds with the fuller plan",
+          },
+        ],
+        checkIns: [
+          this.createCheckIn(6, 7, "review", [
+            "Is the extra variety keeping training interesting?",
+          ]),
+        ],
+        exitCriteria: ["Consistency at or above 80% with accessories back"],
+      },
+    ];
+
+    return this.foldIntoSchedule(
+      recommendations,
+      context.emergentStrategy!,
+      sourceRules,
+      {
+        type: "volume",
+        priority: context.compoundPriority === "critical" ? "critical" : "high",
+        reason: "Plateau with low consistency - simplified progression plan",
+        explanation:
+          "Progress has stalled and sessions are being missed, so we'll simplify for two weeks, progress in small steps, then bring variety back.",
+      },
+      phases
+    );
+  }
+
+  /**
+   * Weekly levels with small challenges to rebuild motivation through progress
+   */
+  private createGamifiedProgressionSystem(
+    recommendations: AdaptationRecommendation[],
+    context: RuleContext,
+    userMetrics: UserMetrics
+  ): AdaptationRecommendation[] {
+    const sourceRules = ["MotivationRule", "ProgressiveOverloadRule"];
+    const sessionsPerWeek = userMetrics.currentPlan.frequency;
+    const streak = userMetrics.progressData.streak;
+    const levels = 4;
+
+    const phases: AdaptationPhase[] = Array.from(
+      { length: levels },
+      (_, index) => {
+        const level = index + 1;
+        return {
+          name: `Level ${level}`,
+          startWeek: level,
+          durationWeeks: 1,
+          goal:
+            level === 1
+              ? "Win an easy first week to restart momentum"
+              : `Complete the level ${level} challenge`,
+          changes: [
+            ...(level > 1
+              ? [{ target: "intensity" as const, adjustment: 2.5 }]
+              : []),
+            {
+              target: "exercise",
+              adjustment: `weekly_challenge_level_${level}`,
+            },
+          ],
+          milestones: [
+            {
+              week: level,
+              metric: "progressData.streak",
+              comparison: "gte" as const,
+              target: streak + sessionsPerWeek * level,
+              description: `Keep the streak going through week ${level}`,
+            },
+          ],
+          checkIns: [
+            this.createCheckIn(
+              level,
+              7,
+              "celebration",
+              [
+                `You finished level ${level} - how did the challenge feel?`,
+                "Want the next level to be harder or the same?",
+              ],
+              level > 1 ? "motivation drops below 4" : undefined
+            ),
+          ],
+          exitCriteria: [`All ${sessionsPerWeek} sessions completed this week`],
+        };
+      }
+    );
+
+    return this.foldIntoSchedule(
+      recommendations,
+      context.emergentStrategy!,
+      sourceRules,
+      {
+        type: "exercise_swap",
+        priority: context.compoundPriority === "critical" ? "critical" : "high",
+        reason:
+          "Low motivation while progression is due - gamified progression",
+        explanation: `Progress will come in ${levels} weekly levels, each with a small challenge and a small step up in intensity.`,
+      },
+      phases
+    );
+  }
+
+  // Replace the source rules' recommendations with one scheduled recommendation
+  private foldIntoSchedule(
+    recommendations: AdaptationRecommendation[],
+    strategy: string,
+    sourceRules: string[],
+    summary: Pick<
+      AdaptationRecommendation,
+      "type" | "priority" | "reason" | "explanation"
+    >,
+    phases: AdaptationPhase[]
+  ): AdaptationRecommendation[] {
+    const last = phases[phases.length - 1];
+    const totalWeeks = last.startWeek + last.durationWeeks - 1;
+    const schedule: AdaptationSchedule = {
+      strategy,
+      sourceRules,
+      totalWeeks,
+      phases,
+    };
+
+    return [
+      {
+        ...summary,
+        changes: phases[0].changes,
+        duration: totalWeeks * 7,
+        schedule,
+      },
+      ...recommendations.filter(
+        (rec) => !rec.ruleId || !sourceRules.includes(rec.ruleId)
+      ),
+    ];
+  }
+
+  private createCheckIn(
+    week: number,
+    day: number,
+    focus: string,
+    questions: string[],
+    escalateIf?: string
+  ): ScheduledCheckIn {
+    return { week, day, focus, questions, escalateIf };
+  }
+
+  // Percentage change that undoes a deload followed by a rebuild step
+  private restoringAdjustment(deload: number, rebuild: number): number {
+    const remaining = 1 / ((1 + deload / 100) * (1 + rebuild / 100));
+    return Math.round((remaining - 1) * 1000) / 10;
+  }
+
+  private calculateEffectiveness(outcome: AdaptationOutcome): number {
+    const behavioral =
+      (outcome.adherenceChange +
+        outcome.motivationChange +
+        outcome.performanceChange) /
+      3;
+
+    // Explicit feedback (1-10) counts for a quarter when the user gave it
+    const effectiveness =
+      outcome.satisfactionRating !== undefined
+        ? behavioral * 0.75 + ((outcome.satisfactionRating - 5.5) / 4.5) * 0.25
+        : behavioral;
+
+    return Math.max(-1, Math.min(1, effectiveness));
+  }
+
+  private async updateAnalytics(adaptation: AdaptationHistory): Promise<void> {
+    const success = adaptation.effectiveness > 0.3 ? 1 : 0;
+    const ruleId = adaptation.recommendation.ruleId;
+    const updateRate = (
+      rates: Record<string, number>,
+      key: string,
+      namespace: string
+    ) => {
+      const countKey = `${namespace}:${key}`;
+      const count = (this.analyticsSampleCounts.get(countKey) || 0) + 1;
+      this.analyticsSampleCounts.set(countKey, count);
+      const current = rates[key] ?? 0;
+      rates[key] = current + (success - current) / count;
+    };
+
+    if (ruleId) {
+      updateRate(this.analytics.ruleEffectivenessRates, ruleId, "rule");
+    }
+
+    if (adaptation.triggeredRules.length > 1) {
+      const combination = [...adaptation.triggeredRules].sort().join("+");
+      updateRate(
+        this.analytics.combinationOutcomes,
+        combination,
+        "combination"
+      );
+    }
+
+    const month = adaptation.timestamp.toISOString().substring(5, 7);
+    updateRate(this.analytics.temporalPatterns, `month:${month}`, "temporal");
+
+    const segment =
+      this.mlTrainingData.find((s) => s.adaptationId === adaptation.id)
+        ?.contextMetadata.userSegment || "general";
+    updateRate(this.analytics.userSegmentPerformance, segment, "segment");
+
+    // Remember the conditions under which a rule worked or failed
+    const contextTags = this.describeContext(adaptation.contextSnapshot);
+    const key = ruleId || adaptation.recommendation.type;
+    if (success) {
+      const factors = new Set(this.analytics.contextualSuccessFactors[key]);
+      contextTags.forEach((tag) => factors.add(tag));
+      this.analytics.contextualSuccessFactors[key] =
+        Array.from(factors).slice(-10);
+    } else if (adaptation.effectiveness < 0) {
+      const pattern = `${key} under ${contextTags.join(", ") || "normal conditions"}`;
+      if (!this.analytics.commonFailurePatterns.includes(pattern)) {
+        this.analytics.commonFailurePatterns = [
+          ...this.analytics.commonFailurePatterns,
+          pattern,
+        ].slice(-20);
+      }
+    }
+
+    this.analytics.dataPoints++;
+    this.analytics.lastUpdated = new Date();
+
+    const analytics = this.analytics;
+    const sampleCounts = Object.fromEntries(this.analyticsSampleCounts);
+    this.persist((provider) => provider.saveAnalytics(analytics, sampleCounts));
+  }
+
+  private async updateRuleWeights(
+    adaptation: AdaptationHistory
+  ): Promise<void> {
+    const ruleId = adaptation.recommendation.ruleId;
+    const weights = ruleId ? this.ruleWeights.get(ruleId) : undefined;
+    if (!weights) return;
+
+    const delta = weights.learningRate * adaptation.effectiveness;
+    const clampWeight = (value: number) => Math.max(0.1, Math.min(2, value));
+
+    weights.baseWeight = clampWeight(weights.baseWeight + delta);
+
+    const context = adaptation.recommendation.type;
+    weights.contextualModifiers[context] = clampWeight(
+      (weights.contextualModifiers[context] ?? 1) + delta
+    );
+
+    const userType = this.getUserSignature(
+      adaptation.userId
+    ).planCompliancePattern;
+    weights.userTypeModifiers[userType] = clampWeight(
+      (weights.userTypeModifiers[userType] ?? 1) + delta
+    );
+
+    const month = adaptation.timestamp.toISOString().substring(5, 7);
+    weights.seasonalModifiers[month] = clampWeight(
+      (weights.seasonalModifiers[month] ?? 1) + delta
+    );
+
+    weights.lastUpdated = new Date();
+    this.persist((provider) => provider.saveRuleWeights(weights));
+  }
+
+  private async updateUserSignatureFromOutcome(
+    userId: string,
+    adaptation: AdaptationHistory,
+    outcome: AdaptationOutcome
+  ): Promise<void> {
+    const signature = this.getUserSignature(userId);
+    const { recommendation, contextSnapshot, effectiveness } = adaptation;
+    const worked = effectiveness > 0.3;
+    const strategies = recommendation.changes
+      .filter(
+        (c) => c.target === "exercise" && typeof c.adjustment === "string"
+      )
+      .map((c) => c.adjustment as string);
+
+    // Responsiveness drifts toward how well adaptations land
+    signature.adaptationResponsiveness =
+      signature.adaptationResponsiveness * 0.8 +
+      ((effectiveness + 1) / 2) * 0.2;
+
+    // Intensity range widens to include what worked, narrows away from what didn't
+    const intensityChange = recommendation.changes.find(
+      (c) => c.target === "intensity" && typeof c.adjustment === "number"
+    );
+    if (intensityChange) {
+      const targetIntensity = Math.max(
+        1,
+        Math.min(
+          10,
+          contextSnapshot.currentPlan.intensity *
+            (1 + (intensityChange.adjustment as number) / 100)
+        )
+      );
+      const [min, max] = signature.preferredIntensityRange;
+      if (worked) {
+        signature.preferredIntensityRange = [
+          Math.min(min, Math.floor(targetIntensity)),
+          Math.max(max, Math.ceil(targetIntensity)),
+        ];
+      } else if (effectiveness < 0 && targetIntensity > max - 0.5) {
+        signature.preferredIntensityRange = [min, Math.max(min, max - 1)];
+      } else if (effectiveness < 0 && targetIntensity < min + 0.5) {
+        signature.preferredIntensityRange = [Math.min(max, min + 1), max];
+      }
+    }
+
+    if (
+      worked &&
+      (recommendation.type === "recovery" || recommendation.type === "rest_day")
+    ) {
+      signature.averageRecoveryTime =
+        Math.round(
+          (signature.averageRecoveryTime * 0.7 +
+            recommendation.duration * 0.3) *
+            10
+        ) / 10;
+    }
+
+    if (worked && recommendation.ruleId === "PlateauRule") {
+      signature.plateauBreakers = this.addUnique(
+        signature.plateauBreakers,
+        strategies,
+        true
+      );
+    }
+
+    if (worked && outcome.motivationChange > 0.2) {
+      signature.motivationalTriggers = this.addUnique(
+        signature.motivationalTriggers,
+        strategies
+      );
+    }
+
+    const fatigueEffects = outcome.unexpectedEffects.filter((effect) =>
+      /fatigue|sore|exhaust|tired/i.test(effect)
+    );
+    if (fatigueEffects.length > 0) {
+      signature.commonFatigueTriggers = this.addUnique(
+        signature.commonFatigueTriggers,
+        strategies.length > 0 ? strategies : [recommendation.type]
+      );
+    }
+
+    if (worked && contextSnapshot.currentPlan.type) {
+      signature.preferredWorkoutTypes = this.addUnique(
+        signature.preferredWorkoutTypes,
+        [contextSnapshot.currentPlan.type]
+      );
+    }
+
+    signature.planCompliancePattern =
+      outcome.adherenceChange > 0.1
+        ? "responsive to adjustments"
+        : outcome.adherenceChange < -0.1
+          ? "adherence drops after changes"
+          : signature.planCompliancePattern;
+    signature.confidenceLevel = Math.min(1.0, signature.confidenceLevel + 0.02);
+    signature.lastUpdated = new Date();
+
+    this.userSignatures.set(userId, signature);
+    this.persist((provider) => provider.saveUserSignature(signature));
+  }
+
+  private describeContext(userMetrics: UserMetrics): string[] {
+    const tags: string[] = [];
+    const { lifestyle, mood, progressData } = userMetrics;
+
+    if (lifestyle.sleepHours < 6) tags.push("short_sleep");
+    if (lifestyle.stressLevel > 7) tags.push("high_stress");
+    if (lifestyle.workload > 7) tags.push("high_workload");
+    if (mood.motivation <= 4) tags.push("low_motivation");
+    if (progressData.weeklyConsistency < 0.5) tags.push("low_consistency");
+    if (progressData.weeklyConsistency >= 0.8) tags.push("high_consistency");
+
+    return tags;
+  }
+
+  private addUnique(
+    values: string[],
+    additions: string[],
+    mostRecentFirst: boolean = false
+  ): string[] {
+    const remaining = values.filter((v) => !additions.includes(v));
+    // Keep the ten most recent either way
+    return mostRecentFirst
+      ? [...additions, ...remaining].slice(0, 10)
+      : [...remaining, ...additions].slice(-10);
+  }
+
+  private predictFutureNeeds(
+    signature: UserSignature,
+    history: AdaptationHistory[]
+  ): string[] {
+    // Implementation to predict future needs based on patterns
+    return [];
+  }
+
+  /**
+   * Initialize the rule set
+   */
+  private initializeRules() {
+    const builtInRules: AdaptationRule[] = [
+      new FatigueRule(), // Fatigue Management Rule
+      new ConsistencyRule(), // Consistency Enforcement Rule
+      new ProgressiveOverloadRule(), // Progressive Overload Rule
+      new RecoveryRule(), // Recovery Optimization Rule
+      new MotivationRule(), // Motivation Maintenance Rule
+      new PlateauRule(), // Plateau Breaking Rule
+      new StressRule(), // Stress Adaptation Rule
+      new SleepRule(), // Sleep Quality Rule
+    ];
+
+    builtInRules.forEach((rule) => this.rules.set(rule.id, rule));
+  }
+
+  /**
+   * Register a custom adaptation rule at runtime. The rule is added to the
+   * listed rule set versions (defaults to the current production version).
+   */
+  registerRule(
+    rule: AdaptationRule,
+    options: { weight?: number; ruleSetVersionIds?: string[] } = {}
+  ): void {
+    if (!rule.id) {
+      throw new Error("Adaptation rules must have a stable id");
+    }
+    if (this.rules.has(rule.id)) {
+      throw new Error(`Adaptation rule "${rule.id}" is already registered`);
+    }
+
+    const versionIds = options.ruleSetVersionIds || [
+      this.currentRuleSetVersion,
+    ];
+    for (const versionId of versionIds) {
+      if (!this.ruleSetVersions.has(versionId)) {
+        throw new Error(`Unknown rule set version "${versionId}"`);
+      }
+    }
+
+    this.rules.set(rule.id, rule);
+    this.disabledRuleIds.delete(rule.id);
+
+    // Keep learned weights for a rule that is being re-registered
+    const weight = options.weight ?? 1.0;
+    if (!this.ruleWeights.has(rule.id)) {
+      const weights: RuleWeights = {
+        ruleName: rule.id,
+        baseWeight: weight,
+        contextualModifiers: {},
+        userTypeModifiers: {},
+        seasonalModifiers: {},
+        learningRate: 0.05,
+        lastUpdated: new Date(),
+      };
+      this.ruleWeights.set(rule.id, weights);
+      this.persist((provider) => provider.saveRuleWeights(weights));
+    }
+
+    for (const versionId of versionIds) {
+      const version = this.ruleSetVersions.get(versionId)!;
+      if (!version.rules.includes(rule.id)) {
+        version.rules.push(rule.id);
+      }
+      version.ruleWeights[rule.id] = weight;
+      this.persistRuleSetVersion(versionId);
+    }
+  }
+
+  /**
+   * Compile a declarative rule document and register it
+   */
+  registerRuleDocument(
+    document: unknown,
+    options: { weight?: number; ruleSetVersionIds?: string[] } = {}
+  ): AdaptationRule {
+    const rule = this.ruleCompiler.compile(document);
+    this.registerRule(rule, options);
+    return rule;
+  }
+
+  /**
+   * Remove a rule from the registry, along with any document versions of it
+   * deployed with rule sets. Rule set versions keep the id in their rule
+   * list; unknown rule ids are skipped at evaluation time.
+   */
+  unregisterRule(ruleId: string): boolean {
+    const removed = this.rules.delete(ruleId);
+    this.ruleWeights.delete(ruleId);
+    this.disabledRuleIds.delete(ruleId);
+    this.persist((provider) => provider.deleteRuleWeights(ruleId));
+
+    for (const [versionId, deployed] of this.versionRules) {
+      if (!deployed.delete(ruleId)) continue;
+      const version = this.ruleSetVersions.get(versionId);
+      if (version?.ruleDocuments) {
+        version.ruleDocuments = version.ruleDocuments.filter(
+          (document) => document.id !== ruleId
+        );
+        this.persistRuleSetVersion(versionId);
+      }
+    }
+    return removed;
+  }
+
+  enableRule(ruleId: string): void {
+    this.assertRuleRegistered(ruleId);
+    this.disabledRuleIds.delete(ruleId);
+  }
+
+  disableRule(ruleId: string): void {
+    this.assertRuleRegistered(ruleId);
+    this.disabledRuleIds.add(ruleId);
+  }
+
+  /**
+   * List registered rules and whether they are currently enabled
+   */
+  getRegisteredRules(): { id: string; enabled: boolean }[] {
+    return Array.from(this.rules.keys()).map((id) => ({
+      id,
+      enabled: !this.disabledRuleIds.has(id),
+    }));
+  }
+
+  private assertRuleRegistered(ruleId: string): void {
+    if (!this.rules.has(ruleId)) {
+      throw new Error(`Adaptation rule "${ruleId}" is not registered`);
+    }
+  }
+
+  /**
+   * Resolve the enabled rules included in a rule set version
+   */
+  private getActiveRules(ruleSetVersionId: string): AdaptationRule[] {
+    const version = this.ruleSetVersions.get(ruleSetVersionId);
+    const ruleIds = version ? version.rules : Array.from(this.rules.keys());
+    const deployed = this.versionRules.get(ruleSetVersionId);
+
+    return ruleIds
+      .filter((ruleId) => !this.disabledRuleIds.has(ruleId))
+      .map((ruleId) => deployed?.get(ruleId) || this.rules.get(ruleId))
+      .filter((rule): rule is AdaptationRule => rule !== undefined);
+  }
+
+  /**
+   * Apply recommendations to update the user's plan (legacy method for compatibility).
+   * Records lineage like applyRecommendationsWithLog with default options; the
+   * weekly budget only counts history when the recommendations came from analysis.
+   */
+  applyRecommendations(
+    currentPlan: WorkoutPlan,
+    recommendations: AdaptationRecommendation[]
+  ): WorkoutPlan {
+    return this.applyRecommendationsWithLog(currentPlan, recommendations).plan;
+  }
+
+  /**
+   * Apply recommendations and return a structured log of every plan change.
+   * A changed plan is recorded as a child in the plan's lineage and carries
+   * the child's planId, unless trackLineage is false or no user is known.
+   */
+  applyRecommendationsWithLog(
+    currentPlan: WorkoutPlan,
+    recommendations: AdaptationRecommendation[],
+    options: PlanApplicationOptions = {}
+  ): PlanApplicationResult {
+    const { applied, ...result } = this.resolveAndApply(
+      currentPlan,
+      recommendations,
+      options.userId
+    );
+    if (options.trackLineage === false || result.changeLog.length === 0) {
+      return result;
+    }
+
+    const lineage = this.recordPlanLineage(
+      currentPlan,
+      applied,
+      options.userId
+    );
+    if (lineage) {
+      result.plan.id = lineage.planId;
+    }
+    return { ...result, lineage };
+  }
+
+  // Resolve conflicts among high-priority recommendations, enforce guardrails and apply the rest
+  private resolveAndApply(
+    currentPlan: WorkoutPlan,
+    recommendations: AdaptationRecommendation[],
+    userId?: string
+  ): PlanApplicationResult & { applied: AdaptationRecommendation[] } {
+    const { recommendations: resolved, conflicts } =
+      this.conflictResolver.resolve(
+        recommendations.filter(
+          (rec) => rec.priority === "critical" || rec.priority === "high"
+        ),
+        this.ruleWeights,
+        this.ruleInteractions
+      );
+    const guarded = this.guardPlanChanges(currentPlan, resolved, userId);
+    const { plan, changeLog, skippedChanges } = this.applyPlanChanges(
+      currentPlan,
+      guarded.recommendations
+    );
+
+    return {
+      plan,
+      changeLog,
+      skippedChanges,
+      conflicts,
+      guardrailAudit: guarded.audit,
+      applied: guarded.recommendations,
+    };
+  }
+
+  /**
+   * Temporal scheduling - adaptations that last recommendation.duration days
+   * and are reverted (reductions, recovery) or kept (progressions) afterwards
+   */
+  scheduleAdaptations(
+    basePlan: WorkoutPlan,
+    recommendations: AdaptationRecommendation[],
+    options: ScheduleOptions = {}
+  ): ScheduledAdaptation[] {
+    const { recommendations: resolved } = this.conflictResolver.resolve(
+      recommendations,
+      this.ruleWeights,
+      this.ruleInteractions
+    );
+    // Guard against the plan as it will be, not the baseline
+    const startsAt = options.startsAt || new Date();
+    const plan = this.scheduler.getState(basePlan.id)
+      ? this.scheduler.getEffectivePlan(basePlan.id, startsAt).plan
+      : basePlan;
+    const guarded = this.guardPlanChanges(
+      plan,
+      resolved,
+      options.userId,
+      startsAt
+    );
+    const scheduled = this.scheduler.schedule(
+      basePlan,
+      guarded.recommendations,
+      { ...options, startsAt }
+    );
+    this.persistPlanSchedule(basePlan.id);
+    return scheduled;
+  }
+
+  /**
+   * The plan to follow on a date, with expired temporary changes reverted
+   */
+  getEffectivePlan(planId: string, date: Date = new Date()): EffectivePlan {
+    return this.scheduler.getEffectivePlan(planId, date);
+  }
+
+  getActiveAdaptations(
+    planId: string,
+    date: Date = new Date()
+  ): ScheduledAdaptation[] {
+    return this.scheduler.getActive(planId, date);
+  }
+
+  getScheduledAdaptations(planId: string): ScheduledAdaptation[] {
+    return this.scheduler.getAdaptations(planId);
+  }
+
+  /**
+   * End a scheduled adaptation early; the effective plan reverts from `at`
+   */
+  cancelAdaptation(
+    scheduledId: string,
+    at: Date = new Date(),
+    reason?: string
+  ): ScheduledAdaptation {
+    const cancelled = this.scheduler.cancel(scheduledId, at, reason);
+    this.persistPlanSchedule(cancelled.planId);
+    return cancelled;
+  }
+
+  private persistPlanSchedule(planId: string): void {
+    const schedule = this.scheduler.getState(planId);
+    if (schedule) {
+      this.persist((provider) => provider.savePlanSchedule(schedule));
+    }
+  }
+
+  // Apply recommendations in order to a copy of the plan, without lineage
+  private applyPlanChanges(
+    currentPlan: WorkoutPlan,
+    recommendations: AdaptationRecommendation[]
+  ): Pick<PlanApplicationResult, "plan" | "changeLog" | "skippedChanges"> {
+    let plan: WorkoutPlan = {
+      ...currentPlan,
+      exercises: currentPlan.exercises.map((exercise) => ({ ...exercise })),
+    };
+    const changeLog: PlanChangeLogEntry[] = [];
+    const skippedChanges: { change: PlanChange; reason: string }[] = [];
+    const swappedIn = new Set<string>();
+
+    for (const rec of recommendations) {
+      plan = this.applyChanges(plan, rec, changeLog, skippedChanges, swappedIn);
+    }
+
+    return { plan, changeLog, skippedChanges };
+  }
+
+  /**
+   * Plan Genealogy - walk and summarize the tree of adapted plans
+   */
+  getPlanLineage(planId: string): PlanLineage | undefined {
+    return this.planLineages.get(planId);
+  }
+
+  /**
+   * The plan's lineage followed by each ancestor, back to the original plan
+   */
+  getPlanAncestry(planId: string): PlanLineage[] {
+    const ancestry: PlanLineage[] = [];
+    const visited = new Set<string>();
+    let current = this.planLineages.get(planId);
+
+    while (current && !visited.has(current.planId)) {
+      ancestry.push(current);
+      visited.add(current.planId);
+      current = current.parentPlanId
+        ? this.planLineages.get(current.parentPlanId)
+        : undefined;
+    }
+
+    return ancestry;
+  }
+
+  getPlanDescendants(planId: string): PlanLineage[] {
+    const descendants: PlanLineage[] = [];
+    const queue = [planId];
+
+    for (let i = 0; i < queue.length; i++) {
+      for (const childId of this.childPlanIds.get(queue[i]) || []) {
+        descendants.push(this.planLineages.get(childId)!);
+        queue.push(childId);
+      }
+    }
+
+    return descendants;
+  }
+
+  /**
+   * Success rate, lifespan and strategies for a plan and everything derived from it
+   */
+  getBranchStatistics(planId: string): PlanBranchStatistics {
+    const root = this.planLineages.get(planId);
+    if (!root) {
+      throw new Error(`Unknown plan lineage "${planId}"`);
+    }
+
+    return this.summarizeLineages([root, ...this.getPlanDescendants(planId)]);
+  }
+
+  /**
+   * Strategy summary across every plan tree the user has
+   */
+  getPlanTreeSummary(userId: string): PlanBranchStatistics[] {
+    return this.getUserPlanLineages(userId)
+      .filter((lineage) => !lineage.parentPlanId)
+      .map((root) => this.getBranchStatistics(root.planId));
+  }
+
+  getUserPlanLineages(userId: string): PlanLineage[] {
+    return (this.userPlanIds.get(userId) || []).map(
+      (planId) => this.planLineages.get(planId)!
+    );
+  }
+
+  // Store a lineage and index it by user and by parent
+  private setPlanLineage(lineage: PlanLineage): void {
+    const isNew = !this.planLineages.has(lineage.planId);
+    this.planLineages.set(lineage.planId, lineage);
+    if (!isNew) return;
+
+    const addTo = (index: Map<string, string[]>, key: string) => {
+      const ids = index.get(key) || [];
+      ids.push(lineage.planId);
+      index.set(key, ids);
+    };
+    if (lineage.userId) {
+      addTo(this.userPlanIds, lineage.userId);
+    }
+    if (lineage.parentPlanId) {
+      addTo(this.childPlanIds, lineage.parentPlanId);
+    }
+  }
+
+  // Lineages belong to a user; without one there is no tree to add to
+  private recordPlanLineage(
+    parentPlan: WorkoutPlan,
+    recommendations: AdaptationRecommendation[],
+    ownerId?: string
+  ): PlanLineage | undefined {
+    const now = new Date();
+    const adaptations = recommendations
+      .map((rec) =>
+        rec.adaptationId ? this.findAdaptation(rec.adaptationId) : undefined
+      )
+      .filter((a): a is AdaptationHistory => a !== undefined);
+
+    let parent = this.planLineages.get(parentPlan.id);
+    const userId = parent?.userId || ownerId || adaptations[0]?.userId;
+    if (!userId) return undefined;
+    if (!parent) {
+      parent = {
+        planId: parentPlan.id,
+        generationNumber: 0,
+        adaptationReason: "Original plan",
+        successRate: 0,
+        dominantStrategies: [],
+        failedStrategies: [],
+        optimalConditions: [],
+        avgLifespan: 0,
+        userId,
+        createdAt: now,
+        adaptationIds: [],
+      };
+      this.setPlanLineage(parent);
+    }
+
+    // The first child ends the parent's lifespan
+    if (!parent.supersededAt) {
+      parent.supersededAt = now;
+      const lifespan =
+        (now.getTime() - (parent.createdAt || now).getTime()) /
+        (1000 * 60 * 60 * 24);
+      parent.avgLifespan = Math.round(lifespan * 10) / 10;
+      (parent.adaptationIds || [])
+        .map((id) => this.findAdaptation(id))
+        .forEach((adaptation) => {
+          if (adaptation) adaptation.durationEffective = Math.round(lifespan);
+        });
+    }
+
+    const generationNumber = parent.generationNumber + 1;
+    const rootPlanId =
+      this.getPlanAncestry(parent.planId).pop()?.planId || parent.planId;
+    let planId = `${rootPlanId}-g${generationNumber}`;
+    for (let n = 2; this.planLineages.has(planId); n++) {
+      planId = `${rootPlanId}-g${generationNumber}-${n}`;
+    }
+
+    const lineage: PlanLineage = {
+      planId,
+      parentPlanId: parent.planId,
+      generationNumber,
+      adaptationReason: recommendations.map((rec) => rec.reason).join("; "),
+      successRate: 0,
+      dominantStrategies: [],
+      failedStrategies: [],
+      optimalConditions: [],
+      avgLifespan: 0,
+      userId,
+      createdAt: now,
+      adaptationIds: adaptations.map((a) => a.id),
+    };
+    this.setPlanLineage(lineage);
+
+    adaptations.forEach((adaptation) => (adaptation.appliedPlanId = planId));
+    this.refreshLineage(planId);
+
+    const savedParent = parent;
+    this.persist((provider) => provider.savePlanLineage(savedParent));
+    const history = this.adaptationHistory.get(userId) || [];
+    this.persist((provider) => provider.saveAdaptationHistory(userId, history));
+
+    return lineage;
+  }
+
+  // Recompute a plan's own success figures from the adaptations that produced it
+  private refreshLineage(planId: string): void {
+    const lineage = this.planLineages.get(planId);
+    if (!lineage) return;
+
+    const stats = this.summarizeLineages([lineage]);
+    const successful = this.getLineageOutcomes([lineage]).filter(
+      (a) => a.effectiveness > 0.3
+    );
+
+    lineage.successRate = stats.successRate;
+    lineage.dominantStrategies = stats.dominantStrategies;
+    lineage.failedStrategies = stats.failedStrategies;
+    lineage.optimalConditions = Array.from(
+      new Set(
+        successful.flatMap((a) => this.describeContext(a.contextSnapshot))
+      )
+    );
+
+    this.persist((provider) => provider.savePlanLineage(lineage));
+  }
+
+  private summarizeLineages(lineages: PlanLineage[]): PlanBranchStatistics {
+    const outcomes = this.getLineageOutcomes(lineages);
+    const strategyStats = new Map<
+      string,
+      { attempts: number; successes: number }
+    >();
+
+    for (const adaptation of outcomes) {
+      const strategy = adaptation.recommendation.type;
+      const stats = strategyStats.get(strategy) || {
+        attempts: 0,
+        successes: 0,
+      };
+      stats.attempts++;
+      if (adaptation.effectiveness > 0.3) stats.successes++;
+      strategyStats.set(strategy, stats);
+    }
+
+    const rankedStrategies = Array.from(strategyStats.entries())
+      .map(([strategy, stats]) => ({
+        strategy,
+        rate: stats.successes / stats.attempts,
+      }))
+      .sort((a, b) => b.rate - a.rate);
+    const superseded = lineages.filter((lineage) => lineage.supersededAt);
+
+    return {
+      rootPlanId: lineages[0]?.planId || "",
+      planIds: lineages.map((lineage) => lineage.planId),
+      maxGeneration: Math.max(0, ...lineages.map((l) => l.generationNumber)),
+      successRate:
+        outcomes.length > 0
+          ? outcomes.filter((a) => a.effectiveness > 0.3).length /
+            outcomes.length
+          : 0,
+      avgLifespan:
+        superseded.length > 0
+          ? superseded.reduce((sum, l) => sum + l.avgLifespan, 0) /
+            superseded.length
+          : 0,
+      dominantStrategies: rankedStrategies
+        .filter((s) => s.rate >= 0.6)
+        .map((s) => s.strategy),
+      failedStrategies: rankedStrategies
+        .filter((s) => s.rate < 0.3)
+        .map((s) => s.strategy),
+    };
+  }
+
+  private getLineageOutcomes(lineages: PlanLineage[]): AdaptationHistory[] {
+    return lineages
+      .flatMap((lineage) => lineage.adaptationIds || [])
+      .map((id) => this.findAdaptation(id))
+      .filter(
+        (a): a is AdaptationHistory => a !== undefined && !!a.outcomeRecordedAt
+      );
+  }
+
+  private applyChanges(
+    plan: WorkoutPlan,
+    recommendation: AdaptationRecommendation,
+    changeLog: PlanChangeLogEntry[],
+    skippedChanges: { change: PlanChange; reason: string }[],
+    swappedIn: Set<string> = new Set() // ids swapped in earlier in the same apply
+  ): WorkoutPlan {
+    let updatedPlan = { ...plan };
+    const log: PlanChangeLogger = (
+      change,
+      field,
+      previousValue,
+      newValue,
+      description,
+      exerciseId
+    ) => {
+      changeLog.push({
+        recommendationType: recommendation.type,
+        target: change.target,
+        field,
+        exerciseId,
+        previousValue: roundLoggedValue(previousValue),
+        newValue: roundLoggedValue(newValue),
+        description,
+        appliedAt: new Date(),
+      });
+    };
+
+    for (const change of recommendation.changes) {
+      switch (change.target) {
+        case "intensity": {
+          if (typeof change.adjustment !== "number") {
+            skippedChanges.push({
+              change,
+              reason: "Intensity changes require a numeric percentage",
+            });
+            break;
+          }
+          const previous = updatedPlan.intensity;
+          updatedPlan.intensity = Math.max(
+            1,
+            Math.min(10, previous * (1 + change.adjustment / 100))
+          );
+          log(
+            change,
+            "intensity",
+            previous,
+            updatedPlan.intensity,
+            `Intensity ${change.adjustment > 0 ? "increased" : "reduced"} by ${Math.abs(change.adjustment)}%`
+          );
+          break;
+        }
+        case "volume": {
+          if (typeof change.adjustment !== "number") {
+            skippedChanges.push({
+              change,
+              reason: "Volume changes require a numeric percentage",
+            });
+            break;
+          }
+          const previous = updatedPlan.volume;
+          updatedPlan.volume = Math.max(
+            1,
+            previous * (1 + change.adjustment / 100)
+          );
+          log(
+            change,
+            "volume",
+            previous,
+            updatedPlan.volume,
+            `Weekly volume ${change.adjustment > 0 ? "increased" : "reduced"} by ${Math.abs(change.adjustment)}%`
+          );
+          break;
+        }
+        case "frequency": {
+          if (typeof change.adjustment !== "number") {
+            skippedChanges.push({
+              change,
+              reason: "Frequency changes require a numeric session delta",
+            });
+            break;
+          }
+          const previous = updatedPlan.frequency;
+          updatedPlan.frequency = Math.max(
+            1,
+            Math.min(7, previous + change.adjustment)
+          );
+          log(
+            change,
+            "frequency",
+            previous,
+            updatedPlan.frequency,
+            `Sessions per week changed from ${previous} to ${updatedPlan.frequency}`
+          );
+          break;
+        }
+        case "rest": {
+          const restDays = parseRestDayAdjustment(change.adjustment);
+          if (restDays === null) {
+            skippedChanges.push({
+              change,
+              reason: `Unrecognised rest day adjustment "${change.adjustment}"`,
+            });
+            break;
+          }
+          // Each added rest day replaces one training session in the week
+          const previous = updatedPlan.frequency;
+          updatedPlan.frequency = Math.max(1, Math.min(7, previous - restDays));
+          log(
+            change,
+            "frequency",
+            previous,
+            updatedPlan.frequency,
+            `${restDays > 0 ? "Added" : "Removed"} ${Math.abs(restDays)} rest day${Math.abs(restDays) === 1 ? "" : "s"} per week`
+          );
+          break;
+        }
+        case "exercise":
+          updatedPlan = this.applyExerciseChange(
+            updatedPlan,
+            change,
+            log,
+            skippedChanges,
+            swappedIn
+          );
+          break;
+      }
+    }
+
+    return updatedPlan;
+  }
+
+  private applyExerciseChange(
+    plan: WorkoutPlan,
+    change: PlanChange,
+    log: PlanChangeLogger,
+    skippedChanges: { change: PlanChange; reason: string }[],
+    swappedIn: Set<string>
+  ): WorkoutPlan {
+    const exercises = plan.exercises;
+    const targetIds = change.exerciseIds;
+
+    // Swap exercises by id
+    if (change.replacementExercises && change.replacementExercises.length > 0) {
+      if (!targetIds || targetIds.length === 0) {
+        skippedChanges.push({
+          change,
+          reason: "Exercise swaps require exerciseIds to replace",
+        });
+        return plan;
+      }
+
+      const updated = [...exercises];
+      targetIds.forEach((exerciseId, index) => {
+        const replacement = change.replacementExercises![index];
+        const position = updated.findIndex((e) => e.id === exerciseId);
+        if (!replacement || position === -1) {
+          skippedChanges.push({
+            change,
+            reason: `No swap applied for exercise "${exerciseId}"`,
+          });
+          return;
+        }
+        const previous = updated[position];
+        updated[position] = { ...replacement };
+        swappedIn.add(replacement.id);
+        log(
+          change,
+          `exercises.${exerciseId}`,
+          previous.name,
+          replacement.name,
+          `Swapped ${previous.name} for ${replacement.name}`,
+          exerciseId
+        );
+      });
+      return { ...plan, exercises: updated };
+    }
+
+    // Remove exercises by id
+    if (change.adjustment === "remove") {
+      if (!targetIds || targetIds.length === 0) {
+        skippedChanges.push({
+          change,
+          reason: "Exercise removal requires exerciseIds",
+        });
+        return plan;
+      }
+      return {
+        ...plan,
+        exercises: exercises.filter((exercise) => {
+          if (!targetIds.includes(exercise.id)) return true;
+          log(
+            change,
+            `exercises.${exercise.id}`,
+            exercise.name,
+            null,
+            `Removed ${exercise.name}`,
+            exercise.id
+          );
+          return false;
+        }),
+      };
+    }
+
+    // Per-exercise sets/reps/weight/intensity adjustments
+    if (change.exerciseField && typeof change.adjustment === "number") {
+      const field = change.exerciseField;
+      const multiplier = 1 + change.adjustment / 100;
+
+      return {
+        ...plan,
+        exercises: exercises.map((exercise) => {
+          if (targetIds && !targetIds.includes(exercise.id)) return exercise;
+
+          const updated = { ...exercise };
+          let previousValue: number | string | null = null;
+          let newValue: number | string | null = null;
+
+          switch (field) {
+            case "sets":
+              previousValue = exercise.sets;
+              updated.sets = Math.max(
+                1,
+                Math.round(exercise.sets * multiplier)
+              );
+              newValue = updated.sets;
+              break;
+            case "reps":
+              previousValue = this.formatReps(exercise.reps);
+              updated.reps = Array.isArray(exercise.reps)
+                ? [
+                    Math.max(1, Math.round(exercise.reps[0] * multiplier)),
+                    Math.max(1, Math.round(exercise.reps[1] * multiplier)),
+                  ]
+                : Math.max(1, Math.round(exercise.reps * multiplier));
+              newValue = this.formatReps(updated.reps);
+              break;
+            case "weight":
+              if (exercise.weight === undefined) return exercise;
+              previousValue = exercise.weight;
+              updated.weight = Math.max(
+                0,
+                Math.round(exercise.weight * multiplier * 10) / 10
+              );
+              newValue = updated.weight;
+              break;
+            case "intensity":
+              previousValue = exercise.intensity;
+              updated.intensity = Math.max(
+                1,
+                Math.min(10, exercise.intensity * multiplier)
+              );
+              newValue = updated.intensity;
+              break;
+          }
+
+          if (previousValue === newValue) return exercise;
+
+          log(
+            change,
+            `exercises.${exercise.id}.${field}`,
+            previousValue,
+            newValue,
+            `${exercise.name} ${field} changed from ${roundLoggedValue(previousValue)} to ${roundLoggedValue(newValue)}`,
+            exercise.id
+          );
+          return updated;
+        }),
+      };
+    }
+
+    if (typeof change.adjustment === "string") {
+      return this.applyExerciseDirective(
+        plan,
+        change,
+        change.adjustment,
+        log,
+        skippedChanges,
+        swappedIn
+      );
+    }
+    skippedChanges.push({
+      change,
+      reason: "Numeric exercise changes require an exerciseField",
+    });
+    return plan;
+  }
+
+  // Strategy directives emitted by rules and schedules, e.g. "core_lifts_only"
+  private applyExerciseDirective(
+    plan: WorkoutPlan,
+    change: PlanChange,
+    directive: string,
+    log: PlanChangeLogger,
+    skippedChanges: { change: PlanChange; reason: string }[],
+    swappedIn: Set<string>
+  ): WorkoutPlan {
+    const skip = (reason: string): WorkoutPlan => {
+      skippedChanges.push({ change, reason });
+      return plan;
+    };
+    const apply = (concrete: PlanChange): WorkoutPlan =>
+      this.applyExerciseChange(plan, concrete, log, skippedChanges, swappedIn);
+
+    if (directive === "core_lifts_only") {
+      return (
+        this.setAsideExercises(plan, change, CORE_LIFT_PATTERN, log) ??
+        skip("No accessory work to set aside while keeping a core lift")
+      );
+    }
+
+    const focus = directive.match(/^focus_(\w+)$/);
+    if (focus) {
+      const pattern = FOCUS_PATTERNS[focus[1]];
+      if (!pattern) return skip(`No exercise focus defined for "${focus[1]}"`);
+      return (
+        this.setAsideExercises(plan, change, pattern, log) ??
+        skip(`No ${focus[1]} exercises to focus the plan on`)
+      );
+    }
+
+    if (directive === "reintroduce_accessories") {
+      const setAside = plan.setAsideExercises ?? [];
+      if (setAside.length === 0)
+        return skip("No set-aside exercises to bring back");
+      for (const exercise of setAside) {
+        log(
+          change,
+          `exercises.${exercise.id}`,
+          null,
+          exercise.name,
+          `Brought back ${exercise.name}`,
+          exercise.id
+        );
+      }
+      const { setAsideExercises: _setAside, ...rest } = plan;
+      return { ...rest, exercises: [...plan.exercises, ...setAside] };
+    }
+
+    if (
+      directive === "mobility_and_breathwork" ||
+      directive === "stress_relief"
+    ) {
+      const additions =
+        directive === "stress_relief"
+          ? [BREATHWORK_EXERCISE]
+          : [MOBILITY_EXERCISE, BREATHWORK_EXERCISE];
+      return (
+        this.addExercises(plan, change, additions, log) ??
+        skip(`The plan already includes the ${directive} work`)
+      );
+    }
+
+    if (directive === "add_small_weekly_load_increments") {
+      return apply({
+        ...change,
+        exerciseField: "weight",
+        adjustment: SMALL_LOAD_INCREMENT,
+      });
+    }
 
-  private upgradePriority(
-    priority: "critical" | "high" | "medium" | "low"
-  ): "critical" | "high" | "medium" | "low" {
-    const upgrades: Record<string, "critical" | "high" | "medium" | "low"> = {
-      low: "medium",
-      medium: "high",
-      high: "critical",
-      critical: "critical",
-    };
-    return upgrades[priority];
+    const challenge = directive.match(/^weekly_challenge_level_(\d+)$/);
+    if (challenge) {
+      // Each level above the first asks for one more rep on the core lifts
+      const extraReps = Number(challenge[1]) - 1;
+      if (extraReps <= 0)
+        return skip("The first challenge level keeps the plan as is");
+      return this.addReps(plan, change, extraReps, log);
+    }
+
+    if (VARIATION_DIRECTIVE.test(directive)) {
+      const swap = this.generateVariationSwap(
+        plan.exercises,
+        change,
+        swappedIn
+      );
+      return swap
+        ? apply(swap)
+        : skip(`No variations available for exercise strategy "${directive}"`);
+    }
+
+    return skip(`Exercise strategy "${directive}" does not change the plan`);
   }
 
-  private downgradePriority(
-    priority: "critical" | "high" | "medium" | "low"
-  ): "critical" | "high" | "medium" | "low" {
-    const downgrades: Record<string, "critical" | "high" | "medium" | "low"> = {
-      critical: "high",
-      high: "medium",
-      medium: "low",
-      low: "low",
+  // Set aside exercises not matching the pattern, keeping at least one that does
+  private setAsideExercises(
+    plan: WorkoutPlan,
+    change: PlanChange,
+    keep: RegExp,
+    log: PlanChangeLogger
+  ): WorkoutPlan | null {
+    const kept = plan.exercises.filter((exercise) => keep.test(exercise.name));
+    const setAside = plan.exercises.filter(
+      (exercise) => !keep.test(exercise.name)
+    );
+    if (kept.length === 0 || setAside.length === 0) return null;
+
+    for (const exercise of setAside) {
+      log(
+        change,
+        `exercises.${exercise.id}`,
+        exercise.name,
+        null,
+        `Set aside ${exercise.name} for now`,
+        exercise.id
+      );
+    }
+    return {
+      ...plan,
+      exercises: kept,
+      setAsideExercises: [...(plan.setAsideExercises ?? []), ...setAside],
     };
-    return downgrades[priority];
   }
 
-  private createComprehensiveRecoveryProtocol(
-    recommendations: AdaptationRecommendation[],
-    context: RuleContext
-  ): AdaptationRecommendation[] {
-    // Implementation for comprehensive recovery protocol
-    return recommendations;
+  private addExercises(
+    plan: WorkoutPlan,
+    change: PlanChange,
+    templates: Omit<Exercise, "id">[],
+    log: PlanChangeLogger
+  ): WorkoutPlan | null {
+    const names = new Set(plan.exercises.map((e) => e.name.toLowerCase()));
+    const exercises = [...plan.exercises];
+    for (const template of templates) {
+      if (names.has(template.name.toLowerCase())) continue;
+      const exercise = {
+        ...template,
+        id: uniqueExerciseId(template.name, [
+          ...exercises,
+          ...(plan.setAsideExercises ?? []),
+        ]),
+      };
+      exercises.push(exercise);
+      log(
+        change,
+        `exercises.${exercise.id}`,
+        null,
+        exercise.name,
+        `Added ${exercise.name}`,
+        exercise.id
+      );
+    }
+    return exercises.length > plan.exercises.length
+      ? { ...plan, exercises }
+      : null;
   }
 
-  private createSimplifiedProgressionPlan(
-    recommendations: AdaptationRecommendation[],
-    context: RuleContext
-  ): AdaptationRecommendation[] {
-    // Implementation for simplified progression plan
-    return recommendations;
-  }
+  // Extra reps on the core lifts, or on the first exercise when none match
+  private addReps(
+    plan: WorkoutPlan,
+    change: PlanChange,
+    extraReps: number,
+    log: PlanChangeLogger
+  ): WorkoutPlan {
+    const coreLifts = plan.exercises.filter((e) =>
+      CORE_LIFT_PATTERN.test(e.name)
+    );
+    const targets = new Set(
+      (coreLifts.length > 0 ? coreLifts : plan.exercises.slice(0, 1)).map(
+        (e) => e.id
+      )
+    );
 
-  private createGamifiedProgressionSystem(
-    recommendations: AdaptationRecommendation[],
-    context: RuleContext
-  ): AdaptationRecommendation[] {
-    // Implementation for gamified progression system
-    return recommendations;
+    return {
+      ...plan,
+      exercises: plan.exercises.map((exercise) => {
+        if (!targets.has(exercise.id)) return exercise;
+        const reps: Exercise["reps"] = Array.isArray(exercise.reps)
+          ? [exercise.reps[0] + extraReps, exercise.reps[1] + extraReps]
+          : exercise.reps + extraReps;
+        log(
+          change,
+          `exercises.${exercise.id}.reps`,
+          this.formatReps(exercise.reps),
+          this.formatReps(reps),
+          `${exercise.name} reps raised by ${extraReps} for the weekly challenge`,
+          exercise.id
+        );
+        return { ...exercise, reps };
+      }),
+    };
   }
 
-  private calculateEffectiveness(outcome: AdaptationOutcome): number {
-    // Implementation to calculate effectiveness based on outcome
-    return (
-      (outcome.adherenceChange +
-        outcome.motivationChange +
-        outcome.performanceChange) /
-      3
+  /**
+   * Concrete swaps for a variation directive: the targeted exercises, or up to
+   * a third of the plan, each replaced by its first alternative not already
+   * in the plan. Exercises swapped in earlier in the same apply stay put.
+   * Replacements keep sets, reps and intensity but not weight.
+   */
+  private generateVariationSwap(
+    exercises: Exercise[],
+    change: PlanChange,
+    swappedIn: Set<string>
+  ): PlanChange | null {
+    const inPlan = new Set(exercises.map((e) => e.name.toLowerCase()));
+    const usedIds = [...exercises];
+    const candidates = exercises.filter(
+      (exercise) =>
+        !swappedIn.has(exercise.id) &&
+        (!change.exerciseIds || change.exerciseIds.includes(exercise.id))
     );
+    const limit = change.exerciseIds
+      ? candidates.length
+      : Math.max(1, Math.ceil(exercises.length / 3));
+
+    const swaps: { exerciseId: string; replacement: Exercise }[] = [];
+    for (const exercise of candidates) {
+      if (swaps.length >= limit) break;
+      const options =
+        exercise.alternatives ?? findExerciseVariations(exercise.name);
+      const name = options.find((option) => !inPlan.has(option.toLowerCase()));
+      if (!name) continue;
+
+      inPlan.add(name.toLowerCase());
+      const { weight: _weight, ...rest } = exercise;
+      const replacement: Exercise = {
+        ...rest,
+        id: uniqueExerciseId(name, usedIds),
+        name,
+        alternatives: [exercise.name, ...options.filter((o) => o !== name)],
+      };
+      usedIds.push(replacement);
+      swaps.push({ exerciseId: exercise.id, replacement });
+    }
+
+    return swaps.length > 0
+      ? {
+          ...change,
+          exerciseIds: swaps.map((swap) => swap.exerciseId),
+          replacementExercises: swaps.map((swap) => swap.replacement),
+        }
+      : null;
   }
 
-  private async updateAnalytics(adaptation: AdaptationHistory): Promise<void> {
-    // Implementation to update analytics based on adaptation outcome
+  private formatReps(reps: number | [number, number]): string | number {
+    return Array.isArray(reps) ? `${reps[0]}-${reps[1]}` : reps;
   }
+}
 
-  private async updateRuleWeights(
-    adaptation: AdaptationHistory
-  ): Promise<void> {
-    // Implementation to update rule weights based on outcome
+// Common variations by movement, used when a plan exercise lists no alternatives
+const EXERCISE_VARIATIONS: [RegExp, string[]][] = [
+  [/deadlift/i, ["Romanian Deadlift", "Trap Bar Deadlift", "Sumo Deadlift"]],
+  [/squat/i, ["Front Squat", "Goblet Squat", "Bulgarian Split Squat"]],
+  [/lunge/i, ["Reverse Lunge", "Walking Lunge", "Step-Up"]],
+  [
+    /bench|chest press|push-?up/i,
+    ["Incline Dumbbell Press", "Dumbbell Bench Press", "Push-Up"],
+  ],
+  [
+    /overhead press|shoulder press|military press/i,
+    ["Dumbbell Shoulder Press", "Landmine Press", "Arnold Press"],
+  ],
+  [
+    /pull-?up|chin-?up|pulldown/i,
+    ["Lat Pulldown", "Chin-Up", "Neutral-Grip Pull-Up"],
+  ],
+  [/row/i, ["Chest-Supported Row", "Single-Arm Dumbbell Row", "Cable Row"]],
+  [/curl/i, ["Hammer Curl", "Incline Dumbbell Curl", "Cable Curl"]],
+  [
+    /tricep|dip|skull/i,
+    ["Cable Pushdown", "Close-Grip Bench Press", "Overhead Triceps Extension"],
+  ],
+  [
+    /hip thrust|glute bridge/i,
+    ["Glute Bridge", "Hip Thrust", "Cable Pull-Through"],
+  ],
+  [/plank|crunch|sit-?up/i, ["Dead Bug", "Side Plank", "Hanging Knee Raise"]],
+  [/run|jog/i, ["Interval Run", "Incline Walk", "Bike Intervals"]],
+  [/bike|cycl/i, ["Rowing Intervals", "Bike Intervals", "Incline Walk"]],
+];
+
+// Directives that rotate in variations of plan exercises
+const VARIATION_DIRECTIVE = /variation|variety|rotat/;
+
+// Multi-joint lifts kept by "core_lifts_only"; anything else is accessory work
+const CORE_LIFT_PATTERN =
+  /squat|deadlift|bench|press|row(?!ing)|pull-?up|chin-?up|lunge|hip thrust|clean|snatch|push-?up|dip/i;
+
+const CARDIO_PATTERN =
+  /run|jog|bike|cycl|rowing|walk|interval|swim|burpee|jump|sprint/i;
+
+// Exercises kept by "focus_<type>", by plan type
+const FOCUS_PATTERNS: Record<string, RegExp> = {
+  strength: CORE_LIFT_PATTERN,
+  cardio: CARDIO_PATTERN,
+  hiit: CARDIO_PATTERN,
+  flexibility: /stretch|mobility|yoga|breath|plank|dead bug|bird dog/i,
+};
+
+const MOBILITY_EXERCISE: Omit<Exercise, "id"> = {
+  name: "Mobility Flow",
+  sets: 1,
+  reps: 5,
+  duration: 10,
+  intensity: 2,
+};
+
+const BREATHWORK_EXERCISE: Omit<Exercise, "id"> = {
+  name: "Box Breathing",
+  sets: 1,
+  reps: 1,
+  duration: 5,
+  intensity: 1,
+};
+
+const SMALL_LOAD_INCREMENT = 2.5; // % per week
+
+// Slug of the name, suffixed until no exercise in the plan uses it
+function uniqueExerciseId(name: string, exercises: Exercise[]): string {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+  const taken = new Set(exercises.map((exercise) => exercise.id));
+  let id = base;
+  for (let n = 2; taken.has(id); n++) {
+    id = `${base}-${n}`;
   }
+  return id;
+}
 
-  private async updateUserSignatureFromOutcome(
-    userId: string,
-    adaptation: AdaptationHistory,
-    outcome: AdaptationOutcome
-  ): Promise<void> {
-    // Implementation to update user signature based on outcome
+// Plan values are kept unrounded; the change log shows two decimals
+function roundLoggedValue(
+  value: number | string | null
+): number | string | null {
+  return typeof value === "number" ? Math.round(value * 100) / 100 : value;
+}
+
+function findExerciseVariations(name: string): string[] {
+  const match = EXERCISE_VARIATIONS.find(([pattern]) => pattern.test(name));
+  return match ? match[1] : [];
+}
+
+// Running mean/variance accumulator (Welford)
+interface RunningStat {
+  count: number;
+  mean: number;
+  m2: number;
+}
+
+// Least-squares line with what's needed for prediction intervals
+interface LinearTrend {
+  slope: number;
+  intercept: number;
+  residualStd: number;
+  samples: number;
+  meanX: number;
+  sumSquaresX: number;
+}
+
+interface WorkoutTrends {
+  completion: LinearTrend; // 0-1
+  exertion: LinearTrend; // average session RPE
+  fatigue: LinearTrend;
+  rating: LinearTrend;
+  consistencyPerDay: number; // change in weekly consistency per day
+}
+
+function fitLinearTrend(
+  points: ReadonlyArray<readonly [number, number]>
+): LinearTrend {
+  const n = points.length;
+  if (n === 0) {
+    return {
+      slope: 0,
+      intercept: 0,
+      residualStd: 0,
+      samples: 0,
+      meanX: 0,
+      sumSquaresX: 0,
+    };
   }
 
-  private predictFutureNeeds(
-    signature: UserSignature,
-    history: AdaptationHistory[]
-  ): string[] {
-    // Implementation to predict future needs based on patterns
-    return [];
+  const meanX = points.reduce((sum, [x]) => sum + x, 0) / n;
+  const meanY = points.reduce((sum, [, y]) => sum + y, 0) / n;
+  const sumSquaresX = points.reduce((sum, [x]) => sum + (x - meanX) ** 2, 0);
+  const slope =
+    sumSquaresX > 0
+      ? points.reduce((sum, [x, y]) => sum + (x - meanX) * (y - meanY), 0) /
+        sumSquaresX
+      : 0;
+  const intercept = meanY - slope * meanX;
+  const residuals = points.reduce(
+    (sum, [x, y]) => sum + (y - (intercept + slope * x)) ** 2,
+    0
+  );
+
+  return {
+    slope,
+    intercept,
+    residualStd: n > 2 ? Math.sqrt(residuals / (n - 2)) : 0,
+    samples: n,
+    meanX,
+    sumSquaresX,
+  };
+}
+
+// Point prediction and standard error of a new observation at x
+function predictLinearTrend(
+  trend: LinearTrend,
+  x: number
+): { value: number; standardError: number } {
+  const leverage =
+    trend.sumSquaresX > 0 ? (x - trend.meanX) ** 2 / trend.sumSquaresX : 0;
+  return {
+    value: trend.intercept + trend.slope * x,
+    standardError:
+      trend.samples > 0
+        ? trend.residualStd * Math.sqrt(1 + 1 / trend.samples + leverage)
+        : 0,
+  };
+}
+
+// Seeded PRNG (mulberry32) so simulations are reproducible
+function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// FNV-1a 32-bit string hash
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
   }
+  return hash >>> 0;
+}
 
-  /**
-   * Initialize the rule set
-   */
-  private initializeRules() {
-    // Fatigue Management Rule
-    this.rules.push(new FatigueRule());
+// Simulation results kept for repeat analyses of unchanged users
+const SIMULATION_CACHE_SIZE = 500;
 
-    // Consistency Enforcement Rule
-    this.rules.push(new ConsistencyRule());
+// Parameter multipliers the ML model searches around a rule's own values
+const ML_PARAMETER_FACTORS = [0.5, 0.75, 1, 1.25, 1.5];
+
+interface LabelledMLSample {
+  features: Record<string, number>;
+  target: number; // effectiveness (-1 to 1)
+  weight: number;
+}
 
-    // Progressive Overload Rule
-    this.rules.push(new ProgressiveOverloadRule());
+// Gradient-boosted regression trees with squared loss
+class GradientBoostedTrees {
+  private constructor(
+    readonly featureNames: string[],
+    private baseScore: number,
+    private learningRate: number,
+    private trees: RegressionTreeNode[]
+  ) {}
+
+  static fit(
+    rows: number[][],
+    targets: number[],
+    weights: number[],
+    featureNames: string[],
+    hyperparameters: GradientBoostingHyperparameters
+  ): GradientBoostedTrees {
+    const { learning_rate, n_estimators, max_depth, min_samples_leaf } =
+      hyperparameters;
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    const baseScore =
+      targets.reduce((sum, y, i) => sum + y * weights[i], 0) / totalWeight;
+    const predictions = targets.map(() => baseScore);
+
+    // Sort once per feature; nodes filter these orders instead of re-sorting
+    const sortedIndices = featureNames.map((_, f) =>
+      rows.map((_, i) => i).sort((a, b) => rows[a][f] - rows[b][f])
+    );
+    const nodeOf = new Int32Array(rows.length);
+    let nextNodeId = 0;
+
+    const buildNode = (
+      indices: number[],
+      residuals: number[],
+      depth: number
+    ): RegressionTreeNode => {
+      let nodeWeight = 0;
+      let nodeSum = 0;
+      for (const i of indices) {
+        nodeWeight += weights[i];
+        nodeSum += weights[i] * residuals[i];
+      }
+      const node: RegressionTreeNode = { value: nodeSum / nodeWeight };
+      if (depth >= max_depth || indices.length < min_samples_leaf * 2) {
+        return node;
+      }
 
-    // Recovery Optimization Rule
-    this.rules.push(new RecoveryRule());
+      const nodeId = ++nextNodeId;
+      for (const i of indices) nodeOf[i] = nodeId;
+
+      let best: { feature: number; threshold: number; gain: number } | null =
+        null;
+      for (let f = 0; f < featureNames.length; f++) {
+        let leftWeight = 0;
+        let leftSum = 0;
+        let leftCount = 0;
+        let previous: number | undefined;
+
+        for (const i of sortedIndices[f]) {
+          if (nodeOf[i] !== nodeId) continue;
+          const value = rows[i][f];
+          if (
+            previous !== undefined &&
+            value > previous &&
+            leftCount >= min_samples_leaf &&
+            indices.length - leftCount >= min_samples_leaf
+          ) {
+            const rightWeight = nodeWeight - leftWeight;
+            const rightSum = nodeSum - leftSum;
+            const gain =
+              (leftSum * leftSum) / leftWeight +
+              (rightSum * rightSum) / rightWeight -
+              (nodeSum * nodeSum) / nodeWeight;
+            if (gain > 1e-12 && (!best || gain > best.gain)) {
+              best = { feature: f, threshold: (previous + value) / 2, gain };
+            }
+          }
+          leftWeight += weights[i];
+          leftSum += weights[i] * residuals[i];
+          leftCount++;
+          previous = value;
+        }
+      }
+      if (!best) return node;
 
-    // Motivation Maintenance Rule
-    this.rules.push(new MotivationRule());
+      const { feature, threshold, gain } = best;
+      const leftIndices = indices.filter((i) => rows[i][feature] <= threshold);
+      const rightIndices = indices.filter((i) => rows[i][feature] > threshold);
+      return {
+        ...node,
+        feature,
+        threshold,
+        gain,
+        left: buildNode(leftIndices, residuals, depth + 1),
+        right: buildNode(rightIndices, residuals, depth + 1),
+      };
+    };
 
-    // Plateau Breaking Rule
-    this.rules.push(new PlateauRule());
+    const trees: RegressionTreeNode[] = [];
+    const allIndices = rows.map((_, i) => i);
+    for (let t = 0; t < n_estimators; t++) {
+      const residuals = targets.map((y, i) => y - predictions[i]);
+      const tree = buildNode(allIndices, residuals, 0);
+      if (tree.feature === undefined) break; // nothing left to learn
+
+      trees.push(tree);
+      rows.forEach((row, i) => {
+        predictions[i] +=
+          learning_rate * GradientBoostedTrees.leafValue(tree, row);
+      });
+    }
 
-    // Stress Adaptation Rule
-    this.rules.push(new StressRule());
+    return new GradientBoostedTrees(
+      featureNames,
+      baseScore,
+      learning_rate,
+      trees
+    );
+  }
 
-    // Sleep Quality Rule
-    this.rules.push(new SleepRule());
+  static deserialize(serialized: SerializedMLModel): GradientBoostedTrees {
+    if (
+      !Array.isArray(serialized.featureNames) ||
+      !Array.isArray(serialized.trees) ||
+      typeof serialized.baseScore !== "number" ||
+      typeof serialized.learningRate !== "number"
+    ) {
+      throw new Error("Invalid serialized ML model");
+    }
+    return new GradientBoostedTrees(
+      [...serialized.featureNames],
+      serialized.baseScore,
+      serialized.learningRate,
+      structuredClone(serialized.trees)
+    );
   }
 
-  /**
-   * Apply recommendations to update the user's plan (legacy method for compatibility)
-   */
-  applyRecommendations(
-    currentPlan: WorkoutPlan,
-    recommendations: AdaptationRecommendation[]
-  ): WorkoutPlan {
-    let updatedPlan = { ...currentPlan };
+  predict(features: Record<string, number>): number {
+    const row = this.toRow(features);
+    return this.trees.reduce(
+      (score, tree) =>
+        score + this.learningRate * GradientBoostedTrees.leafValue(tree, row),
+      this.baseScore
+    );
+  }
 
-    for (const rec of recommendations) {
-      if (rec.priority === "critical" || rec.priority === "high") {
-        updatedPlan = this.applyChanges(updatedPlan, rec.changes);
+  // Per-feature contribution to a prediction, from value changes along each path
+  explain(features: Record<string, number>): Record<string, number> {
+    const row = this.toRow(features);
+    const contributions: Record<string, number> = {};
+
+    for (const tree of this.trees) {
+      let node = tree;
+      while (node.feature !== undefined && node.left && node.right) {
+        const child =
+          row[node.feature] <= node.threshold! ? node.left : node.right;
+        const name = this.featureNames[node.feature];
+        contributions[name] =
+          (contributions[name] || 0) +
+          this.learningRate * (child.value - node.value);
+        node = child;
       }
     }
 
-    return updatedPlan;
+    for (const name of Object.keys(contributions)) {
+      contributions[name] = Math.round(contributions[name] * 1000) / 1000;
+      if (contributions[name] === 0) delete contributions[name];
+    }
+    return contributions;
   }
 
-  private applyChanges(plan: WorkoutPlan, changes: PlanChange[]): WorkoutPlan {
-    let updatedPlan = { ...plan };
+  featureImportance(): Record<string, number> {
+    const gains: Record<string, number> = {};
+    const visit = (node: RegressionTreeNode) => {
+      if (node.feature === undefined || !node.left || !node.right) return;
+      const name = this.featureNames[node.feature];
+      gains[name] = (gains[name] || 0) + (node.gain || 0);
+      visit(node.left);
+      visit(node.right);
+    };
+    this.trees.forEach(visit);
 
-    for (const change of changes) {
-      switch (change.target) {
-        case "intensity":
-          updatedPlan.intensity = Math.max(
-            1,
-            Math.min(
-              10,
-              updatedPlan.intensity * (1 + (change.adjustment as number) / 100)
-            )
-          );
-          break;
-        case "volume":
-          updatedPlan.volume = Math.max(
-            1,
-            updatedPlan.volume * (1 + (change.adjustment as number) / 100)
-          );
-          break;
-        case "frequency":
-          updatedPlan.frequency = Math.max(
-            1,
-            Math.min(7, updatedPlan.frequency + (change.adjustment as number))
-          );
-          break;
-        // Add more cases as needed
-      }
+    const total = Object.values(gains).reduce((sum, g) => sum + g, 0);
+    for (const name of Object.keys(gains)) {
+      gains[name] = total > 0 ? gains[name] / total : 0;
     }
+    return gains;
+  }
 
-    return updatedPlan;
+  serialize(config: MLModelConfig): SerializedMLModel {
+    return {
+      config: { ...config },
+      featureNames: [...this.featureNames],
+      baseScore: this.baseScore,
+      learningRate: this.learningRate,
+      trees: structuredClone(this.trees),
+    };
+  }
+
+  private toRow(features: Record<string, number>): number[] {
+    return this.featureNames.map((name) => features[name] ?? 0);
+  }
+
+  private static leafValue(node: RegressionTreeNode, row: number[]): number {
+    while (node.feature !== undefined && node.left && node.right) {
+      node = row[node.feature] <= node.threshold! ? node.left : node.right;
+    }
+    return node.value;
   }
 }
 
 // Abstract base class for adaptation rules
-abstract class AdaptationRule {
+export abstract class AdaptationRule {
+  abstract readonly id: string; // stable id referenced by rule sets and weights
+
   abstract evaluate(
     userMetrics: UserMetrics,
     userSignature: UserSignature,
@@ -2188,7 +6953,9 @@ abstract class AdaptationRule {
 }
 
 // Specific rule implementations
-class FatigueRule extends AdaptationRule {
+export class FatigueRule extends AdaptationRule {
+  readonly id = "FatigueRule";
+
   evaluate(
     userMetrics: UserMetrics,
     userSignature: UserSignature,
@@ -2251,7 +7018,9 @@ class FatigueRule extends AdaptationRule {
   }
 }
 
-class ConsistencyRule extends AdaptationRule {
+export class ConsistencyRule extends AdaptationRule {
+  readonly id = "ConsistencyRule";
+
   evaluate(
     userMetrics: UserMetrics,
     userSignature: UserSignature,
@@ -2314,7 +7083,9 @@ class ConsistencyRule extends AdaptationRule {
   }
 }
 
-class ProgressiveOverloadRule extends AdaptationRule {
+export class ProgressiveOverloadRule extends AdaptationRule {
+  readonly id = "ProgressiveOverloadRule";
+
   evaluate(
     userMetrics: UserMetrics,
     userSignature: UserSignature,
@@ -2344,7 +7115,9 @@ class ProgressiveOverloadRule extends AdaptationRule {
   }
 }
 
-class RecoveryRule extends AdaptationRule {
+export class RecoveryRule extends AdaptationRule {
+  readonly id = "RecoveryRule";
+
   evaluate(
     userMetrics: UserMetrics,
     userSignature: UserSignature,
@@ -2371,7 +7144,9 @@ class RecoveryRule extends AdaptationRule {
   }
 }
 
-class MotivationRule extends AdaptationRule {
+export class MotivationRule extends AdaptationRule {
+  readonly id = "MotivationRule";
+
   evaluate(
     userMetrics: UserMetrics,
     userSignature: UserSignature,
@@ -2457,7 +7232,9 @@ class MotivationRule extends AdaptationRule {
   }
 }
 
-class PlateauRule extends AdaptationRule {
+export class PlateauRule extends AdaptationRule {
+  readonly id = "PlateauRule";
+
   evaluate(
     userMetrics: UserMetrics,
     userSignature: UserSignature,
@@ -2532,7 +7309,9 @@ class PlateauRule extends AdaptationRule {
   }
 }
 
-class StressRule extends AdaptationRule {
+export class StressRule extends AdaptationRule {
+  readonly id = "StressRule";
+
   evaluate(
     userMetrics: UserMetrics,
     userSignature: UserSignature,
@@ -2559,7 +7338,9 @@ class StressRule extends AdaptationRule {
   }
 }
 
-class SleepRule extends AdaptationRule {
+export class SleepRule extends AdaptationRule {
+  readonly id = "SleepRule";
+
   evaluate(
     userMetrics: UserMetrics,
     userSignature: UserSignature,
@@ -2583,6 +7364,358 @@ class SleepRule extends AdaptationRule {
   }
 }
 
+/**
+ * Declarative Rule DSL - coaches author rules as versioned JSON documents
+ * that compile into AdaptationRule instances
+ */
+const RULE_USER_METRIC_FIELDS = [
+  "currentPlan.intensity",
+  "currentPlan.volume",
+  "currentPlan.frequency",
+  "currentPlan.duration",
+  "currentPlan.progressionRate",
+  "progressData.streak",
+  "progressData.weeklyConsistency",
+  "progressData.monthlyConsistency",
+  "progressData.totalWorkouts",
+  "progressData.averageRating",
+  "biometrics.weight",
+  "biometrics.bodyFat",
+  "biometrics.muscleMass",
+  "biometrics.restingHeartRate",
+  "lifestyle.sleepHours",
+  "lifestyle.sleepQuality",
+  "lifestyle.stressLevel",
+  "lifestyle.energyLevel",
+  "lifestyle.workload",
+  "lifestyle.nutritionCompliance",
+  "lifestyle.hydration",
+  "mood.score",
+  "mood.motivation",
+  "mood.confidence",
+  "mood.anxiety",
+] as const;
+
+const RULE_PROPRIETARY_METRIC_FIELDS = [
+  "adaptiveRecoveryIndex",
+  "engagementScore",
+  "planVolatility",
+  "metabolicAdaptationScore",
+  "motivationalMomentum",
+  "adherenceQuality",
+  "progressVelocity",
+  "resilientIndex",
+  "adaptationEfficiency",
+] as const;
+
+const RULE_WORKOUT_FIELDS = [
+  "completionRate",
+  "userRating",
+  "reportedFatigue",
+] as const;
+
+const RuleOperatorSchema = z.enum(["lt", "lte", "gt", "gte", "eq", "neq"]);
+
+export type RuleConditionOperator = z.infer<typeof RuleOperatorSchema>;
+
+export type RuleCondition =
+  | {
+      source: "user_metrics";
+      field: (typeof RULE_USER_METRIC_FIELDS)[number];
+      operator: RuleConditionOperator;
+      value: number;
+    }
+  | {
+      source: "proprietary_metrics";
+      field: (typeof RULE_PROPRIETARY_METRIC_FIELDS)[number];
+      operator: RuleConditionOperator;
+      value: number;
+    }
+  | {
+      source: "recent_workouts";
+      field: (typeof RULE_WORKOUT_FIELDS)[number];
+      aggregate: "avg" | "min" | "max" | "last";
+      window?: number; // most recent N sessions, defaults to 3
+      operator: RuleConditionOperator;
+      value: number;
+    }
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition };
+
+export const RuleConditionSchema: z.ZodType<RuleCondition> = z.lazy(() =>
+  z.union([
+    z.object({
+      source: z.literal("user_metrics"),
+      field: z.enum(RULE_USER_METRIC_FIELDS),
+      operator: RuleOperatorSchema,
+      value: z.number(),
+    }),
+    z.object({
+      source: z.literal("proprietary_metrics"),
+      field: z.enum(RULE_PROPRIETARY_METRIC_FIELDS),
+      operator: RuleOperatorSchema,
+      value: z.number(),
+    }),
+    z.object({
+      source: z.literal("recent_workouts"),
+      field: z.enum(RULE_WORKOUT_FIELDS),
+      aggregate: z.enum(["avg", "min", "max", "last"]),
+      window: z.number().int().positive().optional(),
+      operator: RuleOperatorSchema,
+      value: z.number(),
+    }),
+    z.object({ all: z.array(RuleConditionSchema).min(1) }),
+    z.object({ any: z.array(RuleConditionSchema).min(1) }),
+    z.object({ not: RuleConditionSchema }),
+  ])
+);
+
+const ExerciseSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  sets: z.number().int().positive(),
+  reps: z.union([z.number(), z.tuple([z.number(), z.number()])]),
+  weight: z.number().optional(),
+  duration: z.number().optional(),
+  intensity: z.number().min(1).max(10),
+  alternatives: z.array(z.string()).optional(),
+});
+
+export const PlanChangeSchema = z.object({
+  target: z.enum(["intensity", "volume", "frequency", "exercise", "rest"]),
+  adjustment: z.union([z.number(), z.string()]),
+  exerciseIds: z.array(z.string()).optional(),
+  exerciseField: z.enum(["sets", "reps", "weight", "intensity"]).optional(),
+  replacementExercises: z.array(ExerciseSchema).optional(),
+});
+
+export const AdaptationRuleDocumentSchema = z.object({
+  id: z
+    .string()
+    .regex(
+      /^[A-Za-z][A-Za-z0-9_.-]*$/,
+      "Rule ids must start with a letter and contain only letters, digits, '_', '.' or '-'"
+    ),
+  version: z.string().min(1),
+  description: z.string().optional(),
+  author: z.string().optional(),
+  branches: z
+    .array(
+      z.object({
+        when: RuleConditionSchema,
+        recommendation: z.object({
+          type: z.enum([
+            "intensity",
+            "volume",
+            "frequency",
+            "exercise_swap",
+            "rest_day",
+            "nutrition",
+            "recovery",
+          ]),
+          priority: z.enum(["critical", "high", "medium", "low"]),
+          reason: z.string().min(1),
+          explanation: z.string().min(1),
+          duration: z.number().int().positive(),
+          changes: z.array(PlanChangeSchema).min(1),
+        }),
+      })
+    )
+    .min(1),
+});
+
+export type AdaptationRuleDocument = z.infer<
+  typeof AdaptationRuleDocumentSchema
+>;
+
+/**
+ * Rule compiled from a declarative document. Branches are evaluated in
+ * order and the first matching branch emits its recommendation.
+ */
+export class DeclarativeAdaptationRule extends AdaptationRule {
+  readonly id: string;
+  readonly documentVersion: string;
+  private document: AdaptationRuleDocument;
+
+  constructor(document: AdaptationRuleDocument) {
+    super();
+    this.id = document.id;
+    this.documentVersion = document.version;
+    this.document = document;
+  }
+
+  evaluate(
+    userMetrics: UserMetrics,
+    userSignature: UserSignature,
+    proprietaryMetrics: NateProprietaryMetrics
+  ): AdaptationRecommendation | null {
+    for (const branch of this.document.branches) {
+      if (!this.matches(branch.when, userMetrics, proprietaryMetrics)) {
+        continue;
+      }
+
+      const { recommendation } = branch;
+      return {
+        ...recommendation,
+        reason: this.interpolate(
+          recommendation.reason,
+          userMetrics,
+          proprietaryMetrics
+        ),
+        explanation: this.interpolate(
+          recommendation.explanation,
+          userMetrics,
+          proprietaryMetrics
+        ),
+        changes: recommendation.changes.map((change) => ({
+          ...change,
+          exerciseIds: change.exerciseIds ? [...change.exerciseIds] : undefined,
+        })),
+      };
+    }
+
+    return null;
+  }
+
+  private matches(
+    condition: RuleCondition,
+    userMetrics: UserMetrics,
+    proprietaryMetrics: NateProprietaryMetrics
+  ): boolean {
+    if ("all" in condition) {
+      return condition.all.every((c) =>
+        this.matches(c, userMetrics, proprietaryMetrics)
+      );
+    }
+    if ("any" in condition) {
+      return condition.any.some((c) =>
+        this.matches(c, userMetrics, proprietaryMetrics)
+      );
+    }
+    if ("not" in condition) {
+      return !this.matches(condition.not, userMetrics, proprietaryMetrics);
+    }
+
+    let actual: number | undefined;
+    switch (condition.source) {
+      case "user_metrics":
+        actual = this.resolveUserMetric(userMetrics, condition.field);
+        break;
+      case "proprietary_metrics":
+        actual = proprietaryMetrics[condition.field];
+        break;
+      case "recent_workouts":
+        actual = this.aggregateWorkouts(
+          userMetrics.recentWorkouts,
+          condition.field,
+          condition.aggregate,
+          condition.window ?? 3
+        );
+        break;
+    }
+
+    // Missing data never satisfies a comparison
+    if (actual === undefined || Number.isNaN(actual)) return false;
+
+    switch (condition.operator) {
+      case "lt":
+        return actual < condition.value;
+      case "lte":
+        return actual <= condition.value;
+      case "gt":
+        return actual > condition.value;
+      case "gte":
+        return actual >= condition.value;
+      case "eq":
+        return actual === condition.value;
+      case "neq":
+        return actual !== condition.value;
+    }
+  }
+
+  private resolveUserMetric(
+    userMetrics: UserMetrics,
+    path: string
+  ): number | undefined {
+    const value = path
+      .split(".")
+      .reduce<unknown>(
+        (current, key) =>
+          current && typeof current === "object"
+            ? (current as Record<string, unknown>)[key]
+            : undefined,
+        userMetrics
+      );
+    return typeof value === "number" ? value : undefined;
+  }
+
+  private aggregateWorkouts(
+    workouts: WorkoutSession[],
+    field: (typeof RULE_WORKOUT_FIELDS)[number],
+    aggregate: "avg" | "min" | "max" | "last",
+    window: number
+  ): number | undefined {
+    const values = workouts.slice(-window).map((w) => w[field]);
+    if (values.length === 0) return undefined;
+
+    switch (aggregate) {
+      case "avg":
+        return values.reduce((sum, v) => sum + v, 0) / values.length;
+      case "min":
+        return Math.min(...values);
+      case "max":
+        return Math.max(...values);
+      case "last":
+        return values[values.length - 1];
+    }
+  }
+
+  /**
+   * Replace {{user_metrics.<path>}} and {{proprietary_metrics.<field>}}
+   * placeholders in reason/explanation templates
+   */
+  private interpolate(
+    template: string,
+    userMetrics: UserMetrics,
+    proprietaryMetrics: NateProprietaryMetrics
+  ): string {
+    return template.replace(
+      /\{\{\s*(user_metrics|proprietary_metrics)\.([\w.]+)\s*\}\}/g,
+      (placeholder, source: string, path: string) => {
+        const value =
+          source === "user_metrics"
+            ? this.resolveUserMetric(userMetrics, path)
+            : (proprietaryMetrics as unknown as Record<string, unknown>)[path];
+        return typeof value === "number" ? String(value) : placeholder;
+      }
+    );
+  }
+}
+
+/**
+ * Validates rule documents and turns them into executable rules
+ */
+export class AdaptationRuleCompiler {
+  compile(document: unknown): DeclarativeAdaptationRule {
+    return new DeclarativeAdaptationRule(
+      AdaptationRuleDocumentSchema.parse(document)
+    );
+  }
+
+  compileAll(documents: unknown[]): DeclarativeAdaptationRule[] {
+    const rules = documents.map((document) => this.compile(document));
+    const ids = new Set<string>();
+    for (const rule of rules) {
+      if (ids.has(rule.id)) {
+        throw new Error(`Duplicate adaptation rule id "${rule.id}"`);
+      }
+      ids.add(rule.id);
+    }
+    return rules;
+  }
+}
+
 // Export validation schemas
 export const UserMetricsSchema = z.object({
   userId: z.string(),
@@ -2595,6 +7728,7 @@ export const UserMetricsSchema = z.object({
     duration: z.number().min(15).max(180),
     exercises: z.array(z.any()),
     progressionRate: z.number(),
+    setAsideExercises: z.array(z.any()).optional(),
   }),
   recentWorkouts: z.array(z.any()),
   progressData: z.object({
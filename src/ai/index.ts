@@ -17,14 +17,39 @@ export {
   LifestyleData as AdaptationLifestyleData,
   MoodData as AdaptationMoodData,
   PlanChange as AdaptationPlanChange,
+  PlanChangeLogEntry,
+  PlanApplicationResult,
+  PlanApplicationOptions,
   UserMetricsSchema,
 
+  // Adaptation Rules - Pluggable Registry
+  AdaptationRule,
+  FatigueRule,
+  ConsistencyRule,
+  ProgressiveOverloadRule,
+  RecoveryRule,
+  MotivationRule,
+  PlateauRule,
+  StressRule,
+  SleepRule,
+
+  // Adaptation Rules - Declarative DSL
+  AdaptationRuleCompiler,
+  DeclarativeAdaptationRule,
+  AdaptationRuleDocument,
+  AdaptationRuleDocumentSchema,
+  RuleCondition,
+  RuleConditionOperator,
+  RuleConditionSchema,
+  PlanChangeSchema as AdaptationPlanChangeSchema,
+
   // Advanced Adaptation Features
   UserSignature,
   NateProprietaryMetrics,
   AdaptationHistory,
   AdaptationOutcome,
   PlanLineage,
+  PlanBranchStatistics,
   RuleContext,
   RuleInteraction,
   AdaptationAnalytics,
@@ -32,9 +57,34 @@ export {
 
   // 🚀 Final Advanced Features
   RuleSetVersion,
+  RuleSetExperiment,
+  RuleSetExperimentArm,
+  ExperimentAssignment,
+  ExperimentResults,
+  RuleSetOutcomeMetric,
+  RuleSetOutcomeSample,
+  RuleSetMetricSummary,
   AdaptationExplanation,
   ExplanationFactor,
   AlternativeOption,
+  ExplainedAnalysis,
+  UserMetricsOverrides,
+  RecommendationDiff,
+  ExplanationFactorChange,
+  WhatIfResult,
+  AdaptationSchedule,
+  AdaptationPhase,
+  AdaptationMilestone,
+  ScheduledCheckIn,
+  BatchAnalysisOptions,
+  BatchAnalysisItem,
+  BatchAnalysisRun,
+  BatchAnalysisSummary,
+  BatchSegmentDimension,
+  BatchSegmentStats,
+  ReplaySnapshot,
+  ReplayStep,
+  ReplayReport,
   PreemptiveAdaptationPlan,
   PredictedAdaptation,
   EarlyWarningSignal,
@@ -50,6 +100,11 @@ export {
   MLFeature,
   MLPrediction,
   MLTrainingData,
+  MLTrainingOptions,
+  MLValidationReport,
+  GradientBoostingHyperparameters,
+  RegressionTreeNode,
+  SerializedMLModel,
 } from "./adaptation-engine";
 
 export {
@@ -72,7 +127,29 @@ export {
   Opportunity,
   RelevantHistory,
   PredictedNeeds,
+  ContextTopic,
+  ContextClassification,
+  NeedHorizon,
+  NeedPrediction,
+  LongTermFact,
+  WorkoutArchiveSummary,
+  ProfileUpdateOptions,
   UserMemoryProfileSchema,
+  MemoryInteraction,
+  MemoryInteractionInput,
+  MemoryInteractionSchema,
+  parseMemoryInteraction,
+  InteractionContext,
+  InteractionUserResponse,
+  InteractionExerciseResult,
+  WorkoutCompletedInteraction,
+  WorkoutSkippedInteraction,
+  GoalChangedInteraction,
+  FeedbackInteraction,
+  AdaptationAppliedInteraction,
+  InjuryReportedInteraction,
+  LifeEventInteraction,
+  AdaptationChangeRecord,
 
   // 🚀 Advanced Smart Memory Features
   NateSignatureScores,
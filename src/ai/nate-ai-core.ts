@@ -177,15 +177,28 @@ export class NateAICore {
     // Create service instances
     const cacheService = new CacheService(cacheConfig);
 
-    // Create stub persistence provider
+    // Create stub persistence provider, in memory but with the version check
+    const storedProfiles = new Map<string, UserMemoryProfile>();
     const persistenceProvider: IMemoryPersistenceProvider = {
-      saveMemoryProfile: async () => {},
-      loadMemoryProfile: async () => null,
+      saveMemoryProfile: async (profile, expectedVersion) => {
+        const storedVersion = storedProfiles.get(profile.userId)?.version ?? 0;
+        if (expectedVersion !== undefined && storedVersion !== expectedVersion) {
+          return false;
+        }
+        storedProfiles.set(profile.userId, structuredClone(profile));
+        return true;
+      },
+      loadMemoryProfile: async (userId) => {
+        const stored = storedProfiles.get(userId);
+        return stored ? structuredClone(stored) : null;
+      },
       saveReinforcementProfile: async () => {},
       loadReinforcementProfile: async () => null,
       savePrivacySettings: async () => {},
       loadPrivacySettings: async () => null,
-      deleteUserData: async () => {}
+      deleteUserData: async (userId) => {
+        storedProfiles.delete(userId);
+      }
     };
 
     const memoryPersistence = new MemoryPersistenceService(persistenceProvider, cacheService);
@@ -0,0 +1,487 @@
+import {
+  AdaptationRecommendation,
+  PlanChange,
+  WorkoutPlan,
+  WorkoutSession,
+} from "../adaptation-engine";
+
+type BoundedPlanField = "intensity" | "volume" | "frequency";
+type ExerciseField = NonNullable<PlanChange["exerciseField"]>;
+
+export interface GuardrailConfig {
+  weeklyBudgets: Record<BoundedPlanField, number>; // max net change per 7 days: % for intensity/volume, sessions for frequency
+  exerciseWeeklyBudgets: Record<ExerciseField, number>; // max net % change per exercise field per 7 days
+  maxWeeklyCuts: Record<BoundedPlanField, number>; // max net reduction per 7 days, critical reductions included
+  exerciseMaxWeeklyCuts: Record<ExerciseField, number>; // same, per exercise field
+  bounds: Record<BoundedPlanField, [number, number]>; // absolute plan values
+  injuryBlockedIncreases: BoundedPlanField[]; // fields that may not increase while injury risks are flagged
+  highIntensityThreshold: number; // plan intensity or session RPE (1-10) counted as high intensity
+  minRestHoursBetweenHighIntensity: number;
+}
+
+export const DEFAULT_GUARDRAIL_CONFIG: GuardrailConfig = {
+  weeklyBudgets: { intensity: 25, volume: 30, frequency: 2 },
+  exerciseWeeklyBudgets: { sets: 30, reps: 30, weight: 15, intensity: 25 },
+  maxWeeklyCuts: { intensity: 40, volume: 40, frequency: 2 },
+  exerciseMaxWeeklyCuts: { sets: 50, reps: 50, weight: 30, intensity: 40 },
+  bounds: { intensity: [1, 10], volume: [4, 60], frequency: [1, 7] },
+  injuryBlockedIncreases: ["intensity", "volume", "frequency"],
+  highIntensityThreshold: 8,
+  minRestHoursBetweenHighIntensity: 48,
+};
+
+export type GuardrailType =
+  | "weekly_budget"
+  | "absolute_bound"
+  | "injury_contraindication"
+  | "high_intensity_rest";
+
+export interface GuardrailAuditEntry {
+  guardrail: GuardrailType;
+  userId: string;
+  recommendationType: AdaptationRecommendation["type"];
+  ruleId?: string;
+  target: PlanChange["target"];
+  exerciseIds?: string[];
+  originalAdjustment: number | string;
+  adjustedAdjustment: number | string | null; // null when the change was removed
+  limit?: number; // the budget or bound that was hit
+  reason: string;
+  timestamp: Date;
+}
+
+export interface GuardrailResult {
+  recommendations: AdaptationRecommendation[];
+  audit: GuardrailAuditEntry[];
+}
+
+// Net change already applied to the plan in the current 7-day window
+export interface WeeklyPlanChanges extends Record<BoundedPlanField, number> {
+  exercises?: Record<string, number>; // "exerciseId.field" ("*" for every exercise) -> net %
+}
+
+/**
+ * Who and what the guarded recommendations apply to
+ */
+export interface GuardrailSubject {
+  userId: string;
+  plan: WorkoutPlan;
+  injuryRiskFactors: string[];
+  recentWorkouts: WorkoutSession[]; // checked for recent high-intensity sessions
+}
+
+/**
+ * Clamps recommendations so that, combined, they keep a plan within safe
+ * limits. Recommendations are processed in priority order, so higher
+ * priority changes claim the weekly budget first. Reductions from critical
+ * recommendations are safety reductions: they may go past the weekly budget
+ * up to the weekly cut limit, and never below the absolute bounds.
+ */
+export class AdaptationGuardrails {
+  private config: GuardrailConfig;
+
+  constructor(config: Partial<GuardrailConfig> = {}) {
+    this.config = mergeConfig(DEFAULT_GUARDRAIL_CONFIG, config);
+  }
+
+  configure(config: Partial<GuardrailConfig>): GuardrailConfig {
+    this.config = mergeConfig(this.config, config);
+    return this.getConfig();
+  }
+
+  getConfig(): GuardrailConfig {
+    return structuredClone(this.config);
+  }
+
+  enforce(
+    recommendations: AdaptationRecommendation[],
+    subject: GuardrailSubject,
+    priorChanges: WeeklyPlanChanges = { intensity: 0, volume: 0, frequency: 0 },
+    now: Date = new Date() // replays pass the snapshot's time
+  ): GuardrailResult {
+    const audit: GuardrailAuditEntry[] = [];
+    const plan = subject.plan;
+    const used: WeeklyPlanChanges = {
+      ...priorChanges,
+      exercises: { ...priorChanges.exercises },
+    };
+    const projected: Record<BoundedPlanField, number> = {
+      intensity: plan.intensity,
+      volume: plan.volume,
+      frequency: plan.frequency,
+    };
+    const injuryRisks = subject.injuryRiskFactors.map((r) => r.toLowerCase());
+    const restingFromHighIntensity = this.isWithinHighIntensityRest(
+      subject.recentWorkouts,
+      now
+    );
+
+    const guarded = recommendations
+      .map((recommendation) => {
+        const record = (
+          guardrail: GuardrailType,
+          change: PlanChange,
+          adjustedAdjustment: number | string | null,
+          reason: string,
+          limit?: number
+        ) =>
+          audit.push({
+            guardrail,
+            userId: subject.userId,
+            recommendationType: recommendation.type,
+            ruleId: recommendation.ruleId,
+            target: change.target,
+            exerciseIds: change.exerciseIds,
+            originalAdjustment: change.adjustment,
+            adjustedAdjustment,
+            limit,
+            reason,
+            timestamp: now,
+          });
+
+        const changes: PlanChange[] = [];
+        for (const change of recommendation.changes) {
+          if (change.target === "exercise") {
+            const blocked = this.findExerciseContraindication(
+              change,
+              plan,
+              injuryRisks
+            );
+            if (blocked) {
+              record("injury_contraindication", change, null, blocked);
+              continue;
+            }
+
+            const budgeted = this.budgetExerciseChange(
+              change,
+              recommendation.priority === "critical",
+              plan,
+              used.exercises!,
+              (adjusted, budget, limitName) =>
+                record(
+                  "weekly_budget",
+                  change,
+                  adjusted,
+                  `Weekly ${change.exerciseField} ${limitName} of ${budget}% per exercise would be exceeded`,
+                  budget
+                )
+            );
+            if (budgeted) changes.push(budgeted);
+            continue;
+          }
+
+          const field: BoundedPlanField =
+            change.target === "rest" ? "frequency" : change.target;
+          let delta = this.toFieldDelta(change);
+          if (delta === null) {
+            changes.push(change); // malformed changes are reported when applied
+            continue;
+          }
+
+          if (
+            delta > 0 &&
+            injuryRisks.length > 0 &&
+            this.config.injuryBlockedIncreases.includes(field)
+          ) {
+            record(
+              "injury_contraindication",
+              change,
+              null,
+              `${field} increases are blocked while injury risks are flagged (${subject.injuryRiskFactors.join(", ")})`
+            );
+            continue;
+          }
+
+          if (delta > 0 && field === "intensity" && restingFromHighIntensity) {
+            record(
+              "high_intensity_rest",
+              change,
+              null,
+              `Last high-intensity session was under ${this.config.minRestHoursBetweenHighIntensity} hours ago`,
+              this.config.minRestHoursBetweenHighIntensity
+            );
+            continue;
+          }
+
+          // Weekly budget on the net change for this field
+          const safetyReduction =
+            delta < 0 && recommendation.priority === "critical";
+          const budget = safetyReduction
+            ? this.config.maxWeeklyCuts[field]
+            : this.config.weeklyBudgets[field];
+          const remaining =
+            delta > 0
+              ? Math.max(0, budget - used[field])
+              : Math.min(0, -budget - used[field]);
+          if (Math.abs(delta) > Math.abs(remaining)) {
+            record(
+              "weekly_budget",
+              change,
+              remaining === 0 ? null : this.fromFieldDelta(change, remaining),
+              `Weekly ${field} ${safetyReduction ? "cut limit" : "change budget"} of ${budget}${field === "frequency" ? " sessions" : "%"} would be exceeded`,
+              budget
+            );
+            if (remaining === 0) continue;
+            delta = remaining;
+          }
+
+          // Absolute bounds on the resulting plan value
+          const [min, max] = this.config.bounds[field];
+          const next = this.projectValue(field, projected[field], delta);
+          if ((next > max && delta > 0) || (next < min && delta < 0)) {
+            const target = Math.max(min, Math.min(max, next));
+            const candidate = this.deltaForValue(
+              field,
+              projected[field],
+              target
+            );
+            // Plans already outside the bounds may not move further out
+            const boundedDelta =
+              Math.sign(candidate) === Math.sign(delta) ? candidate : 0;
+            const limit = next < min ? min : max;
+            record(
+              "absolute_bound",
+              change,
+              boundedDelta === 0
+                ? null
+                : this.fromFieldDelta(change, boundedDelta),
+              `Plan ${field} must stay between ${min} and ${max}`,
+              limit
+            );
+            if (boundedDelta === 0) continue;
+            delta = boundedDelta;
+          }
+
+          // Cap sessions per week while the plan is high intensity
+          if (
+            field === "frequency" &&
+            delta > 0 &&
+            projected.intensity >= this.config.highIntensityThreshold
+          ) {
+            const maxSessions = Math.max(
+              1,
+              Math.floor(
+                (7 * 24) / this.config.minRestHoursBetweenHighIntensity
+              )
+            );
+            const room = Math.max(0, maxSessions - projected.frequency);
+            if (delta > room) {
+              record(
+                "high_intensity_rest",
+                change,
+                room === 0 ? null : this.fromFieldDelta(change, room),
+                `High-intensity plans allow at most ${maxSessions} sessions per week for ${this.config.minRestHoursBetweenHighIntensity} hours of rest between them`,
+                maxSessions
+              );
+              if (room === 0) continue;
+              delta = room;
+            }
+          }
+
+          used[field] += delta;
+          projected[field] = this.projectValue(field, projected[field], delta);
+          changes.push(
+            delta === this.toFieldDelta(change)
+              ? change
+              : { ...change, adjustment: this.fromFieldDelta(change, delta) }
+          );
+        }
+
+        return { ...recommendation, changes };
+      })
+      .filter(
+        (rec, index) =>
+          rec.changes.length > 0 || recommendations[index].changes.length === 0
+      );
+
+    return { recommendations: guarded, audit };
+  }
+
+  /**
+   * Per-exercise sets/reps/weight/intensity changes share a weekly budget per
+   * exercise and field; a change without exerciseIds counts against every
+   * exercise in the plan. Critical reductions use the cut limit instead.
+   * Returns null when no budget is left.
+   */
+  private budgetExerciseChange(
+    change: PlanChange,
+    critical: boolean,
+    plan: WorkoutPlan,
+    used: Record<string, number>,
+    onClamp: (
+      adjusted: number | null,
+      budget: number,
+      limitName: string
+    ) => void
+  ): PlanChange | null {
+    const field = change.exerciseField;
+    if (!field || typeof change.adjustment !== "number") return change;
+
+    let delta = change.adjustment;
+    const safetyReduction = delta < 0 && critical;
+    const budget = safetyReduction
+      ? this.config.exerciseMaxWeeklyCuts[field]
+      : this.config.exerciseWeeklyBudgets[field];
+    const ids = change.exerciseIds || plan.exercises.map((e) => e.id);
+    const usedFor = (id: string) =>
+      (used[`${id}.${field}`] ?? 0) + (used[`*.${field}`] ?? 0);
+
+    const remaining = ids.reduce((room, id) => {
+      const left =
+        delta > 0
+          ? Math.max(0, budget - usedFor(id))
+          : Math.min(0, -budget - usedFor(id));
+      return Math.abs(left) < Math.abs(room) ? left : room;
+    }, delta);
+    if (Math.abs(remaining) < Math.abs(delta)) {
+      onClamp(
+        remaining === 0 ? null : Math.round(remaining * 10) / 10,
+        budget,
+        safetyReduction ? "cut limit" : "change budget"
+      );
+      if (remaining === 0) return null;
+      delta = remaining;
+    }
+
+    const keys = change.exerciseIds
+      ? change.exerciseIds.map((id) => `${id}.${field}`)
+      : [`*.${field}`];
+    keys.forEach((key) => (used[key] = (used[key] ?? 0) + delta));
+
+    return delta === change.adjustment
+      ? change
+      : { ...change, adjustment: Math.round(delta * 10) / 10 };
+  }
+
+  // Signed change for a plan field: % for intensity/volume, sessions for frequency
+  private toFieldDelta(change: PlanChange): number | null {
+    if (change.target === "rest") {
+      const restDays = parseRestDayAdjustment(change.adjustment);
+      return restDays === null ? null : -restDays; // rest days replace sessions
+    }
+    return typeof change.adjustment === "number" ? change.adjustment : null;
+  }
+
+  private fromFieldDelta(change: PlanChange, delta: number): number | string {
+    if (change.target !== "rest") {
+      return Math.round(delta * 10) / 10;
+    }
+    const restDays = -Math.round(delta);
+    if (typeof change.adjustment === "number") return restDays;
+    return `${restDays > 0 ? "+" : ""}${restDays} day${Math.abs(restDays) === 1 ? "" : "s"}`;
+  }
+
+  private projectValue(
+    field: BoundedPlanField,
+    current: number,
+    delta: number
+  ): number {
+    return field === "frequency"
+      ? current + delta
+      : current * (1 + delta / 100);
+  }
+
+  private deltaForValue(
+    field: BoundedPlanField,
+    current: number,
+    target: number
+  ): number {
+    if (field === "frequency") return Math.round(target - current);
+    if (current === 0) return 0;
+    // Round toward zero so the rounded change never crosses the bound
+    return Math.trunc((target / current - 1) * 100 * 10) / 10;
+  }
+
+  private findExerciseContraindication(
+    change: PlanChange,
+    plan: WorkoutPlan,
+    injuryRisks: string[]
+  ): string | null {
+    if (injuryRisks.length === 0) return null;
+
+    const matchesRisk = (name: string) =>
+      injuryRisks.find((risk) => name.toLowerCase().includes(risk));
+
+    for (const replacement of change.replacementExercises || []) {
+      const risk = matchesRisk(replacement.name);
+      if (risk) {
+        return `Swap-in ${replacement.name} loads flagged injury risk "${risk}"`;
+      }
+    }
+
+    const isIncrease =
+      typeof change.adjustment === "number" && change.adjustment > 0;
+    if (isIncrease && change.exerciseField !== "reps") {
+      for (const exercise of plan.exercises) {
+        if (!change.exerciseIds?.includes(exercise.id)) continue;
+        const risk = matchesRisk(exercise.name);
+        if (risk) {
+          return `Load increase on ${exercise.name} conflicts with flagged injury risk "${risk}"`;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private isWithinHighIntensityRest(
+    recentWorkouts: WorkoutSession[],
+    now: Date
+  ): boolean {
+    const cutoff =
+      now.getTime() -
+      this.config.minRestHoursBetweenHighIntensity * 60 * 60 * 1000;
+
+    return recentWorkouts.some((workout) => {
+      const completed = workout.completedAt?.getTime();
+      if (
+        completed === undefined ||
+        completed < cutoff ||
+        completed > now.getTime()
+      ) {
+        return false;
+      }
+      const results = workout.exerciseResults;
+      const averageRpe =
+        results.length > 0
+          ? results.reduce((sum, r) => sum + r.perceivedExertion, 0) /
+            results.length
+          : 0;
+      return averageRpe >= this.config.highIntensityThreshold;
+    });
+  }
+}
+
+/**
+ * Rest adjustments are a day count: a number or a string like "+2 days"
+ */
+export function parseRestDayAdjustment(
+  adjustment: number | string
+): number | null {
+  if (typeof adjustment === "number") {
+    return Math.round(adjustment);
+  }
+  const match = adjustment.match(/^\s*([+-]?\d+)\s*days?\s*$/i);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+function mergeConfig(
+  base: GuardrailConfig,
+  overrides: Partial<GuardrailConfig>
+): GuardrailConfig {
+  return {
+    ...base,
+    ...overrides,
+    weeklyBudgets: { ...base.weeklyBudgets, ...overrides.weeklyBudgets },
+    exerciseWeeklyBudgets: {
+      ...base.exerciseWeeklyBudgets,
+      ...overrides.exerciseWeeklyBudgets,
+    },
+    maxWeeklyCuts: { ...base.maxWeeklyCuts, ...overrides.maxWeeklyCuts },
+    exerciseMaxWeeklyCuts: {
+      ...base.exerciseMaxWeeklyCuts,
+      ...overrides.exerciseMaxWeeklyCuts,
+    },
+    bounds: { ...base.bounds, ...overrides.bounds },
+  };
+}
@@ -0,0 +1,345 @@
+import {
+  AdaptationPhase,
+  AdaptationRecommendation,
+  PlanChange,
+  PlanChangeLogEntry,
+  WorkoutPlan,
+} from "../adaptation-engine";
+import { parseRestDayAdjustment } from "./AdaptationGuardrails";
+
+export type ScheduledAdaptationStatus =
+  | "scheduled" // starts in the future
+  | "active"
+  | "expired" // temporary change reverted after its duration
+  | "completed" // permanent change, kept in the plan after its duration
+  | "cancelled";
+
+export interface ScheduledAdaptation {
+  id: string;
+  planId: string;
+  recommendation: AdaptationRecommendation;
+  adaptationId?: string; // history id of the recommendation, if recorded
+  userId?: string; // owner whose guardrails later phases go through
+  startsAt: Date;
+  expiresAt: Date;
+  revertOnExpiry: boolean; // deloads and recovery cuts are undone when they expire
+  cancelledAt?: Date;
+  cancellationReason?: string;
+  guardedPhaseChanges?: Record<number, PlanChange[]>; // phase startWeek -> changes after guardrails, filled as each phase starts
+}
+
+export interface ScheduleOptions {
+  startsAt?: Date;
+  revertOnExpiry?: boolean; // defaults to true for reductions and recovery
+  userId?: string; // whose weekly guardrail budget the adaptations use
+}
+
+// Base plan plus everything scheduled against it, in a serializable shape
+export interface PlanScheduleState {
+  basePlan: WorkoutPlan;
+  adaptations: ScheduledAdaptation[];
+}
+
+export interface EffectivePlan {
+  planId: string;
+  date: Date;
+  plan: WorkoutPlan;
+  appliedAdaptations: ScheduledAdaptation[];
+  changeLog: PlanChangeLogEntry[];
+  skippedChanges: { change: PlanChange; reason: string }[];
+  nextChangeAt?: Date; // next start, phase, expiry or cancellation boundary
+}
+
+export type ScheduledPlanApplier = (
+  plan: WorkoutPlan,
+  recommendations: AdaptationRecommendation[]
+) => {
+  plan: WorkoutPlan;
+  changeLog: PlanChangeLogEntry[];
+  skippedChanges: { change: PlanChange; reason: string }[];
+};
+
+// Clamps a later phase's changes against the plan in effect when it starts
+export type ScheduledPhaseGuard = (
+  plan: WorkoutPlan,
+  recommendation: AdaptationRecommendation,
+  adaptation: ScheduledAdaptation,
+  startsAt: Date
+) => PlanChange[];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ENDED_RETENTION_DAYS = 28; // expired and cancelled adaptations kept for past lookups
+
+/**
+ * Tracks when each applied adaptation starts and ends. The plan a user
+ * should follow on a given date is recomputed from the base plan, so
+ * temporary changes drop out on expiry instead of becoming the new baseline.
+ */
+export class AdaptationScheduler {
+  private schedules: Map<string, PlanScheduleState> = new Map();
+  private applyChanges: ScheduledPlanApplier;
+  private guardPhase: ScheduledPhaseGuard;
+  private onPhaseGuarded: (planId: string) => void;
+
+  constructor(
+    applyChanges: ScheduledPlanApplier,
+    guardPhase: ScheduledPhaseGuard = (_plan, recommendation) =>
+      recommendation.changes,
+    onPhaseGuarded: (planId: string) => void = () => {}
+  ) {
+    this.applyChanges = applyChanges;
+    this.guardPhase = guardPhase;
+    this.onPhaseGuarded = onPhaseGuarded;
+  }
+
+  load(states: PlanScheduleState[]): void {
+    states.forEach((state) => this.schedules.set(state.basePlan.id, state));
+  }
+
+  getState(planId: string): PlanScheduleState | undefined {
+    return this.schedules.get(planId);
+  }
+
+  /**
+   * Schedule recommendations against a plan. The first call's basePlan must
+   * be the plan without any scheduled adaptations and becomes its baseline;
+   * later calls keep that baseline. Adaptations that ended more than four
+   * weeks before startsAt are dropped.
+   */
+  schedule(
+    basePlan: WorkoutPlan,
+    recommendations: AdaptationRecommendation[],
+    options: ScheduleOptions = {}
+  ): ScheduledAdaptation[] {
+    const startsAt = options.startsAt || new Date();
+    const state = this.schedules.get(basePlan.id) || {
+      basePlan,
+      adaptations: [],
+    };
+    this.prune(state, startsAt);
+
+    const sequence = state.adaptations.length;
+    const scheduled = recommendations.map((recommendation, index) => ({
+      id: `sched-${basePlan.id}-${startsAt.getTime()}-${sequence + index}`,
+      planId: basePlan.id,
+      recommendation,
+      adaptationId: recommendation.adaptationId,
+      userId: options.userId,
+      startsAt,
+      expiresAt: new Date(
+        startsAt.getTime() + Math.max(1, recommendation.duration) * DAY_MS
+      ),
+      revertOnExpiry:
+        options.revertOnExpiry ?? this.isTemporary(recommendation),
+    }));
+
+    state.adaptations.push(...scheduled);
+    this.schedules.set(basePlan.id, state);
+    return scheduled;
+  }
+
+  cancel(
+    scheduledId: string,
+    at: Date = new Date(),
+    reason?: string
+  ): ScheduledAdaptation {
+    const adaptation = this.findScheduled(scheduledId);
+    if (!adaptation) {
+      throw new Error(`Unknown scheduled adaptation "${scheduledId}"`);
+    }
+    if (adaptation.cancelledAt) {
+      throw new Error(
+        `Scheduled adaptation "${scheduledId}" is already cancelled`
+      );
+    }
+
+    const status = this.getStatus(adaptation, at);
+    if (status === "expired" || status === "completed") {
+      throw new Error(
+        `Scheduled adaptation "${scheduledId}" already ended on ${adaptation.expiresAt.toISOString()}`
+      );
+    }
+
+    adaptation.cancelledAt = at;
+    adaptation.cancellationReason = reason;
+    return adaptation;
+  }
+
+  // Completed adaptations stay: their changes are part of the plan from then on
+  private prune(state: PlanScheduleState, now: Date): void {
+    const cutoff = now.getTime() - ENDED_RETENTION_DAYS * DAY_MS;
+    state.adaptations = state.adaptations.filter((adaptation) => {
+      const status = this.getStatus(adaptation, now);
+      const endedAt =
+        status === "cancelled" ? adaptation.cancelledAt! : adaptation.expiresAt;
+      return (
+        (status !== "expired" && status !== "cancelled") ||
+        endedAt.getTime() >= cutoff
+      );
+    });
+  }
+
+  findScheduled(scheduledId: string): ScheduledAdaptation | undefined {
+    for (const state of this.schedules.values()) {
+      const adaptation = state.adaptations.find((a) => a.id === scheduledId);
+      if (adaptation) return adaptation;
+    }
+    return undefined;
+  }
+
+  getAdaptations(planId: string): ScheduledAdaptation[] {
+    return this.schedules.get(planId)?.adaptations || [];
+  }
+
+  getActive(planId: string, date: Date = new Date()): ScheduledAdaptation[] {
+    return this.getAdaptations(planId).filter(
+      (adaptation) => this.getStatus(adaptation, date) === "active"
+    );
+  }
+
+  getStatus(
+    adaptation: ScheduledAdaptation,
+    date: Date = new Date()
+  ): ScheduledAdaptationStatus {
+    const time = date.getTime();
+    if (adaptation.cancelledAt && adaptation.cancelledAt.getTime() <= time) {
+      return "cancelled";
+    }
+    if (time < adaptation.startsAt.getTime()) return "scheduled";
+    if (time < adaptation.expiresAt.getTime()) return "active";
+    return adaptation.revertOnExpiry ? "expired" : "completed";
+  }
+
+  /**
+   * The plan in effect on a date: the base plan with every active or
+   * completed adaptation applied in start order
+   */
+  getEffectivePlan(planId: string, date: Date = new Date()): EffectivePlan {
+    const state = this.schedules.get(planId);
+    if (!state) {
+      throw new Error(`No adaptations scheduled for plan "${planId}"`);
+    }
+
+    const inEffect = state.adaptations
+      .filter((adaptation) =>
+        ["active", "completed"].includes(this.getStatus(adaptation, date))
+      )
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+    const { plan, changeLog, skippedChanges } = this.applyChanges(
+      state.basePlan,
+      inEffect.map((adaptation) => ({
+        ...adaptation.recommendation,
+        changes: this.changesInEffect(adaptation, date),
+      }))
+    );
+
+    return {
+      planId,
+      date,
+      plan: { ...plan, id: planId },
+      appliedAdaptations: inEffect,
+      changeLog,
+      skippedChanges,
+      nextChangeAt: this.nextBoundary(state.adaptations, date),
+    };
+  }
+
+  // Multi-phase recommendations add each phase's changes as its week begins.
+  // The first phase was guarded when scheduled, later ones are guarded as they start.
+  private changesInEffect(
+    adaptation: ScheduledAdaptation,
+    date: Date
+  ): PlanChange[] {
+    const schedule = adaptation.recommendation.schedule;
+    if (!schedule) return adaptation.recommendation.changes;
+
+    return schedule.phases
+      .filter(
+        (phase) =>
+          this.phaseStart(adaptation, phase.startWeek).getTime() <=
+          date.getTime()
+      )
+      .flatMap((phase, index) =>
+        index === 0
+          ? adaptation.recommendation.changes
+          : this.guardedPhaseChanges(adaptation, phase)
+      );
+  }
+
+  private guardedPhaseChanges(
+    adaptation: ScheduledAdaptation,
+    phase: AdaptationPhase
+  ): PlanChange[] {
+    const guarded = adaptation.guardedPhaseChanges?.[phase.startWeek];
+    if (guarded) return guarded;
+
+    // Only earlier phases are in effect just before this one starts
+    const startsAt = this.phaseStart(adaptation, phase.startWeek);
+    const { plan } = this.getEffectivePlan(
+      adaptation.planId,
+      new Date(startsAt.getTime() - 1)
+    );
+    const changes = this.guardPhase(
+      plan,
+      { ...adaptation.recommendation, changes: phase.changes },
+      adaptation,
+      startsAt
+    );
+
+    adaptation.guardedPhaseChanges = {
+      ...adaptation.guardedPhaseChanges,
+      [phase.startWeek]: changes,
+    };
+    this.onPhaseGuarded(adaptation.planId);
+    return changes;
+  }
+
+  private nextBoundary(
+    adaptations: ScheduledAdaptation[],
+    date: Date
+  ): Date | undefined {
+    const boundaries = adaptations.flatMap((adaptation) => [
+      adaptation.startsAt,
+      adaptation.expiresAt,
+      ...(adaptation.cancelledAt ? [adaptation.cancelledAt] : []),
+      ...(adaptation.recommendation.schedule?.phases || []).map((phase) =>
+        this.phaseStart(adaptation, phase.startWeek)
+      ),
+    ]);
+    const upcoming = boundaries
+      .map((boundary) => boundary.getTime())
+      .filter((time) => time > date.getTime());
+
+    return upcoming.length > 0 ? new Date(Math.min(...upcoming)) : undefined;
+  }
+
+  private phaseStart(adaptation: ScheduledAdaptation, startWeek: number): Date {
+    return new Date(
+      adaptation.startsAt.getTime() + (startWeek - 1) * 7 * DAY_MS
+    );
+  }
+
+  // Recovery work and pure load reductions are temporary; progressions stick
+  private isTemporary(recommendation: AdaptationRecommendation): boolean {
+    if (
+      recommendation.schedule ||
+      recommendation.type === "recovery" ||
+      recommendation.type === "rest_day"
+    ) {
+      return true;
+    }
+
+    const directions = recommendation.changes
+      .map((change) => {
+        if (change.target === "rest") {
+          return -Math.sign(parseRestDayAdjustment(change.adjustment) ?? 0);
+        }
+        return typeof change.adjustment === "number"
+          ? Math.sign(change.adjustment)
+          : 0;
+      })
+      .filter((direction) => direction !== 0);
+
+    return directions.length > 0 && directions.every((d) => d < 0);
+  }
+}
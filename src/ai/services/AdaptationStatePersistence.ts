@@ -0,0 +1,364 @@
+import { promises as fs } from "fs";
+import {
+  AdaptationAnalytics,
+  UserSignature,
+  AdaptationHistory,
+  PlanLineage,
+  RuleWeights,
+  MLTrainingData,
+  RuleSetVersion,
+  RuleSetExperiment,
+  SerializedMLModel,
+} from "../adaptation-engine";
+import { PlanScheduleState } from "./AdaptationScheduler";
+
+/**
+ * Everything the AdaptationEngine learns, in a serializable shape
+ */
+export interface AdaptationEngineState {
+  userSignatures: UserSignature[];
+  adaptationHistory: Record<string, AdaptationHistory[]>; // userId -> history
+  planLineages: PlanLineage[];
+  ruleWeights: RuleWeights[];
+  analytics?: AdaptationAnalytics;
+  analyticsSampleCounts?: Record<string, number>; // samples behind each learned rate
+  userTestGroups: Record<string, string>; // userId -> rule set version
+  ruleSetVersions: RuleSetVersion[];
+  experiments: RuleSetExperiment[];
+  mlTrainingData: MLTrainingData[];
+  mlModel?: SerializedMLModel; // the model serving predictions
+  planSchedules: PlanScheduleState[];
+}
+
+export interface IAdaptationStateProvider {
+  loadState(): Promise<AdaptationEngineState | null>;
+  saveUserSignature(signature: UserSignature): Promise<void>;
+  saveAdaptationHistory(
+    userId: string,
+    history: AdaptationHistory[]
+  ): Promise<void>;
+  savePlanLineage(lineage: PlanLineage): Promise<void>;
+  saveRuleWeights(weights: RuleWeights): Promise<void>;
+  deleteRuleWeights(ruleName: string): Promise<void>;
+  saveAnalytics(
+    analytics: AdaptationAnalytics,
+    sampleCounts: Record<string, number>
+  ): Promise<void>;
+  saveUserTestGroup(userId: string, versionId: string | null): Promise<void>;
+  saveRuleSetVersion(version: RuleSetVersion): Promise<void>;
+  saveExperiment(experiment: RuleSetExperiment): Promise<void>;
+  appendTrainingData(samples: MLTrainingData[]): Promise<void>;
+  updateTrainingSample(sample: MLTrainingData): Promise<void>; // matched by adaptationId
+  saveMLModel(model: SerializedMLModel): Promise<void>;
+  savePlanSchedule(schedule: PlanScheduleState): Promise<void>;
+}
+
+export class InMemoryAdaptationStateProvider
+  implements IAdaptationStateProvider
+{
+  protected state: AdaptationEngineState = createEmptyState();
+
+  async loadState(): Promise<AdaptationEngineState | null> {
+    return structuredClone(this.state);
+  }
+
+  async saveUserSignature(signature: UserSignature): Promise<void> {
+    this.state.userSignatures = [
+      ...this.state.userSignatures.filter((s) => s.userId !== signature.userId),
+      structuredClone(signature),
+    ];
+  }
+
+  async saveAdaptationHistory(
+    userId: string,
+    history: AdaptationHistory[]
+  ): Promise<void> {
+    this.state.adaptationHistory[userId] = structuredClone(history);
+  }
+
+  async savePlanLineage(lineage: PlanLineage): Promise<void> {
+    this.state.planLineages = [
+      ...this.state.planLineages.filter((l) => l.planId !== lineage.planId),
+      structuredClone(lineage),
+    ];
+  }
+
+  async saveRuleWeights(weights: RuleWeights): Promise<void> {
+    this.state.ruleWeights = [
+      ...this.state.ruleWeights.filter((w) => w.ruleName !== weights.ruleName),
+      structuredClone(weights),
+    ];
+  }
+
+  async deleteRuleWeights(ruleName: string): Promise<void> {
+    this.state.ruleWeights = this.state.ruleWeights.filter(
+      (w) => w.ruleName !== ruleName
+    );
+  }
+
+  async saveAnalytics(
+    analytics: AdaptationAnalytics,
+    sampleCounts: Record<string, number>
+  ): Promise<void> {
+    this.state.analytics = structuredClone(analytics);
+    this.state.analyticsSampleCounts = { ...sampleCounts };
+  }
+
+  async saveUserTestGroup(
+    userId: string,
+    versionId: string | null
+  ): Promise<void> {
+    if (versionId === null) {
+      delete this.state.userTestGroups[userId];
+    } else {
+      this.state.userTestGroups[userId] = versionId;
+    }
+  }
+
+  async saveRuleSetVersion(version: RuleSetVersion): Promise<void> {
+    this.state.ruleSetVersions = [
+      ...this.state.ruleSetVersions.filter(
+        (v) => v.versionId !== version.versionId
+      ),
+      structuredClone(version),
+    ];
+  }
+
+  async saveExperiment(experiment: RuleSetExperiment): Promise<void> {
+    this.state.experiments = [
+      ...this.state.experiments.filter(
+        (e) => e.experimentId !== experiment.experimentId
+      ),
+      structuredClone(experiment),
+    ];
+  }
+
+  async appendTrainingData(samples: MLTrainingData[]): Promise<void> {
+    this.state.mlTrainingData.push(...structuredClone(samples));
+  }
+
+  async updateTrainingSample(sample: MLTrainingData): Promise<void> {
+    const index = this.state.mlTrainingData.findIndex(
+      (s) => s.adaptationId === sample.adaptationId
+    );
+    if (index !== -1) {
+      this.state.mlTrainingData[index] = structuredClone(sample);
+    }
+  }
+
+  async saveMLModel(model: SerializedMLModel): Promise<void> {
+    this.state.mlModel = structuredClone(model);
+  }
+
+  async savePlanSchedule(schedule: PlanScheduleState): Promise<void> {
+    this.state.planSchedules = [
+      ...this.state.planSchedules.filter(
+        (s) => s.basePlan.id !== schedule.basePlan.id
+      ),
+      structuredClone(schedule),
+    ];
+  }
+}
+
+/**
+ * Persists state to a single JSON file. Writes are serialized and replace
+ * the file atomically, so a crash mid-write never leaves a truncated file.
+ * Saves made while a write is waiting share it, so a burst of saves
+ * rewrites the file once rather than once per save.
+ */
+export class JsonFileAdaptationStateProvider extends InMemoryAdaptationStateProvider {
+  private filePath: string;
+  private loading?: Promise<void>;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private queuedWrite?: Promise<void>;
+
+  constructor(filePath: string) {
+    super();
+    this.filePath = filePath;
+  }
+
+  async loadState(): Promise<AdaptationEngineState | null> {
+    await this.ensureLoaded();
+    return super.loadState();
+  }
+
+  async saveUserSignature(signature: UserSignature): Promise<void> {
+    await this.ensureLoaded();
+    await super.saveUserSignature(signature);
+    await this.writeFile();
+  }
+
+  async saveAdaptationHistory(
+    userId: string,
+    history: AdaptationHistory[]
+  ): Promise<void> {
+    await this.ensureLoaded();
+    await super.saveAdaptationHistory(userId, history);
+    await this.writeFile();
+  }
+
+  async savePlanLineage(lineage: PlanLineage): Promise<void> {
+    await this.ensureLoaded();
+    await super.savePlanLineage(lineage);
+    await this.writeFile();
+  }
+
+  async saveRuleWeights(weights: RuleWeights): Promise<void> {
+    await this.ensureLoaded();
+    await super.saveRuleWeights(weights);
+    await this.writeFile();
+  }
+
+  async deleteRuleWeights(ruleName: string): Promise<void> {
+    await this.ensureLoaded();
+    await super.deleteRuleWeights(ruleName);
+    await this.writeFile();
+  }
+
+  async saveAnalytics(
+    analytics: AdaptationAnalytics,
+    sampleCounts: Record<string, number>
+  ): Promise<void> {
+    await this.ensureLoaded();
+    await super.saveAnalytics(analytics, sampleCounts);
+    await this.writeFile();
+  }
+
+  async saveUserTestGroup(
+    userId: string,
+    versionId: string | null
+  ): Promise<void> {
+    await this.ensureLoaded();
+    await super.saveUserTestGroup(userId, versionId);
+    await this.writeFile();
+  }
+
+  async saveRuleSetVersion(version: RuleSetVersion): Promise<void> {
+    await this.ensureLoaded();
+    await super.saveRuleSetVersion(version);
+    await this.writeFile();
+  }
+
+  async saveExperiment(experiment: RuleSetExperiment): Promise<void> {
+    await this.ensureLoaded();
+    await super.saveExperiment(experiment);
+    await this.writeFile();
+  }
+
+  async appendTrainingData(samples: MLTrainingData[]): Promise<void> {
+    await this.ensureLoaded();
+    await super.appendTrainingData(samples);
+    await this.writeFile();
+  }
+
+  async updateTrainingSample(sample: MLTrainingData): Promise<void> {
+    await this.ensureLoaded();
+    await super.updateTrainingSample(sample);
+    await this.writeFile();
+  }
+
+  async saveMLModel(model: SerializedMLModel): Promise<void> {
+    await this.ensureLoaded();
+    await super.saveMLModel(model);
+    await this.writeFile();
+  }
+
+  async savePlanSchedule(schedule: PlanScheduleState): Promise<void> {
+    await this.ensureLoaded();
+    await super.savePlanSchedule(schedule);
+    await this.writeFile();
+  }
+
+  // Concurrent first calls share one read, so none overwrites the other's change
+  private ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFile().catch((error) => {
+        this.loading = undefined;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private async readFile(): Promise<void> {
+    try {
+      const contents = await fs.readFile(this.filePath, "utf8");
+      this.state = {
+        ...createEmptyState(),
+        ...JSON.parse(contents, reviveDates),
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error("Failed to read adaptation state file:", error);
+        throw new Error("Adaptation state retrieval failed");
+      }
+    }
+  }
+
+  private writeFile(): Promise<void> {
+    if (!this.queuedWrite) {
+      const tempPath = `${this.filePath}.tmp`;
+      this.queuedWrite = this.writeQueue
+        .catch(() => undefined)
+        .then(async () => {
+          // Snapshot when the write starts, so it includes every queued save
+          this.queuedWrite = undefined;
+          const snapshot = JSON.stringify(this.state);
+          await fs.writeFile(tempPath, snapshot, "utf8");
+          await fs.rename(tempPath, this.filePath);
+        });
+      this.writeQueue = this.queuedWrite;
+    }
+
+    return this.queuedWrite.catch((error) => {
+      console.error("Failed to write adaptation state file:", error);
+      throw new Error("Adaptation state persistence failed");
+    });
+  }
+}
+
+function createEmptyState(): AdaptationEngineState {
+  return {
+    userSignatures: [],
+    adaptationHistory: {},
+    planLineages: [],
+    ruleWeights: [],
+    userTestGroups: {},
+    ruleSetVersions: [],
+    experiments: [],
+    mlTrainingData: [],
+    planSchedules: [],
+  };
+}
+
+// Date-typed fields of the persisted state; other strings stay strings
+const DATE_FIELDS = new Set([
+  "scheduledDate",
+  "completedAt",
+  "lastUpdated",
+  "appliedAt",
+  "timestamp",
+  "outcomeRecordedAt",
+  "createdAt",
+  "supersededAt",
+  "activatedAt",
+  "retiredAt",
+  "startedAt",
+  "endedAt",
+  "lastTrainedAt",
+  "startsAt",
+  "expiresAt",
+  "cancelledAt",
+]);
+
+// JSON has no Date type; restore the timestamps JSON.stringify wrote
+function reviveDates(key: string, value: unknown): unknown {
+  if (
+    DATE_FIELDS.has(key) &&
+    typeof value === "string" &&
+    /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/.test(value)
+  ) {
+    return new Date(value);
+  }
+  return value;
+}
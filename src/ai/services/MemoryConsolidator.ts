@@ -0,0 +1,436 @@
+import {
+  ConversationContext,
+  LongTermFact,
+  UserMemoryProfile,
+} from "../smart-memory";
+
+export interface ConsolidationOptions {
+  retainDays: number; // entries newer than this stay verbatim
+  maxRecentContexts: number;
+  maxWorkoutHistory: number;
+  maxListEntries: number; // adaptations, responses per type, goal changes, past life events
+  maxFacts: number;
+  halfLifeDays: number; // a fact's weight halves every halfLifeDays without new evidence
+  minFactWeight: number; // facts that decay below this are dropped
+}
+
+export const DEFAULT_CONSOLIDATION_OPTIONS: ConsolidationOptions = {
+  retainDays: 90,
+  maxRecentContexts: 50,
+  maxWorkoutHistory: 200,
+  maxListEntries: 100,
+  maxFacts: 60,
+  halfLifeDays: 180,
+  minFactWeight: 0.05,
+};
+
+export interface ConsolidationResult {
+  userId: string;
+  contextsConsolidated: number;
+  workoutsConsolidated: number;
+  factsAdded: number;
+  factsUpdated: number;
+  factsPruned: number;
+  entriesTrimmed: number; // dropped from capped lists without a summary
+}
+
+type WorkoutEntry = UserMemoryProfile["workoutHistory"][number];
+
+interface FactCandidate {
+  id: string;
+  category: LongTermFact["category"];
+  value: number;
+  observations: number;
+  firstObserved: Date;
+  lastObserved: Date;
+  describe: (value: number, observations: number) => string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+/**
+ * Keeps long-lived memory profiles small. Old conversation contexts and
+ * workouts are rolled up into weighted long-term facts, and those facts
+ * lose weight as their evidence ages.
+ */
+export class MemoryConsolidator {
+  private options: ConsolidationOptions;
+
+  constructor(options: Partial<ConsolidationOptions> = {}) {
+    this.options = { ...DEFAULT_CONSOLIDATION_OPTIONS, ...options };
+  }
+
+  configure(options: Partial<ConsolidationOptions>): ConsolidationOptions {
+    this.options = { ...this.options, ...options };
+    return { ...this.options };
+  }
+
+  // Cheap check so callers only consolidate once a cap is exceeded
+  needsConsolidation(profile: UserMemoryProfile): boolean {
+    const { adaptationHistory, contextualMemory } = profile;
+    return (
+      profile.workoutHistory.length > this.options.maxWorkoutHistory ||
+      contextualMemory.recentContexts.length > this.options.maxRecentContexts ||
+      adaptationHistory.adaptationsApplied.length >
+        this.options.maxListEntries ||
+      contextualMemory.goalEvolution.length > this.options.maxListEntries
+    );
+  }
+
+  /**
+   * Consolidates the profile in place
+   */
+  consolidate(
+    profile: UserMemoryProfile,
+    now: Date = new Date()
+  ): ConsolidationResult {
+    const cutoff = now.getTime() - this.options.retainDays * DAY_MS;
+    const memory = profile.contextualMemory;
+
+    const [oldWorkouts, keptWorkouts] = this.splitByAge(
+      profile.workoutHistory,
+      (w) => new Date(w.date),
+      cutoff,
+      this.options.maxWorkoutHistory
+    );
+    const [oldContexts, keptContexts] = this.splitByAge(
+      memory.recentContexts,
+      (c) => new Date(c.timestamp),
+      cutoff,
+      this.options.maxRecentContexts
+    );
+
+    const candidates = [
+      ...this.summarizeWorkouts(oldWorkouts),
+      ...this.summarizeContexts(oldContexts),
+    ];
+    const facts = memory.longTermFacts || [];
+    let factsAdded = 0;
+    let factsUpdated = 0;
+    for (const candidate of candidates) {
+      const existing = facts.find((fact) => fact.id === candidate.id);
+      if (existing) {
+        this.mergeFact(existing, candidate);
+        factsUpdated++;
+      } else {
+        facts.push({
+          id: candidate.id,
+          category: candidate.category,
+          statement: candidate.describe(
+            candidate.value,
+            candidate.observations
+          ),
+          value: candidate.value,
+          observations: candidate.observations,
+          firstObserved: candidate.firstObserved,
+          lastObserved: candidate.lastObserved,
+          weight: 0,
+        });
+        factsAdded++;
+      }
+    }
+
+    // Decay every fact, then keep the strongest
+    facts.forEach((fact) => {
+      fact.weight = this.decayWeight(fact, now);
+    });
+    const retained = facts
+      .filter((fact) => fact.weight >= this.options.minFactWeight)
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, this.options.maxFacts);
+
+    this.archiveWorkouts(profile, oldWorkouts);
+    oldContexts.forEach((context) =>
+      context.concerns.forEach((concern) => {
+        if (
+          retained.some((fact) => fact.id === `concern:${concern}`) &&
+          !memory.frequentConcerns.includes(concern)
+        ) {
+          memory.frequentConcerns.push(concern);
+        }
+      })
+    );
+
+    profile.workoutHistory = keptWorkouts;
+    memory.recentContexts = keptContexts;
+    memory.longTermFacts = retained;
+
+    return {
+      userId: profile.userId,
+      contextsConsolidated: oldContexts.length,
+      workoutsConsolidated: oldWorkouts.length,
+      factsAdded,
+      factsUpdated,
+      factsPruned: facts.length - retained.length,
+      entriesTrimmed: this.trimLists(profile, now),
+    };
+  }
+
+  // Evidence strength (saturating at 10 observations) halved every half-life
+  decayWeight(
+    fact: Pick<LongTermFact, "observations" | "lastObserved">,
+    now: Date = new Date()
+  ): number {
+    const ageDays = Math.max(
+      0,
+      (now.getTime() - new Date(fact.lastObserved).getTime()) / DAY_MS
+    );
+    const strength = Math.min(1, fact.observations / 10);
+    return (
+      Math.round(
+        strength * 0.5 ** (ageDays / this.options.halfLifeDays) * 1000
+      ) / 1000
+    );
+  }
+
+  // Entries older than the cutoff, plus the oldest ones over the cap
+  private splitByAge<T>(
+    entries: T[],
+    dateOf: (entry: T) => Date,
+    cutoff: number,
+    max: number
+  ): [T[], T[]] {
+    const sorted = [...entries].sort(
+      (a, b) => dateOf(a).getTime() - dateOf(b).getTime()
+    );
+    const recent = sorted.filter((entry) => dateOf(entry).getTime() >= cutoff);
+    const kept = recent.slice(Math.max(0, recent.length - max));
+    const keptSet = new Set(kept);
+    return [sorted.filter((entry) => !keptSet.has(entry)), kept];
+  }
+
+  private summarizeWorkouts(workouts: WorkoutEntry[]): FactCandidate[] {
+    const candidates: FactCandidate[] = [];
+    const groups = new Map<string, WorkoutEntry[]>();
+    workouts.forEach((workout) => {
+      const date = new Date(workout.date);
+      const key = `${WEEKDAYS[date.getDay()]}:${seasonOf(date)}`;
+      groups.set(key, [...(groups.get(key) || []), workout]);
+    });
+
+    for (const [key, group] of groups) {
+      if (group.length < 3) continue;
+      const [day, season] = key.split(":");
+      const skipRate = group.filter((w) => !w.completed).length / group.length;
+      const span = this.span(group.map((w) => new Date(w.date)));
+
+      if (skipRate >= 0.5) {
+        candidates.push({
+          id: `skips:${key}`,
+          category: "workout_pattern",
+          value: skipRate,
+          observations: group.length,
+          ...span,
+          describe: (rate, count) =>
+            `${rate >= 0.75 ? "consistently" : rate >= 0.5 ? "often" : "occasionally"} skips ${day} sessions in ${season} (${Math.round(rate * 100)}% of ${count})`,
+        });
+      } else if (skipRate <= 0.1) {
+        candidates.push({
+          id: `completes:${key}`,
+          category: "workout_pattern",
+          value: 1 - skipRate,
+          observations: group.length,
+          ...span,
+          describe: (rate, count) =>
+            `${rate >= 0.9 ? "reliably" : "usually"} completes ${day} sessions in ${season} (${Math.round(rate * 100)}% of ${count})`,
+        });
+      }
+    }
+
+    const byType = new Map<string, WorkoutEntry[]>();
+    workouts.forEach((w) =>
+      byType.set(w.type, [...(byType.get(w.type) || []), w])
+    );
+    for (const [type, group] of byType) {
+      if (group.length < 5) continue;
+      candidates.push({
+        id: `type:${type}`,
+        category: "workout_pattern",
+        value: group.filter((w) => w.completed).length / group.length,
+        observations: group.length,
+        ...this.span(group.map((w) => new Date(w.date))),
+        describe: (rate, count) =>
+          `completes ${Math.round(rate * 100)}% of ${type} workouts (${count} scheduled)`,
+      });
+    }
+
+    return candidates;
+  }
+
+  private summarizeContexts(contexts: ConversationContext[]): FactCandidate[] {
+    if (contexts.length === 0) return [];
+    const candidates: FactCandidate[] = [];
+    const dateSpan = (group: ConversationContext[]) =>
+      this.span(group.map((c) => new Date(c.timestamp)));
+
+    const byTopic = new Map<string, ConversationContext[]>();
+    contexts.forEach((c) =>
+      byTopic.set(c.topic, [...(byTopic.get(c.topic) || []), c])
+    );
+    for (const [topic, group] of byTopic) {
+      if (group.length < 2) continue;
+      candidates.push({
+        id: `topic:${topic}`,
+        category: "conversation",
+        value: average(group.map((c) => c.satisfaction)),
+        observations: group.length,
+        ...dateSpan(group),
+        describe: (satisfaction, count) =>
+          `discussed ${topic} in ${count} conversations (average satisfaction ${satisfaction.toFixed(1)}/10)`,
+      });
+    }
+
+    const concerns = new Map<string, ConversationContext[]>();
+    contexts.forEach((c) =>
+      new Set(c.concerns).forEach((concern) =>
+        concerns.set(concern, [...(concerns.get(concern) || []), c])
+      )
+    );
+    for (const [concern, group] of concerns) {
+      if (group.length < 2) continue;
+      candidates.push({
+        id: `concern:${concern}`,
+        category: "concern",
+        value: group.length / contexts.length,
+        observations: contexts.length,
+        ...dateSpan(group),
+        describe: (share, count) =>
+          `raised "${concern}" in ${Math.round(share * 100)}% of ${count} conversations`,
+      });
+    }
+
+    candidates.push({
+      id: "mood",
+      category: "mood",
+      value: average(contexts.map((c) => c.userMood)),
+      observations: contexts.length,
+      ...dateSpan(contexts),
+      describe: (mood, count) =>
+        `average mood ${mood.toFixed(1)}/10 across ${count} past conversations`,
+    });
+
+    return candidates;
+  }
+
+  private mergeFact(fact: LongTermFact, candidate: FactCandidate): void {
+    const observations = fact.observations + candidate.observations;
+    fact.value =
+      (fact.value * fact.observations +
+        candidate.value * candidate.observations) /
+      observations;
+    fact.observations = observations;
+    fact.firstObserved =
+      candidate.firstObserved < new Date(fact.firstObserved)
+        ? candidate.firstObserved
+        : fact.firstObserved;
+    fact.lastObserved =
+      candidate.lastObserved > new Date(fact.lastObserved)
+        ? candidate.lastObserved
+        : fact.lastObserved;
+    // Candidates with the same id share their wording
+    fact.statement = candidate.describe(fact.value, fact.observations);
+  }
+
+  private archiveWorkouts(
+    profile: UserMemoryProfile,
+    workouts: WorkoutEntry[]
+  ): void {
+    if (workouts.length === 0) return;
+
+    const archive = profile.workoutArchive || {
+      totalWorkouts: 0,
+      completedWorkouts: 0,
+      firstDate: workouts[0].date,
+      lastDate: workouts[0].date,
+      byType: {},
+    };
+    for (const workout of workouts) {
+      archive.totalWorkouts++;
+      if (workout.completed) archive.completedWorkouts++;
+      if (workout.date < archive.firstDate) archive.firstDate = workout.date;
+      if (workout.date > archive.lastDate) archive.lastDate = workout.date;
+
+      const type = archive.byType[workout.type] || {
+        count: 0,
+        completed: 0,
+        totalDuration: 0,
+      };
+      type.count++;
+      if (workout.completed) {
+        type.completed++;
+        type.totalDuration += workout.duration;
+      }
+      archive.byType[workout.type] = type;
+    }
+    profile.workoutArchive = archive;
+  }
+
+  // Caps lists that have no summary; only the most recent entries are kept
+  private trimLists(profile: UserMemoryProfile, now: Date): number {
+    const max = this.options.maxListEntries;
+    const history = profile.adaptationHistory;
+    const memory = profile.contextualMemory;
+    let trimmed = 0;
+    const latest = <T>(entries: T[], dateOf: (entry: T) => Date): T[] => {
+      if (entries.length <= max) return entries;
+      trimmed += entries.length - max;
+      return [...entries]
+        .sort((a, b) => dateOf(a).getTime() - dateOf(b).getTime())
+        .slice(-max);
+    };
+
+    history.adaptationsApplied = latest(
+      history.adaptationsApplied,
+      (a) => new Date(a.timestamp)
+    );
+    Object.keys(history.userResponses).forEach((type) => {
+      history.userResponses[type] = latest(
+        history.userResponses[type],
+        (r) => new Date(r.timestamp)
+      );
+    });
+    memory.goalEvolution = latest(
+      memory.goalEvolution,
+      (g) => new Date(g.timestamp)
+    );
+
+    // Ongoing and upcoming life events always stay
+    const active = memory.lifeEventImpacts.filter(
+      (e) => !e.endDate || new Date(e.endDate).getTime() >= now.getTime()
+    );
+    const past = memory.lifeEventImpacts.filter((e) => !active.includes(e));
+    memory.lifeEventImpacts = [
+      ...latest(past, (e) => new Date(e.startDate)),
+      ...active,
+    ];
+
+    return trimmed;
+  }
+
+  private span(dates: Date[]): { firstObserved: Date; lastObserved: Date } {
+    const times = dates.map((date) => date.getTime());
+    return {
+      firstObserved: new Date(Math.min(...times)),
+      lastObserved: new Date(Math.max(...times)),
+    };
+  }
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function seasonOf(date: Date): string {
+  return ["winter", "spring", "summer", "autumn"][
+    Math.floor(((date.getMonth() + 1) % 12) / 3)
+  ];
+}
@@ -5,9 +5,57 @@ import {
 } from "../smart-memory";
 import { CacheService } from "./CacheService";
 
+// A full copy of the profile as written by one save
+export interface MemoryProfileVersion {
+  userId: string;
+  version: number;
+  createdAt: Date;
+  reason?: string; // e.g. "interaction:goal_changed", "rollback to version 3"
+  profile: UserMemoryProfile;
+}
+
+// One version by number, or the latest one saved at or before a time
+export type MemoryProfileVersionQuery = { version: number } | { at: Date };
+
+export interface ProfileChange {
+  path: string; // e.g. "personalityProfile.communicationPreference"
+  kind: "added" | "removed" | "changed";
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface ProfileDiff {
+  userId: string;
+  fromVersion: number;
+  toVersion: number;
+  changes: ProfileChange[];
+}
+
 export interface IMemoryPersistenceProvider {
-  saveMemoryProfile(profile: UserMemoryProfile): Promise<void>;
+  /**
+   * With expectedVersion set, the write must only happen when the stored
+   * profile's version (0 when missing) equals it; resolve true when written
+   * and false otherwise. Resolving nothing means the provider cannot detect
+   * conflicts, so concurrent writers overwrite each other.
+   */
+  saveMemoryProfile(
+    profile: UserMemoryProfile,
+    expectedVersion?: number
+  ): Promise<boolean | void>;
   loadMemoryProfile(userId: string): Promise<UserMemoryProfile | null>;
+  // Version history is optional; without it profiles are saved unversioned
+  saveMemoryProfileVersion?(version: MemoryProfileVersion): Promise<void>;
+  loadMemoryProfileVersions?(userId: string): Promise<MemoryProfileVersion[]>;
+  // Single-version lookup; falls back to scanning loadMemoryProfileVersions
+  findMemoryProfileVersion?(
+    userId: string,
+    query: MemoryProfileVersionQuery
+  ): Promise<MemoryProfileVersion | null>;
+  // Retention: drop the user's versions numbered below the given one
+  deleteMemoryProfileVersions?(
+    userId: string,
+    beforeVersion: number
+  ): Promise<void>;
   saveReinforcementProfile(
     profile: ReinforcementLearningProfile
   ): Promise<void>;
@@ -19,32 +67,206 @@ export interface IMemoryPersistenceProvider {
   deleteUserData(userId: string): Promise<void>;
 }
 
+/**
+ * Another write saved the profile since it was read
+ */
+export class MemoryProfileConflictError extends Error {
+  readonly userId: string;
+  readonly expectedVersion: number;
+
+  constructor(userId: string, expectedVersion: number) {
+    super(
+      `Memory profile for user "${userId}" changed since version ${expectedVersion}`
+    );
+    this.name = "MemoryProfileConflictError";
+    this.userId = userId;
+    this.expectedVersion = expectedVersion;
+  }
+}
+
+const DEFAULT_MAX_PROFILE_VERSIONS = 50;
+
 export class MemoryPersistenceService {
   private persistenceProvider: IMemoryPersistenceProvider;
   private cacheService: CacheService;
+  private maxProfileVersions: number;
+  private warnedUncheckedWrites = false;
 
   constructor(
     provider: IMemoryPersistenceProvider,
-    cacheService: CacheService
+    cacheService: CacheService,
+    maxProfileVersions: number = DEFAULT_MAX_PROFILE_VERSIONS // versions kept per user
   ) {
     this.persistenceProvider = provider;
     this.cacheService = cacheService;
+    this.maxProfileVersions = maxProfileVersions;
   }
 
-  async saveMemoryProfile(profile: UserMemoryProfile): Promise<void> {
+  /**
+   * Saves the profile as a new version and returns it with the version set.
+   * With checkVersion, throws MemoryProfileConflictError when the stored
+   * profile is no longer the version this one was based on.
+   */
+  async saveMemoryProfile(
+    profile: UserMemoryProfile,
+    reason?: string,
+    checkVersion: boolean = false
+  ): Promise<UserMemoryProfile> {
+    const baseVersion = profile.version ?? 0;
+    const versioned = { ...profile, version: baseVersion + 1 };
+    let saved: boolean | void;
+    try {
+      saved = await this.persistenceProvider.saveMemoryProfile(
+        versioned,
+        checkVersion ? baseVersion : undefined
+      );
+    } catch (error) {
+      console.error("Failed to save memory profile:", error);
+      throw new Error("Memory profile persistence failed");
+    }
+    if (saved === false) {
+      await this.cacheService.invalidateMemoryProfile(profile.userId);
+      throw new MemoryProfileConflictError(profile.userId, baseVersion);
+    }
+    if (checkVersion && saved === undefined && !this.warnedUncheckedWrites) {
+      this.warnedUncheckedWrites = true;
+      console.warn(
+        "Memory persistence provider does not report version conflicts; concurrent profile writes may be lost"
+      );
+    }
+
     try {
-      await this.persistenceProvider.saveMemoryProfile(profile);
-      await this.cacheService.cacheMemoryProfile(profile.userId, profile);
+      await this.persistenceProvider.saveMemoryProfileVersion?.({
+        userId: profile.userId,
+        version: versioned.version,
+        createdAt: new Date(),
+        reason,
+        profile: structuredClone(versioned),
+      });
+      if (versioned.version > this.maxProfileVersions) {
+        await this.persistenceProvider.deleteMemoryProfileVersions?.(
+          profile.userId,
+          versioned.version - this.maxProfileVersions + 1
+        );
+      }
+      await this.cacheService.cacheMemoryProfile(profile.userId, versioned);
+      return versioned;
     } catch (error) {
       console.error("Failed to save memory profile:", error);
       throw new Error("Memory profile persistence failed");
     }
   }
 
-  async loadMemoryProfile(userId: string): Promise<UserMemoryProfile | null> {
+  async getMemoryProfileVersions(
+    userId: string
+  ): Promise<MemoryProfileVersion[]> {
+    try {
+      const versions =
+        (await this.persistenceProvider.loadMemoryProfileVersions?.(userId)) ||
+        [];
+      return [...versions].sort((a, b) => a.version - b.version);
+    } catch (error) {
+      console.error("Failed to load memory profile versions:", error);
+      throw new Error("Memory profile version retrieval failed");
+    }
+  }
+
+  async findMemoryProfileVersion(
+    userId: string,
+    query: MemoryProfileVersionQuery
+  ): Promise<MemoryProfileVersion | null> {
+    if (this.persistenceProvider.findMemoryProfileVersion) {
+      try {
+        return await this.persistenceProvider.findMemoryProfileVersion(
+          userId,
+          query
+        );
+      } catch (error) {
+        console.error("Failed to load memory profile version:", error);
+        throw new Error("Memory profile version retrieval failed");
+      }
+    }
+
+    const versions = await this.getMemoryProfileVersions(userId);
+    const found =
+      "version" in query
+        ? versions.find((v) => v.version === query.version)
+        : versions
+            .filter(
+              (v) => new Date(v.createdAt).getTime() <= query.at.getTime()
+            )
+            .pop();
+    return found || null;
+  }
+
+  // The profile as it was at a point in time, null before the first
+  // retained save
+  async getMemoryProfileAt(
+    userId: string,
+    date: Date
+  ): Promise<UserMemoryProfile | null> {
+    const atDate = await this.findMemoryProfileVersion(userId, { at: date });
+    return atDate ? structuredClone(atDate.profile) : null;
+  }
+
+  async diffMemoryProfileVersions(
+    userId: string,
+    fromVersion: number,
+    toVersion: number
+  ): Promise<ProfileDiff> {
+    const [from, to] = await Promise.all([
+      this.requireMemoryProfileVersion(userId, fromVersion),
+      this.requireMemoryProfileVersion(userId, toVersion),
+    ]);
+
+    const changes: ProfileChange[] = [];
+    diffValues(from.profile, to.profile, "", changes);
+    return { userId, fromVersion, toVersion, changes };
+  }
+
+  /**
+   * Restores an earlier version by saving it as a new version, so the
+   * rollback itself shows up in the history
+   */
+  async rollbackMemoryProfile(
+    userId: string,
+    toVersion: number
+  ): Promise<UserMemoryProfile> {
+    const target = await this.requireMemoryProfileVersion(userId, toVersion);
+    const latest = await this.loadMemoryProfile(userId, true);
+    return this.saveMemoryProfile(
+      {
+        ...structuredClone(target.profile),
+        version: latest?.version ?? 0,
+        lastUpdated: new Date(),
+      },
+      `rollback to version ${toVersion}`,
+      true
+    );
+  }
+
+  private async requireMemoryProfileVersion(
+    userId: string,
+    version: number
+  ): Promise<MemoryProfileVersion> {
+    const found = await this.findMemoryProfileVersion(userId, { version });
+    if (!found) {
+      throw new Error(
+        `Unknown memory profile version ${version} for user "${userId}"`
+      );
+    }
+    return found;
+  }
+
+  async loadMemoryProfile(
+    userId: string,
+    bypassCache: boolean = false // read the stored profile, e.g. after a conflict
+  ): Promise<UserMemoryProfile | null> {
     try {
       // Try cache first
-      const cached = await this.cacheService.getCachedMemoryProfile(userId);
+      const cached = bypassCache
+        ? null
+        : await this.cacheService.getCachedMemoryProfile(userId);
       if (cached) {
         return cached;
       }
@@ -144,3 +366,43 @@ export class MemoryPersistenceService {
     }
   }
 }
+
+// Bookkeeping fields that change on every save
+const UNVERSIONED_FIELDS = new Set(["version", "lastUpdated"]);
+
+function diffValues(
+  before: unknown,
+  after: unknown,
+  path: string,
+  changes: ProfileChange[]
+): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      if (!path && UNVERSIONED_FIELDS.has(key)) continue;
+      const childPath = path ? `${path}.${key}` : key;
+      if (!(key in before)) {
+        changes.push({ path: childPath, kind: "added", after: after[key] });
+      } else if (!(key in after)) {
+        changes.push({ path: childPath, kind: "removed", before: before[key] });
+      } else {
+        diffValues(before[key], after[key], childPath, changes);
+      }
+    }
+    return;
+  }
+
+  // Arrays and leaf values are compared as a whole
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push({ path, kind: "changed", before, after });
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
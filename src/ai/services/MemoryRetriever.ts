@@ -0,0 +1,458 @@
+import { UserMemoryProfile } from "../smart-memory";
+
+export type MemoryItemKind =
+  | "concern"
+  | "decision"
+  | "outcome"
+  | "goal_change"
+  | "life_event"
+  | "adaptation"
+  | "failure_point"
+  | "relapse"
+  | "fact"
+  | "milestone"
+  | "personal_record"
+  | "breakthrough"
+  | "recovery_strategy";
+
+export interface MemoryItem {
+  id: string; // stable across rebuilds while the underlying entry is unchanged
+  kind: MemoryItemKind;
+  section: "events" | "patterns" | "successes"; // RelevantHistory bucket
+  text: string;
+  timestamp?: Date;
+}
+
+export interface RetrievedMemory extends MemoryItem {
+  score: number; // 0-1, relevance blended with recency
+  relevance: number; // raw similarity from BM25 or the embedding
+}
+
+// Maps texts to vectors; compared with cosine similarity
+export type EmbeddingFunction = (
+  texts: string[]
+) => Promise<number[][]> | number[][];
+
+export interface RetrievalOptions {
+  embed?: EmbeddingFunction; // BM25 keyword ranking when not set
+  topK: number;
+  recencyHalfLifeDays: number;
+  recencyWeight: number; // 0-1 share of the score that comes from recency
+  minRelevance: number; // items below this similarity are never returned
+  maxIndexedUsers: number; // least recently retrieved indexes are dropped first
+}
+
+export const DEFAULT_RETRIEVAL_OPTIONS: RetrievalOptions = {
+  topK: 5,
+  recencyHalfLifeDays: 180,
+  recencyWeight: 0.25,
+  minRelevance: 0.05,
+  maxIndexedUsers: 1000,
+};
+
+interface UserMemoryIndex {
+  items: MemoryItem[];
+  bm25: Bm25Index;
+  vectors: Map<string, number[]>; // item id -> embedding
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const STOPWORDS = new Set([
+  "the",
+  "and",
+  "but",
+  "for",
+  "with",
+  "that",
+  "this",
+  "have",
+  "has",
+  "was",
+  "are",
+  "you",
+  "your",
+  "not",
+  "just",
+  "what",
+  "how",
+  "can",
+  "from",
+  "about",
+  "been",
+  "really",
+  "while",
+  "into",
+  "then",
+  "them",
+  "they",
+  "will",
+  "would",
+  "should",
+]);
+
+/**
+ * Indexes a user's memory (concerns, decisions, milestones, failure points,
+ * breakthroughs and long-term facts) and ranks it against a message, so the
+ * most relevant history can be injected into a prompt.
+ */
+export class MemoryRetriever {
+  private options: RetrievalOptions;
+  private indexes: Map<string, UserMemoryIndex> = new Map();
+
+  constructor(options: Partial<RetrievalOptions> = {}) {
+    this.options = { ...DEFAULT_RETRIEVAL_OPTIONS, ...options };
+  }
+
+  configure(options: Partial<RetrievalOptions>): RetrievalOptions {
+    if ("embed" in options && options.embed !== this.options.embed) {
+      this.indexes.clear(); // vectors from another embedding are not comparable
+    }
+    this.options = { ...this.options, ...options };
+    this.evictIndexes();
+    return { ...this.options };
+  }
+
+  // Drops the user's cached index, e.g. after their data is deleted
+  forget(userId: string): void {
+    this.indexes.delete(userId);
+  }
+
+  async retrieve(
+    profile: UserMemoryProfile,
+    message: string,
+    topK: number = this.options.topK,
+    now: Date = new Date()
+  ): Promise<RetrievedMemory[]> {
+    const index = await this.indexProfile(profile);
+    if (index.items.length === 0 || message.trim().length === 0) return [];
+
+    const relevance = this.options.embed
+      ? await this.embeddingSimilarity(index, message)
+      : this.normalize(index.bm25.score(tokenize(message)));
+
+    return index.items
+      .map((item, i) => {
+        const recency = item.timestamp
+          ? 0.5 **
+            (Math.max(0, now.getTime() - new Date(item.timestamp).getTime()) /
+              DAY_MS /
+              this.options.recencyHalfLifeDays)
+          : 0.5; // undated patterns count as moderately recent
+        return {
+          ...item,
+          relevance: relevance[i],
+          score:
+            relevance[i] * (1 - this.options.recencyWeight * (1 - recency)),
+        };
+      })
+      .filter((memory) => memory.relevance >= this.options.minRelevance)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK)
+      .map((memory) => ({
+        ...memory,
+        score: Math.round(memory.score * 1000) / 1000,
+        relevance: Math.round(memory.relevance * 1000) / 1000,
+      }));
+  }
+
+  /**
+   * Flattens the profile into indexable memory items
+   */
+  extractItems(profile: UserMemoryProfile): MemoryItem[] {
+    const items: MemoryItem[] = [];
+    const seen = new Map<string, number>();
+    const { contextualMemory, failurePatterns, achievementHistory } = profile;
+    const add = (
+      kind: MemoryItemKind,
+      section: MemoryItem["section"],
+      key: string,
+      text: string,
+      timestamp?: Date
+    ) => {
+      // Entries sharing a key (two contexts at the same time) get a counter
+      const base = `${kind}:${key}`;
+      const count = seen.get(base) || 0;
+      seen.set(base, count + 1);
+      const id = count === 0 ? base : `${base}#${count}`;
+      items.push({ id, kind, section, text, timestamp });
+    };
+
+    contextualMemory.recentContexts.forEach((context) => {
+      const time = new Date(context.timestamp).getTime();
+      context.concerns.forEach((concern, i) =>
+        add(
+          "concern",
+          "events",
+          `${time}:${i}`,
+          `Concern while discussing ${context.topic}: ${concern}`,
+          context.timestamp
+        )
+      );
+      context.decisions.forEach((decision, i) =>
+        add(
+          "decision",
+          "events",
+          `${time}:${i}`,
+          `Decided while discussing ${context.topic}: ${decision}`,
+          context.timestamp
+        )
+      );
+      context.outcomes.forEach((outcome, i) =>
+        add(
+          "outcome",
+          "events",
+          `${time}:${i}`,
+          `Outcome of discussing ${context.topic}: ${outcome}`,
+          context.timestamp
+        )
+      );
+    });
+    contextualMemory.goalEvolution.forEach((goal) =>
+      add(
+        "goal_change",
+        "events",
+        String(new Date(goal.timestamp).getTime()),
+        `Changed goal from ${goal.previousGoal || "none"} to ${goal.newGoal} because ${goal.reason}`,
+        goal.timestamp
+      )
+    );
+    contextualMemory.lifeEventImpacts.forEach((event) =>
+      add(
+        "life_event",
+        "events",
+        `${event.event}:${new Date(event.startDate).getTime()}`,
+        `${event.event} had a ${event.impact} impact on training${event.adaptationsUsed.length > 0 ? `, handled with ${event.adaptationsUsed.join(", ")}` : ""}`,
+        event.startDate
+      )
+    );
+    profile.adaptationHistory.adaptationsApplied.forEach((adaptation) =>
+      add(
+        "adaptation",
+        adaptation.userReaction === "positive" ? "successes" : "events",
+        adaptation.id,
+        `${adaptation.type} adaptation (${adaptation.reasoning}) got a ${adaptation.userReaction} reaction`,
+        adaptation.timestamp
+      )
+    );
+
+    failurePatterns.commonFailurePoints.forEach((point) =>
+      add(
+        "failure_point",
+        "patterns",
+        point.trigger,
+        `Falls off after ${point.trigger} (${point.frequency} times)${point.successfulInterventions.length > 0 ? `; helped by ${point.successfulInterventions.join(", ")}` : ""}`
+      )
+    );
+    failurePatterns.relapseCycles.forEach((relapse) =>
+      add(
+        "relapse",
+        "patterns",
+        relapse.pattern,
+        `Relapse pattern ${relapse.pattern} lasting about ${relapse.durationDays} days${relapse.preventionStrategies.length > 0 ? `; prevented by ${relapse.preventionStrategies.join(", ")}` : ""}`
+      )
+    );
+    (contextualMemory.longTermFacts || []).forEach((fact) =>
+      add("fact", "patterns", fact.id, fact.statement, fact.lastObserved)
+    );
+
+    achievementHistory.milestones.forEach((milestone) =>
+      add(
+        "milestone",
+        "successes",
+        milestone.id,
+        `Reached milestone ${milestone.name} (${milestone.category})`,
+        milestone.achievedDate
+      )
+    );
+    achievementHistory.personalRecords.forEach((record) =>
+      add(
+        "personal_record",
+        "successes",
+        `${record.exercise}:${new Date(record.achievedDate).getTime()}`,
+        `Personal record on ${record.exercise}: ${record.newRecord} ${record.metric}, up ${record.improvementPercentage}%`,
+        record.achievedDate
+      )
+    );
+    profile.behaviorPatterns.plateauHistory.successfulBreakthroughs.forEach(
+      (breakthrough) =>
+        add(
+          "breakthrough",
+          "successes",
+          breakthrough.strategy,
+          `Broke through a ${breakthrough.applicablePlateaus.join(", ") || "training"} plateau with ${breakthrough.strategy} in ${breakthrough.timeToBreakthrough} days`
+        )
+    );
+    failurePatterns.recoveryStrategies
+      .filter((strategy) => strategy.successRate >= 0.5)
+      .forEach((strategy) =>
+        add(
+          "recovery_strategy",
+          "successes",
+          strategy.strategy,
+          `Recovered from ${strategy.applicableFailures.join(", ") || "setbacks"} with ${strategy.strategy}`
+        )
+      );
+
+    return items;
+  }
+
+  // Rebuilds the user's index when their memory items change
+  private async indexProfile(
+    profile: UserMemoryProfile
+  ): Promise<UserMemoryIndex> {
+    const items = this.extractItems(profile);
+    const cached = this.indexes.get(profile.userId);
+    if (
+      cached &&
+      cached.items.length === items.length &&
+      cached.items.every(
+        (item, i) => item.id === items[i].id && item.text === items[i].text
+      )
+    ) {
+      this.touchIndex(profile.userId, cached);
+      return cached;
+    }
+
+    const index: UserMemoryIndex = {
+      items,
+      bm25: new Bm25Index(items.map((item) => tokenize(item.text))),
+      vectors: new Map(),
+    };
+    if (this.options.embed) {
+      // Only embed items that are new or whose text changed
+      const reusable = new Map(
+        (cached?.items || []).map((item) => [`${item.id}|${item.text}`, item])
+      );
+      const missing = items.filter((item) => {
+        const previous = reusable.get(`${item.id}|${item.text}`);
+        const vector = previous && cached!.vectors.get(previous.id);
+        if (vector) index.vectors.set(item.id, vector);
+        return !vector;
+      });
+      if (missing.length > 0) {
+        const vectors = await this.options.embed(missing.map((i) => i.text));
+        if (vectors.length !== missing.length) {
+          throw new Error(
+            `Embedding function returned ${vectors.length} vectors for ${missing.length} texts`
+          );
+        }
+        missing.forEach((item, i) => index.vectors.set(item.id, vectors[i]));
+      }
+    }
+
+    this.touchIndex(profile.userId, index);
+    return index;
+  }
+
+  // Map order doubles as recency: the first entry is the least recently used
+  private touchIndex(userId: string, index: UserMemoryIndex): void {
+    this.indexes.delete(userId);
+    this.indexes.set(userId, index);
+    this.evictIndexes();
+  }
+
+  private evictIndexes(): void {
+    const limit = Math.max(0, this.options.maxIndexedUsers);
+    for (const userId of this.indexes.keys()) {
+      if (this.indexes.size <= limit) break;
+      this.indexes.delete(userId);
+    }
+  }
+
+  private async embeddingSimilarity(
+    index: UserMemoryIndex,
+    message: string
+  ): Promise<number[]> {
+    const [query] = await this.options.embed!([message]);
+    return index.items.map((item) =>
+      Math.max(0, cosineSimilarity(query, index.vectors.get(item.id) || []))
+    );
+  }
+
+  // BM25 scores are unbounded; scale so the best match is 1
+  private normalize(scores: number[]): number[] {
+    const max = Math.max(0, ...scores);
+    return scores.map((score) => (max > 0 ? score / max : 0));
+  }
+}
+
+/**
+ * Okapi BM25 over pre-tokenized documents
+ */
+class Bm25Index {
+  private static readonly K1 = 1.2;
+  private static readonly B = 0.75;
+  private documents: Map<string, number>[];
+  private lengths: number[];
+  private averageLength: number;
+  private documentFrequency: Map<string, number> = new Map();
+
+  constructor(documents: string[][]) {
+    this.documents = documents.map((terms) => {
+      const frequencies = new Map<string, number>();
+      terms.forEach((term) =>
+        frequencies.set(term, (frequencies.get(term) || 0) + 1)
+      );
+      return frequencies;
+    });
+    this.lengths = documents.map((terms) => terms.length);
+    this.averageLength =
+      this.lengths.reduce((sum, length) => sum + length, 0) /
+      Math.max(1, documents.length);
+    this.documents.forEach((frequencies) =>
+      frequencies.forEach((_, term) =>
+        this.documentFrequency.set(
+          term,
+          (this.documentFrequency.get(term) || 0) + 1
+        )
+      )
+    );
+  }
+
+  score(query: string[]): number[] {
+    const count = this.documents.length;
+    const terms = Array.from(new Set(query));
+
+    return this.documents.map((frequencies, i) =>
+      terms.reduce((score, term) => {
+        const frequency = frequencies.get(term);
+        if (!frequency) return score;
+        const df = this.documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (count - df + 0.5) / (df + 0.5));
+        const lengthNorm =
+          1 -
+          Bm25Index.B +
+          (Bm25Index.B * this.lengths[i]) / (this.averageLength || 1);
+        return (
+          score +
+          (idf * frequency * (Bm25Index.K1 + 1)) /
+            (frequency + Bm25Index.K1 * lengthNorm)
+        );
+      }, 0)
+    );
+  }
+}
+
+// Lowercased words without stopwords, reduced to a rough stem
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+    .filter((word) => word.length > 2 && !STOPWORDS.has(word))
+    .map((word) =>
+      word.replace(/(ing|ed|es|s)$/, (suffix) =>
+        word.length - suffix.length >= 4 ? "" : suffix
+      )
+    );
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
@@ -0,0 +1,142 @@
+/**
+ * Updates where every nested object is optional. Arrays and dates are
+ * leaves: they are replaced or merged whole, never field by field.
+ */
+export type DeepPartial<T> = T extends Date | readonly unknown[]
+  ? T
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+export type ArrayMergeStrategy =
+  | "replace" // the update's array wins (default)
+  | "append" // base items followed by update items
+  | "union" // append, skipping items already present
+  | { mergeByKey: string }; // deep-merge items sharing the key, append the rest
+
+/**
+ * Strategy per array, keyed by dotted path from the profile root.
+ * `*` matches any one segment, e.g. `goalEvolution.*.milestones`.
+ */
+export type ArrayMergeStrategies = Record<string, ArrayMergeStrategy>;
+
+/**
+ * Merges updates into a copy of base. Plain objects merge recursively so a
+ * partial update to one field keeps its siblings; undefined values are
+ * ignored; anything else, including dates and null, replaces the old value.
+ */
+export function mergeProfileUpdates<T>(
+  base: T,
+  updates: DeepPartial<T>,
+  strategies: ArrayMergeStrategies = {}
+): T {
+  return mergeValue(base, updates, [], strategies) as T;
+}
+
+function mergeValue(
+  base: unknown,
+  update: unknown,
+  path: string[],
+  strategies: ArrayMergeStrategies
+): unknown {
+  if (update === undefined) return structuredClone(base);
+
+  if (Array.isArray(update)) {
+    return Array.isArray(base)
+      ? mergeArrays(
+          base,
+          update,
+          strategyFor(path, strategies),
+          path,
+          strategies
+        )
+      : structuredClone(update);
+  }
+
+  if (isPlainObject(update) && isPlainObject(base)) {
+    const merged: Record<string, unknown> = structuredClone(base);
+    Object.entries(update).forEach(([key, value]) => {
+      if (value === undefined) return;
+      merged[key] = mergeValue(base[key], value, [...path, key], strategies);
+    });
+    return merged;
+  }
+
+  return structuredClone(update);
+}
+
+function mergeArrays(
+  base: unknown[],
+  update: unknown[],
+  strategy: ArrayMergeStrategy,
+  path: string[],
+  strategies: ArrayMergeStrategies
+): unknown[] {
+  if (strategy === "replace") return structuredClone(update);
+  if (strategy === "append") return structuredClone([...base, ...update]);
+
+  if (strategy === "union") {
+    const seen = new Set(base.map(identity));
+    const added = update.filter((item) => {
+      const id = identity(item);
+      if (seen.has(id)) return false;
+      seen.add(id);
+      return true;
+    });
+    return structuredClone([...base, ...added]);
+  }
+
+  const key = strategy.mergeByKey;
+  const merged = structuredClone(base);
+  update.forEach((item) => {
+    const itemKey = isPlainObject(item) ? item[key] : undefined;
+    const index =
+      itemKey === undefined
+        ? -1
+        : merged.findIndex((existing) =>
+            isPlainObject(existing) ? existing[key] === itemKey : false
+          );
+    if (index === -1) {
+      merged.push(structuredClone(item));
+    } else {
+      merged[index] = mergeValue(
+        merged[index],
+        item,
+        [...path, "*"],
+        strategies
+      );
+    }
+  });
+  return merged;
+}
+
+function strategyFor(
+  path: string[],
+  strategies: ArrayMergeStrategies
+): ArrayMergeStrategy {
+  const match = Object.keys(strategies).find((pattern) => {
+    const segments = pattern.split(".");
+    return (
+      segments.length === path.length &&
+      segments.every((segment, i) => segment === "*" || segment === path[i])
+    );
+  });
+  return match ? strategies[match] : "replace";
+}
+
+// Value identity for "union": dates by time, objects by their JSON form
+function identity(value: unknown): unknown {
+  if (value instanceof Date) return `date:${value.getTime()}`;
+  if (typeof value === "object" && value !== null) {
+    return `json:${JSON.stringify(value)}`;
+  }
+  return value;
+}
+
+// Checked by prototype depth rather than identity, so objects from another
+// realm (structuredClone inside a vm context) still count as plain
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === null || Object.getPrototypeOf(prototype) === null;
+}
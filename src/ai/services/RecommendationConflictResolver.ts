@@ -0,0 +1,301 @@
+import {
+  AdaptationRecommendation,
+  PlanChange,
+  RuleInteraction,
+  RuleWeights,
+} from "../adaptation-engine";
+import { parseRestDayAdjustment } from "./AdaptationGuardrails";
+
+export type ConflictResolutionMethod =
+  | "priority" // higher priority recommendation wins
+  | "rule_weight" // same priority, the rule with more learned weight wins
+  | "order" // full tie, the earlier recommendation wins
+  | "suppress" // an interaction names the dominant rule
+  | "merge" // an interaction blends both changes into one
+  | "redirect"; // an interaction replaces both with its resulting strategy
+
+export interface RecommendationConflict {
+  target: PlanChange["target"];
+  winner: AdaptationRecommendation;
+  loser: AdaptationRecommendation;
+  discardedChange: PlanChange;
+  resultingChange?: PlanChange; // the merged or redirected change
+  recommendationDropped: boolean; // loser had no changes left
+  resolution: ConflictResolutionMethod;
+  reason: string;
+}
+
+export interface ConflictResolutionResult {
+  recommendations: AdaptationRecommendation[];
+  conflicts: RecommendationConflict[];
+}
+
+interface ClaimedChange {
+  recommendation: AdaptationRecommendation;
+  change: PlanChange;
+  direction: number;
+}
+
+const PRIORITY_RANK = { critical: 4, high: 3, medium: 2, low: 1 };
+
+/**
+ * Detects recommendations that push the same plan target in opposite
+ * directions and keeps one outcome per target, so that applying the
+ * result no longer depends on array order.
+ */
+export class RecommendationConflictResolver {
+  resolve(
+    recommendations: AdaptationRecommendation[],
+    ruleWeights: Map<string, RuleWeights>,
+    ruleInteractions: RuleInteraction[]
+  ): ConflictResolutionResult {
+    const conflicts: RecommendationConflict[] = [];
+    const working = recommendations.map((rec) => ({
+      ...rec,
+      changes: [...rec.changes],
+    }));
+    const weightOf = (rec: AdaptationRecommendation) => {
+      const weights = rec.ruleId ? ruleWeights.get(rec.ruleId) : undefined;
+      return weights
+        ? weights.baseWeight * (weights.contextualModifiers[rec.type] ?? 1)
+        : 1;
+    };
+
+    // Strongest first, so each target is claimed by its best candidate
+    const ranked = working
+      .map((rec, index) => ({ rec, index }))
+      .sort(
+        (a, b) =>
+          PRIORITY_RANK[b.rec.priority] - PRIORITY_RANK[a.rec.priority] ||
+          weightOf(b.rec) - weightOf(a.rec) ||
+          a.index - b.index
+      );
+    const claims = new Map<string, ClaimedChange>();
+
+    for (const { rec } of ranked) {
+      for (const change of [...rec.changes]) {
+        const key = this.targetKey(change);
+        const direction = this.directionOf(change);
+        if (!key || direction === 0) continue;
+
+        const claimed = claims.get(key);
+        if (!claimed) {
+          claims.set(key, { recommendation: rec, change, direction });
+          continue;
+        }
+        if (claimed.direction === direction) continue;
+
+        const interaction = this.findInteraction(
+          ruleInteractions,
+          claimed.recommendation,
+          rec
+        );
+        const record = (
+          winner: AdaptationRecommendation,
+          loser: AdaptationRecommendation,
+          discardedChange: PlanChange,
+          resolution: ConflictResolutionMethod,
+          reason: string,
+          resultingChange?: PlanChange
+        ) => {
+          loser.changes = loser.changes.filter((c) => c !== discardedChange);
+          conflicts.push({
+            target: discardedChange.target,
+            winner,
+            loser,
+            discardedChange,
+            resultingChange,
+            recommendationDropped: false,
+            resolution,
+            reason,
+          });
+        };
+
+        if (interaction?.interactionType === "merge") {
+          const merged = this.mergeChanges(
+            claimed.change,
+            weightOf(claimed.recommendation) *
+              PRIORITY_RANK[claimed.recommendation.priority],
+            change,
+            weightOf(rec) * PRIORITY_RANK[rec.priority]
+          );
+          claimed.recommendation.changes = claimed.recommendation.changes.map(
+            (c) => (c === claimed.change ? merged : c)
+          );
+          record(
+            claimed.recommendation,
+            rec,
+            change,
+            "merge",
+            `${this.describe(rec)} merged into ${this.describe(claimed.recommendation)} (${interaction.resultingStrategy})`,
+            merged
+          );
+          claims.set(key, {
+            ...claimed,
+            change: merged,
+            direction: this.directionOf(merged),
+          });
+        } else if (interaction?.interactionType === "redirect") {
+          const redirected: PlanChange = {
+            target: "exercise",
+            adjustment: interaction.resultingStrategy,
+          };
+          claimed.recommendation.changes =
+            claimed.recommendation.changes.filter((c) => c !== claimed.change);
+          if (
+            !claimed.recommendation.changes.some(
+              (c) => c.adjustment === interaction.resultingStrategy
+            )
+          ) {
+            claimed.recommendation.changes.push(redirected);
+          }
+          const reason = `Opposing ${key} changes redirected to ${interaction.resultingStrategy}`;
+          conflicts.push({
+            target: claimed.change.target,
+            winner: claimed.recommendation,
+            loser: claimed.recommendation,
+            discardedChange: claimed.change,
+            resultingChange: redirected,
+            recommendationDropped: false,
+            resolution: "redirect",
+            reason,
+          });
+          record(
+            claimed.recommendation,
+            rec,
+            change,
+            "redirect",
+            reason,
+            redirected
+          );
+          claims.delete(key);
+        } else if (
+          interaction?.interactionType === "suppress" &&
+          interaction.rules[0] === rec.ruleId
+        ) {
+          // The weaker recommendation's rule is the dominant one here
+          record(
+            rec,
+            claimed.recommendation,
+            claimed.change,
+            "suppress",
+            `${this.describe(rec)} suppresses ${this.describe(claimed.recommendation)}`
+          );
+          claims.set(key, { recommendation: rec, change, direction });
+        } else if (interaction?.interactionType === "suppress") {
+          record(
+            claimed.recommendation,
+            rec,
+            change,
+            "suppress",
+            `${this.describe(claimed.recommendation)} suppresses ${this.describe(rec)}`
+          );
+        } else {
+          const resolution = this.rankingReason(
+            claimed.recommendation,
+            rec,
+            weightOf
+          );
+          record(
+            claimed.recommendation,
+            rec,
+            change,
+            resolution,
+            resolution === "priority"
+              ? `${claimed.recommendation.priority} priority ${this.describe(claimed.recommendation)} outranks ${rec.priority} priority ${this.describe(rec)}`
+              : resolution === "rule_weight"
+                ? `${this.describe(claimed.recommendation)} has a higher learned rule weight than ${this.describe(rec)}`
+                : `${this.describe(claimed.recommendation)} came first with equal priority and weight`
+          );
+        }
+      }
+    }
+
+    // Recommendations that lost every change are dropped entirely
+    const remaining = working.filter(
+      (rec, index) =>
+        rec.changes.length > 0 || recommendations[index].changes.length === 0
+    );
+    conflicts.forEach((conflict) => {
+      conflict.recommendationDropped = !remaining.includes(conflict.loser);
+    });
+
+    return { recommendations: remaining, conflicts };
+  }
+
+  // Changes compete when they move the same plan value
+  private targetKey(change: PlanChange): string | null {
+    switch (change.target) {
+      case "intensity":
+      case "volume":
+      case "frequency":
+        return change.target;
+      case "rest":
+        return "frequency"; // rest days replace sessions
+      case "exercise":
+        if (typeof change.adjustment !== "number" || !change.exerciseIds) {
+          return null;
+        }
+        return `exercise:${change.exerciseField || "intensity"}:${[...change.exerciseIds].sort().join(",")}`;
+    }
+  }
+
+  private directionOf(change: PlanChange): number {
+    if (change.target === "rest") {
+      return -Math.sign(parseRestDayAdjustment(change.adjustment) ?? 0);
+    }
+    return typeof change.adjustment === "number"
+      ? Math.sign(change.adjustment)
+      : 0;
+  }
+
+  private mergeChanges(
+    first: PlanChange,
+    firstWeight: number,
+    second: PlanChange,
+    secondWeight: number
+  ): PlanChange {
+    const delta = (change: PlanChange) =>
+      change.target === "rest"
+        ? -(parseRestDayAdjustment(change.adjustment) ?? 0)
+        : (change.adjustment as number);
+    const blended =
+      (delta(first) * firstWeight + delta(second) * secondWeight) /
+      (firstWeight + secondWeight);
+
+    if (first.target === "rest" || first.target === "frequency") {
+      return { target: "frequency", adjustment: Math.round(blended) };
+    }
+    return { ...first, adjustment: Math.round(blended * 10) / 10 };
+  }
+
+  private findInteraction(
+    interactions: RuleInteraction[],
+    a: AdaptationRecommendation,
+    b: AdaptationRecommendation
+  ): RuleInteraction | undefined {
+    if (!a.ruleId || !b.ruleId) return undefined;
+    return interactions.find(
+      (interaction) =>
+        ["suppress", "merge", "redirect"].includes(
+          interaction.interactionType
+        ) &&
+        interaction.rules.includes(a.ruleId!) &&
+        interaction.rules.includes(b.ruleId!)
+    );
+  }
+
+  private rankingReason(
+    winner: AdaptationRecommendation,
+    loser: AdaptationRecommendation,
+    weightOf: (rec: AdaptationRecommendation) => number
+  ): ConflictResolutionMethod {
+    if (winner.priority !== loser.priority) return "priority";
+    if (weightOf(winner) !== weightOf(loser)) return "rule_weight";
+    return "order";
+  }
+
+  private describe(recommendation: AdaptationRecommendation): string {
+    return recommendation.ruleId || recommendation.type;
+  }
+}
@@ -0,0 +1,256 @@
+import {
+  AdaptationGuardrails,
+  GuardrailSubject,
+} from "../AdaptationGuardrails";
+import {
+  createRecommendation,
+  createUserMetrics,
+  createWorkout,
+  NOW,
+} from "../../__tests__/fixtures";
+
+function createSubject(
+  overrides: Partial<GuardrailSubject> = {}
+): GuardrailSubject {
+  return {
+    userId: "user-1",
+    plan: createUserMetrics().currentPlan,
+    injuryRiskFactors: [],
+    recentWorkouts: [],
+    ...overrides,
+  };
+}
+
+const NO_PRIOR_CHANGES = { intensity: 0, volume: 0, frequency: 0 };
+
+describe("AdaptationGuardrails", () => {
+  const guardrails = new AdaptationGuardrails();
+
+  it("clamps a change to the weekly budget", () => {
+    const result = guardrails.enforce(
+      [
+        createRecommendation({
+          changes: [{ target: "intensity", adjustment: 40 }],
+        }),
+      ],
+      createSubject(),
+      NO_PRIOR_CHANGES,
+      NOW
+    );
+
+    expect(result.recommendations[0].changes[0].adjustment).toBe(25);
+    expect(result.audit).toEqual([
+      expect.objectContaining({
+        guardrail: "weekly_budget",
+        originalAdjustment: 40,
+        adjustedAdjustment: 25,
+        limit: 25,
+        timestamp: NOW,
+      }),
+    ]);
+  });
+
+  it("shares the budget between recommendations and prior changes", () => {
+    const result = guardrails.enforce(
+      [
+        createRecommendation({
+          changes: [{ target: "volume", adjustment: 10 }],
+        }),
+        createRecommendation({
+          changes: [{ target: "volume", adjustment: 10 }],
+        }),
+      ],
+      createSubject(),
+      { ...NO_PRIOR_CHANGES, volume: 15 },
+      NOW
+    );
+
+    expect(
+      result.recommendations.map((rec) => rec.changes[0].adjustment)
+    ).toEqual([10, 5]);
+  });
+
+  it("keeps the plan within absolute bounds", () => {
+    const plan = { ...createUserMetrics().currentPlan, intensity: 9 };
+    const result = guardrails.enforce(
+      [
+        createRecommendation({
+          changes: [{ target: "intensity", adjustment: 20 }],
+        }),
+      ],
+      createSubject({ plan }),
+      NO_PRIOR_CHANGES,
+      NOW
+    );
+
+    const adjustment = result.recommendations[0].changes[0].adjustment;
+    expect(adjustment).toBeLessThan(20);
+    expect(9 * (1 + (adjustment as number) / 100)).toBeLessThanOrEqual(10);
+    expect(result.audit[0]).toMatchObject({
+      guardrail: "absolute_bound",
+      limit: 10,
+    });
+  });
+
+  it("lets critical reductions past the weekly budget", () => {
+    const result = guardrails.enforce(
+      [
+        createRecommendation({
+          priority: "critical",
+          changes: [{ target: "volume", adjustment: -35 }],
+        }),
+      ],
+      createSubject(),
+      NO_PRIOR_CHANGES,
+      NOW
+    );
+
+    expect(result.recommendations[0].changes[0].adjustment).toBe(-35);
+    expect(result.audit).toEqual([]);
+  });
+
+  it("caps stacked critical cuts at the weekly cut limit", () => {
+    const criticalCut = (
+      target: "intensity" | "frequency",
+      adjustment: number
+    ) =>
+      createRecommendation({
+        priority: "critical",
+        changes: [{ target, adjustment }],
+      });
+
+    const result = guardrails.enforce(
+      [
+        criticalCut("intensity", -25),
+        criticalCut("intensity", -25),
+        criticalCut("frequency", -2),
+      ],
+      createSubject(),
+      { ...NO_PRIOR_CHANGES, frequency: -1 },
+      NOW
+    );
+
+    expect(
+      result.recommendations.map((rec) => rec.changes[0].adjustment)
+    ).toEqual([-25, -15, -1]);
+    expect(result.audit).toEqual([
+      expect.objectContaining({
+        guardrail: "weekly_budget",
+        originalAdjustment: -25,
+        adjustedAdjustment: -15,
+        limit: 40,
+        reason: "Weekly intensity cut limit of 40% would be exceeded",
+      }),
+      expect.objectContaining({ adjustedAdjustment: -1, limit: 2 }),
+    ]);
+  });
+
+  it("keeps critical cuts above the absolute bounds", () => {
+    const plan = { ...createUserMetrics().currentPlan, frequency: 2 };
+    const result = guardrails.enforce(
+      [
+        createRecommendation({
+          priority: "critical",
+          changes: [{ target: "frequency", adjustment: -2 }],
+        }),
+      ],
+      createSubject({ plan }),
+      NO_PRIOR_CHANGES,
+      NOW
+    );
+
+    expect(result.recommendations[0].changes[0].adjustment).toBe(-1);
+    expect(result.audit[0]).toMatchObject({
+      guardrail: "absolute_bound",
+      limit: 1,
+    });
+  });
+
+  it("blocks increases while injury risks are flagged", () => {
+    const result = guardrails.enforce(
+      [
+        createRecommendation({
+          changes: [{ target: "intensity", adjustment: 10 }],
+        }),
+        createRecommendation({
+          changes: [{ target: "volume", adjustment: -10 }],
+        }),
+      ],
+      createSubject({ injuryRiskFactors: ["knee"] }),
+      NO_PRIOR_CHANGES,
+      NOW
+    );
+
+    expect(result.recommendations).toHaveLength(1);
+    expect(result.recommendations[0].changes[0]).toEqual({
+      target: "volume",
+      adjustment: -10,
+    });
+    expect(result.audit[0]).toMatchObject({
+      guardrail: "injury_contraindication",
+      adjustedAdjustment: null,
+    });
+  });
+
+  it("holds intensity increases after a recent high-intensity session", () => {
+    const hardSession = createWorkout(0.5, {
+      exerciseResults: [
+        {
+          exerciseId: "squat",
+          completedSets: 4,
+          completedReps: [5, 5, 5, 5],
+          perceivedExertion: 9,
+        },
+      ],
+    });
+    const recommendations = [
+      createRecommendation({
+        changes: [{ target: "intensity", adjustment: 10 }],
+      }),
+    ];
+
+    const resting = guardrails.enforce(
+      recommendations,
+      createSubject({ recentWorkouts: [hardSession] }),
+      NO_PRIOR_CHANGES,
+      NOW
+    );
+    const rested = guardrails.enforce(
+      recommendations,
+      createSubject({ recentWorkouts: [hardSession] }),
+      NO_PRIOR_CHANGES,
+      new Date(NOW.getTime() + 3 * 24 * 60 * 60 * 1000)
+    );
+
+    expect(resting.recommendations).toEqual([]);
+    expect(resting.audit[0].guardrail).toBe("high_intensity_rest");
+    expect(rested.recommendations[0].changes[0].adjustment).toBe(10);
+  });
+
+  it("budgets per-exercise changes", () => {
+    const result = guardrails.enforce(
+      [
+        createRecommendation({
+          type: "exercise_swap",
+          changes: [
+            {
+              target: "exercise",
+              adjustment: 30,
+              exerciseIds: ["squat"],
+              exerciseField: "weight",
+            },
+          ],
+        }),
+      ],
+      createSubject(),
+      { ...NO_PRIOR_CHANGES, exercises: { "squat.weight": 5 } },
+      NOW
+    );
+
+    expect(result.recommendations[0].changes[0].adjustment).toBe(10);
+    expect(result.audit[0]).toMatchObject({
+      guardrail: "weekly_budget",
+      limit: 15,
+    });
+  });
+});
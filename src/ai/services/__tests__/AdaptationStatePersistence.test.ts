@@ -0,0 +1,132 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { AdaptationEngine, SerializedMLModel } from "../../adaptation-engine";
+import {
+  InMemoryAdaptationStateProvider,
+  JsonFileAdaptationStateProvider,
+} from "../AdaptationStatePersistence";
+import {
+  createOutcome,
+  createUserMetrics,
+  createUserSignature,
+  createWorkout,
+  NOW,
+} from "../../__tests__/fixtures";
+
+const SERVING_MODEL: SerializedMLModel = {
+  config: {
+    modelType: "gradient_boosting",
+    version: "ml-v1",
+    trainingDataSize: 40,
+    lastTrainedAt: NOW,
+    accuracy: 0.7,
+    features: [],
+    hyperparameters: {},
+    deploymentStatus: "production",
+  },
+  featureNames: ["fatigue"],
+  baseScore: 0.4,
+  learningRate: 0.1,
+  trees: [],
+};
+
+// A user whose fatigue triggers recommendations, so analysis records samples
+function createTiredUser() {
+  return createUserMetrics({
+    recentWorkouts: [3, 2, 1].map((daysAgo) =>
+      createWorkout(daysAgo, { reportedFatigue: 9, completionRate: 0.5 })
+    ),
+  });
+}
+
+describe("JsonFileAdaptationStateProvider", () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "adaptation-state-"));
+    filePath = path.join(directory, "state.json");
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("revives known date fields and leaves other strings alone", async () => {
+    const note = "2026-05-01T08:00:00Z";
+    await new JsonFileAdaptationStateProvider(filePath).saveUserSignature(
+      createUserSignature({ planCompliancePattern: note })
+    );
+
+    const state = await new JsonFileAdaptationStateProvider(
+      filePath
+    ).loadState();
+
+    expect(state!.userSignatures[0].lastUpdated).toEqual(NOW);
+    expect(state!.userSignatures[0].planCompliancePattern).toBe(note);
+  });
+
+  it("writes a burst of saves to the file once", async () => {
+    const provider = new JsonFileAdaptationStateProvider(filePath);
+    await provider.loadState();
+    const writeFile = jest.spyOn(fs, "writeFile");
+
+    await Promise.all(
+      ["a", "b", "c", "d"].map((userId) =>
+        provider.saveUserSignature(createUserSignature({ userId }))
+      )
+    );
+
+    expect(writeFile).toHaveBeenCalledTimes(1);
+    const state = await new JsonFileAdaptationStateProvider(
+      filePath
+    ).loadState();
+    expect(state!.userSignatures.map((s) => s.userId)).toEqual([
+      "a",
+      "b",
+      "c",
+      "d",
+    ]);
+  });
+});
+
+describe("AdaptationEngine state persistence", () => {
+  it("appends new training samples and updates labelled ones", async () => {
+    const provider = new InMemoryAdaptationStateProvider();
+    const append = jest.spyOn(provider, "appendTrainingData");
+    const engine = new AdaptationEngine(provider);
+
+    const first = await engine.analyzeWithExplanation(createTiredUser());
+    await engine.analyzeWithExplanation(createTiredUser());
+    await engine.recordAdaptationOutcome(
+      first.recommendations[0].adaptationId!,
+      createOutcome()
+    );
+    await engine.flush();
+
+    const stored = (await provider.loadState())!.mlTrainingData;
+    expect(append.mock.calls.map(([samples]) => samples.length)).toEqual([
+      first.recommendations.length,
+      stored.length - first.recommendations.length,
+    ]);
+    expect(stored[0].targetOutcome.satisfactionRating).toBe(8);
+  });
+
+  it("serves the promoted model again after a restart", async () => {
+    const provider = new InMemoryAdaptationStateProvider();
+    const engine = new AdaptationEngine(provider);
+    engine.importMLModel(SERVING_MODEL);
+    await engine.flush();
+
+    const restarted = new AdaptationEngine(provider);
+    await restarted.hydrate();
+
+    expect(restarted.getMLModelStatus().active).toMatchObject({
+      version: "ml-v1",
+      deploymentStatus: "production",
+    });
+    expect(restarted.exportMLModel()).toEqual(SERVING_MODEL);
+  });
+});
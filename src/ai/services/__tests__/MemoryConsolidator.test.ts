@@ -0,0 +1,233 @@
+import { ConversationContext, UserMemoryProfile } from "../../smart-memory";
+import { MemoryConsolidator } from "../MemoryConsolidator";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date("2026-06-01T12:00:00Z");
+
+function daysAgo(days: number): Date {
+  return new Date(NOW.getTime() - days * DAY_MS);
+}
+
+function workout(
+  date: Date,
+  completed: boolean
+): UserMemoryProfile["workoutHistory"][number] {
+  return {
+    date: date.toISOString(),
+    type: "strength",
+    duration: 45,
+    intensity: 6,
+    completed,
+  };
+}
+
+function conversation(
+  date: Date,
+  fields: Partial<ConversationContext> = {}
+): ConversationContext {
+  return {
+    timestamp: date,
+    topic: "nutrition",
+    userMood: 6,
+    concerns: [],
+    decisions: [],
+    outcomes: [],
+    satisfaction: 8,
+    ...fields,
+  };
+}
+
+// Only the sections the consolidator reads and writes
+function createProfile(
+  fields: {
+    workoutHistory?: UserMemoryProfile["workoutHistory"];
+    contextualMemory?: Partial<UserMemoryProfile["contextualMemory"]>;
+  } = {}
+): UserMemoryProfile {
+  return {
+    userId: "user-1",
+    workoutHistory: fields.workoutHistory || [],
+    adaptationHistory: { adaptationsApplied: [], userResponses: {} },
+    contextualMemory: {
+      recentContexts: [],
+      frequentConcerns: [],
+      goalEvolution: [],
+      lifeEventImpacts: [],
+      ...fields.contextualMemory,
+    },
+  } as unknown as UserMemoryProfile;
+}
+
+describe("MemoryConsolidator", () => {
+  it("rolls old workouts into a summarized fact and an archive", () => {
+    // Four Mondays in January, all skipped, and one recent session
+    const mondays = [5, 12, 19, 26].map(
+      (day) => new Date(Date.UTC(2026, 0, day, 7))
+    );
+    const profile = createProfile({
+      workoutHistory: [
+        ...mondays.map((date) => workout(date, false)),
+        workout(daysAgo(2), true),
+      ],
+    });
+
+    const result = new MemoryConsolidator().consolidate(profile, NOW);
+
+    expect(result).toMatchObject({
+      workoutsConsolidated: 4,
+      factsAdded: 1,
+      factsPruned: 0,
+    });
+    expect(profile.workoutHistory).toEqual([workout(daysAgo(2), true)]);
+    expect(profile.contextualMemory.longTermFacts).toEqual([
+      {
+        id: "skips:monday:winter",
+        category: "workout_pattern",
+        statement: "consistently skips monday sessions in winter (100% of 4)",
+        value: 1,
+        observations: 4,
+        firstObserved: mondays[0],
+        lastObserved: mondays[3],
+        weight: 0.246,
+      },
+    ]);
+    expect(profile.workoutArchive).toMatchObject({
+      totalWorkouts: 4,
+      completedWorkouts: 0,
+      byType: { strength: { count: 4, completed: 0, totalDuration: 0 } },
+    });
+  });
+
+  it("halves a fact's weight every half-life and prunes faded facts", () => {
+    const consolidator = new MemoryConsolidator();
+    const profile = createProfile({
+      contextualMemory: {
+        longTermFacts: [
+          {
+            id: "mood",
+            category: "mood",
+            statement: "average mood 5.0/10 across 1 past conversations",
+            value: 5,
+            observations: 1,
+            firstObserved: daysAgo(730),
+            lastObserved: daysAgo(730),
+            weight: 0.1,
+          },
+        ],
+      },
+    });
+
+    expect(
+      consolidator.decayWeight(
+        { observations: 10, lastObserved: daysAgo(180) },
+        NOW
+      )
+    ).toBe(0.5);
+    expect(
+      consolidator.decayWeight(
+        { observations: 5, lastObserved: daysAgo(360) },
+        NOW
+      )
+    ).toBe(0.125);
+
+    const result = consolidator.consolidate(profile, NOW);
+
+    expect(result.factsPruned).toBe(1);
+    expect(profile.contextualMemory.longTermFacts).toEqual([]);
+  });
+
+  it("summarizes old conversations and remembers repeated concerns", () => {
+    const profile = createProfile({
+      contextualMemory: {
+        recentContexts: [
+          conversation(daysAgo(150), { concerns: ["knee pain"], userMood: 4 }),
+          conversation(daysAgo(120), { concerns: ["knee pain"], userMood: 6 }),
+          conversation(daysAgo(5), { concerns: ["sleep"] }),
+        ],
+      },
+    });
+
+    const result = new MemoryConsolidator().consolidate(profile, NOW);
+    const memory = profile.contextualMemory;
+
+    expect(result.contextsConsolidated).toBe(2);
+    expect(memory.recentContexts).toHaveLength(1);
+    expect(memory.longTermFacts!.map((fact) => fact.statement)).toEqual(
+      expect.arrayContaining([
+        "discussed nutrition in 2 conversations (average satisfaction 8.0/10)",
+        'raised "knee pain" in 100% of 2 conversations',
+        "average mood 5.0/10 across 2 past conversations",
+      ])
+    );
+    expect(memory.frequentConcerns).toEqual(["knee pain"]);
+  });
+
+  it("merges new evidence into an existing fact", () => {
+    const consolidator = new MemoryConsolidator();
+    const profile = createProfile({
+      contextualMemory: {
+        recentContexts: [
+          conversation(daysAgo(200), { userMood: 4 }),
+          conversation(daysAgo(190), { userMood: 6 }),
+        ],
+      },
+    });
+    consolidator.consolidate(profile, NOW);
+
+    profile.contextualMemory.recentContexts.push(
+      conversation(daysAgo(100), { userMood: 8 }),
+      conversation(daysAgo(95), { userMood: 8 })
+    );
+    const result = consolidator.consolidate(profile, NOW);
+    const mood = profile.contextualMemory.longTermFacts!.find(
+      (fact) => fact.id === "mood"
+    );
+
+    expect(result.factsUpdated).toBe(2);
+    expect(mood).toMatchObject({
+      value: 6.5,
+      observations: 4,
+      firstObserved: daysAgo(200),
+      lastObserved: daysAgo(95),
+      statement: "average mood 6.5/10 across 4 past conversations",
+    });
+  });
+
+  it("caps recent entries and lists without summaries", () => {
+    const consolidator = new MemoryConsolidator({
+      maxWorkoutHistory: 2,
+      maxListEntries: 2,
+    });
+    const profile = createProfile({
+      workoutHistory: [5, 4, 3, 2, 1].map((days) =>
+        workout(daysAgo(days), true)
+      ),
+      contextualMemory: {
+        goalEvolution: [4, 3, 2, 1].map((days) => ({
+          timestamp: daysAgo(days),
+          previousGoal: `goal-${days + 1}`,
+          newGoal: `goal-${days}`,
+          reason: "changed focus",
+          confidence: 0.7,
+        })),
+      },
+    });
+    expect(consolidator.needsConsolidation(profile)).toBe(true);
+
+    const result = consolidator.consolidate(profile, NOW);
+
+    expect(result).toMatchObject({
+      workoutsConsolidated: 3,
+      entriesTrimmed: 2,
+    });
+    expect(profile.workoutHistory).toEqual([
+      workout(daysAgo(2), true),
+      workout(daysAgo(1), true),
+    ]);
+    expect(
+      profile.contextualMemory.goalEvolution.map((g) => g.newGoal)
+    ).toEqual(["goal-2", "goal-1"]);
+    expect(profile.workoutArchive!.totalWorkouts).toBe(3);
+    expect(consolidator.needsConsolidation(profile)).toBe(false);
+  });
+});
@@ -0,0 +1,329 @@
+import { SmartMemoryEngine, UserMemoryProfile } from "../../smart-memory";
+import { CacheService } from "../CacheService";
+import {
+  IMemoryPersistenceProvider,
+  MemoryPersistenceService,
+  MemoryProfileConflictError,
+  MemoryProfileVersion,
+} from "../MemoryPersistenceService";
+import { NateScoringEngine } from "../NateScoringEngine";
+import { PlanTemplateGenerator } from "../PlanTemplateGenerator";
+import { PrivacyManager } from "../PrivacyManager";
+import { VisualizationService } from "../VisualizationService";
+
+// In-memory provider with the compare-and-set check providers must implement
+class InMemoryMemoryProvider implements IMemoryPersistenceProvider {
+  profiles = new Map<string, UserMemoryProfile>();
+  versions: MemoryProfileVersion[] = [];
+  saves = 0;
+
+  async saveMemoryProfile(
+    profile: UserMemoryProfile,
+    expectedVersion?: number
+  ): Promise<boolean> {
+    this.saves++;
+    const stored = this.profiles.get(profile.userId)?.version ?? 0;
+    if (expectedVersion !== undefined && stored !== expectedVersion) {
+      return false;
+    }
+    this.profiles.set(profile.userId, structuredClone(profile));
+    return true;
+  }
+
+  async loadMemoryProfile(userId: string): Promise<UserMemoryProfile | null> {
+    const stored = this.profiles.get(userId);
+    return stored ? structuredClone(stored) : null;
+  }
+
+  async saveMemoryProfileVersion(version: MemoryProfileVersion): Promise<void> {
+    this.versions.push(structuredClone(version));
+  }
+
+  async loadMemoryProfileVersions(
+    userId: string
+  ): Promise<MemoryProfileVersion[]> {
+    return structuredClone(this.versions.filter((v) => v.userId === userId));
+  }
+
+  async deleteMemoryProfileVersions(
+    userId: string,
+    beforeVersion: number
+  ): Promise<void> {
+    this.versions = this.versions.filter(
+      (v) => v.userId !== userId || v.version >= beforeVersion
+    );
+  }
+
+  async saveReinforcementProfile(): Promise<void> {}
+  async loadReinforcementProfile() {
+    return null;
+  }
+  async savePrivacySettings(): Promise<void> {}
+  async loadPrivacySettings() {
+    return null;
+  }
+  async deleteUserData(userId: string): Promise<void> {
+    this.profiles.delete(userId);
+  }
+}
+
+// Cache that never hits, so every read goes to the provider
+const noCache = {
+  getCachedMemoryProfile: async () => null,
+  cacheMemoryProfile: async () => undefined,
+  invalidateMemoryProfile: async () => undefined,
+  invalidateAllUserData: async () => undefined,
+} as unknown as CacheService;
+
+// Only the fields these specs read; the service treats profiles as opaque
+function createProfile(
+  fields: Partial<UserMemoryProfile> = {}
+): UserMemoryProfile {
+  return {
+    userId: "user-1",
+    fitnessLevel: "beginner",
+    ...fields,
+  } as UserMemoryProfile;
+}
+
+function createEngine(provider: IMemoryPersistenceProvider): SmartMemoryEngine {
+  return new SmartMemoryEngine(
+    new MemoryPersistenceService(provider, noCache),
+    new NateScoringEngine(),
+    {} as PlanTemplateGenerator, // not used by profile updates
+    new VisualizationService(),
+    new PrivacyManager("test-key"),
+    noCache
+  );
+}
+
+async function saveLevels(
+  service: MemoryPersistenceService,
+  levels: UserMemoryProfile["fitnessLevel"][]
+): Promise<UserMemoryProfile> {
+  let profile = createProfile();
+  for (const fitnessLevel of levels) {
+    profile = await service.saveMemoryProfile(
+      { ...profile, fitnessLevel },
+      `set ${fitnessLevel}`
+    );
+  }
+  return profile;
+}
+
+describe("MemoryPersistenceService versioning", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("saves each write as the next version", async () => {
+    const provider = new InMemoryMemoryProvider();
+    const service = new MemoryPersistenceService(provider, noCache);
+
+    const latest = await saveLevels(service, ["beginner", "advanced"]);
+
+    expect(latest.version).toBe(2);
+    expect(
+      (await service.getMemoryProfileVersions("user-1")).map((v) => [
+        v.version,
+        v.reason,
+      ])
+    ).toEqual([
+      [1, "set beginner"],
+      [2, "set advanced"],
+    ]);
+  });
+
+  it("reads the profile as it was at a point in time", async () => {
+    jest.useFakeTimers({ now: new Date("2026-03-01T00:00:00Z") });
+    const provider = new InMemoryMemoryProvider();
+    const service = new MemoryPersistenceService(provider, noCache);
+
+    const first = await service.saveMemoryProfile(createProfile());
+    jest.setSystemTime(new Date("2026-03-10T00:00:00Z"));
+    await service.saveMemoryProfile({ ...first, fitnessLevel: "advanced" });
+
+    expect(
+      await service.getMemoryProfileAt("user-1", new Date("2026-02-01"))
+    ).toBeNull();
+    expect(
+      (await service.getMemoryProfileAt("user-1", new Date("2026-03-05")))!
+        .fitnessLevel
+    ).toBe("beginner");
+    expect(
+      (await service.getMemoryProfileAt("user-1", new Date("2026-03-20")))!
+        .fitnessLevel
+    ).toBe("advanced");
+  });
+
+  it("keeps only the configured number of versions", async () => {
+    const provider = new InMemoryMemoryProvider();
+    const service = new MemoryPersistenceService(provider, noCache, 2);
+
+    await saveLevels(service, ["beginner", "intermediate", "advanced"]);
+
+    expect(provider.versions.map((v) => v.version)).toEqual([2, 3]);
+    await expect(service.rollbackMemoryProfile("user-1", 1)).rejects.toThrow(
+      'Unknown memory profile version 1 for user "user-1"'
+    );
+  });
+
+  it("diffs and rolls back versions", async () => {
+    const provider = new InMemoryMemoryProvider();
+    const service = new MemoryPersistenceService(provider, noCache);
+    await saveLevels(service, ["beginner", "advanced"]);
+
+    const diff = await service.diffMemoryProfileVersions("user-1", 1, 2);
+    const restored = await service.rollbackMemoryProfile("user-1", 1);
+
+    expect(diff.changes).toEqual([
+      {
+        path: "fitnessLevel",
+        kind: "changed",
+        before: "beginner",
+        after: "advanced",
+      },
+    ]);
+    expect(restored).toMatchObject({ version: 3, fitnessLevel: "beginner" });
+    expect(provider.versions[2].reason).toBe("rollback to version 1");
+  });
+
+  it("saves without history when the provider keeps no versions", async () => {
+    const provider = new InMemoryMemoryProvider();
+    const unversioned: IMemoryPersistenceProvider = {
+      saveMemoryProfile: (profile, expectedVersion) =>
+        provider.saveMemoryProfile(profile, expectedVersion),
+      loadMemoryProfile: (userId) => provider.loadMemoryProfile(userId),
+      saveReinforcementProfile: () => provider.saveReinforcementProfile(),
+      loadReinforcementProfile: () => provider.loadReinforcementProfile(),
+      savePrivacySettings: () => provider.savePrivacySettings(),
+      loadPrivacySettings: () => provider.loadPrivacySettings(),
+      deleteUserData: (userId) => provider.deleteUserData(userId),
+    };
+    const service = new MemoryPersistenceService(unversioned, noCache);
+
+    const saved = await saveLevels(service, ["beginner", "advanced"]);
+
+    expect(saved.version).toBe(2);
+    expect(await service.getMemoryProfileVersions("user-1")).toEqual([]);
+  });
+});
+
+describe("Memory profile write conflicts", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("rejects a save based on a stale version", async () => {
+    const provider = new InMemoryMemoryProvider();
+    const service = new MemoryPersistenceService(provider, noCache);
+    const profile = await service.saveMemoryProfile(createProfile());
+
+    await service.saveMemoryProfile(profile, "first writer", true);
+    const stale = service.saveMemoryProfile(profile, "second writer", true);
+
+    await expect(stale).rejects.toBeInstanceOf(MemoryProfileConflictError);
+    await expect(stale).rejects.toMatchObject({
+      userId: "user-1",
+      expectedVersion: 1,
+    });
+    expect((await provider.loadMemoryProfile("user-1"))!.version).toBe(2);
+  });
+
+  it("warns once when the provider cannot report conflicts", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const provider = new InMemoryMemoryProvider();
+    const unchecked: IMemoryPersistenceProvider = {
+      saveMemoryProfile: async (profile) => {
+        await provider.saveMemoryProfile(profile);
+      },
+      loadMemoryProfile: (userId) => provider.loadMemoryProfile(userId),
+      saveReinforcementProfile: () => provider.saveReinforcementProfile(),
+      loadReinforcementProfile: () => provider.loadReinforcementProfile(),
+      savePrivacySettings: () => provider.savePrivacySettings(),
+      loadPrivacySettings: () => provider.loadPrivacySettings(),
+      deleteUserData: (userId) => provider.deleteUserData(userId),
+    };
+    const service = new MemoryPersistenceService(unchecked, noCache);
+
+    const first = await service.saveMemoryProfile(createProfile(), "a", true);
+    await service.saveMemoryProfile(first, "b", true);
+
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+
+  it("re-applies an update after another process wrote first", async () => {
+    const provider = new InMemoryMemoryProvider();
+    const engine = createEngine(provider);
+    await engine.updateMemoryProfile("user-1", { fitnessGoals: ["strength"] });
+
+    // Another process saves version 2 behind this engine's back
+    const external = (await provider.loadMemoryProfile("user-1"))!;
+    await provider.saveMemoryProfile(
+      { ...external, fitnessLevel: "advanced", version: 2 },
+      1
+    );
+
+    const updated = await engine.updateMemoryProfile(
+      "user-1",
+      { fitnessGoals: ["endurance"] },
+      { arrayStrategies: { fitnessGoals: "union" } }
+    );
+
+    expect(updated.version).toBe(3);
+    expect(updated.fitnessLevel).toBe("advanced");
+    expect(updated.fitnessGoals).toEqual(["strength", "endurance"]);
+  });
+
+  it("fails instead of retrying when asked to", async () => {
+    const provider = new InMemoryMemoryProvider();
+    const engine = createEngine(provider);
+    await engine.updateMemoryProfile("user-1", {});
+    const external = (await provider.loadMemoryProfile("user-1"))!;
+    await provider.saveMemoryProfile({ ...external, version: 2 }, 1);
+
+    await expect(
+      engine.updateMemoryProfile(
+        "user-1",
+        { fitnessLevel: "advanced" },
+        { onConflict: "fail" }
+      )
+    ).rejects.toBeInstanceOf(MemoryProfileConflictError);
+  });
+
+  it("serializes concurrent updates in one process", async () => {
+    const provider = new InMemoryMemoryProvider();
+    const engine = createEngine(provider);
+    await engine.updateMemoryProfile("user-1", {});
+
+    await Promise.all(
+      ["a", "b", "c"].map((goal) =>
+        engine.updateMemoryProfile(
+          "user-1",
+          { fitnessGoals: [goal] },
+          { arrayStrategies: { fitnessGoals: "union" } }
+        )
+      )
+    );
+
+    const stored = (await provider.loadMemoryProfile("user-1"))!;
+    expect(stored.fitnessGoals).toEqual(["a", "b", "c"]);
+    expect(provider.versions.map((v) => v.version)).toEqual([1, 2, 3, 4]);
+    expect(provider.saves).toBe(4);
+  });
+
+  it("serializes a rollback with concurrent updates", async () => {
+    const provider = new InMemoryMemoryProvider();
+    const engine = createEngine(provider);
+    await engine.updateMemoryProfile("user-1", { fitnessLevel: "beginner" });
+    await engine.updateMemoryProfile("user-1", { fitnessLevel: "advanced" });
+
+    await Promise.all([
+      engine.rollbackMemoryProfile("user-1", 1),
+      engine.updateMemoryProfile("user-1", { fitnessGoals: ["strength"] }),
+    ]);
+
+    expect(provider.versions.map((v) => v.version)).toEqual([1, 2, 3, 4]);
+    expect(provider.saves).toBe(4);
+  });
+});
@@ -0,0 +1,174 @@
+import { ConversationContext, UserMemoryProfile } from "../../smart-memory";
+import { EmbeddingFunction, MemoryRetriever } from "../MemoryRetriever";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date("2026-06-01T12:00:00Z");
+
+function daysAgo(days: number): Date {
+  return new Date(NOW.getTime() - days * DAY_MS);
+}
+
+function conversation(
+  days: number,
+  fields: Partial<ConversationContext>
+): ConversationContext {
+  return {
+    timestamp: daysAgo(days),
+    topic: "training",
+    userMood: 6,
+    concerns: [],
+    decisions: [],
+    outcomes: [],
+    satisfaction: 7,
+    ...fields,
+  };
+}
+
+// Only the sections the retriever indexes
+function createProfile(
+  recentContexts: ConversationContext[] = []
+): UserMemoryProfile {
+  return {
+    userId: "user-1",
+    adaptationHistory: { adaptationsApplied: [] },
+    behaviorPatterns: { plateauHistory: { successfulBreakthroughs: [] } },
+    failurePatterns: {
+      commonFailurePoints: [
+        {
+          trigger: "work travel",
+          frequency: 3,
+          averageRecoveryTime: 7,
+          successfulInterventions: ["hotel bodyweight circuits"],
+          warningSignsDetected: [],
+          impactSeverity: "medium",
+        },
+      ],
+      relapseCycles: [],
+      recoveryStrategies: [],
+    },
+    achievementHistory: {
+      milestones: [
+        {
+          id: "m-1",
+          name: "first 100kg squat",
+          category: "strength",
+          achievedDate: daysAgo(30),
+        },
+      ],
+      personalRecords: [],
+    },
+    contextualMemory: {
+      recentContexts,
+      goalEvolution: [],
+      lifeEventImpacts: [],
+    },
+  } as unknown as UserMemoryProfile;
+}
+
+// Two dimensions: sleep-related and knee-related words
+const keywordEmbedding: EmbeddingFunction = (texts) =>
+  texts.map((text) => [
+    /sleep|rest|tired/i.test(text) ? 1 : 0,
+    /knee|squat/i.test(text) ? 1 : 0,
+  ]);
+
+describe("MemoryRetriever", () => {
+  it("ranks matching memories first and leaves out unrelated ones", async () => {
+    const profile = createProfile([
+      conversation(10, { concerns: ["knee pain during squats"] }),
+      conversation(12, { decisions: ["switch to evening sessions"] }),
+    ]);
+
+    const memories = await new MemoryRetriever().retrieve(
+      profile,
+      "My knee hurts when I squat",
+      5,
+      NOW
+    );
+
+    expect(memories.map((m) => [m.kind, m.section])).toEqual([
+      ["concern", "events"],
+      ["milestone", "successes"],
+    ]);
+    expect(memories[0]).toMatchObject({
+      text: "Concern while discussing training: knee pain during squats",
+      relevance: 1,
+    });
+  });
+
+  it("prefers the more recent of two equally relevant memories", async () => {
+    const profile = createProfile([
+      conversation(400, { concerns: ["shoulder clicking on bench"] }),
+      conversation(5, { concerns: ["shoulder clicking on bench"] }),
+    ]);
+
+    const memories = await new MemoryRetriever().retrieve(
+      profile,
+      "shoulder clicking",
+      5,
+      NOW
+    );
+
+    expect(memories.map((m) => m.timestamp)).toEqual([
+      daysAgo(5),
+      daysAgo(400),
+    ]);
+    expect(memories[0].relevance).toBe(memories[1].relevance);
+    expect(memories[0].score).toBeGreaterThan(memories[1].score);
+  });
+
+  it("returns at most topK memories", async () => {
+    const profile = createProfile(
+      [1, 2, 3].map((days) =>
+        conversation(days, { concerns: [`travel week ${days}`] })
+      )
+    );
+
+    const memories = await new MemoryRetriever().retrieve(
+      profile,
+      "travel",
+      2,
+      NOW
+    );
+
+    expect(memories).toHaveLength(2);
+  });
+
+  it("ranks with a pluggable embedding and reuses unchanged vectors", async () => {
+    const embed = jest.fn(keywordEmbedding);
+    const retriever = new MemoryRetriever({ embed });
+    const contexts = [conversation(3, { concerns: ["can't sleep well"] })];
+
+    // No word is shared with the memory, so only the embedding can match
+    const memories = await retriever.retrieve(
+      createProfile(contexts),
+      "always tired lately",
+      1,
+      NOW
+    );
+    await retriever.retrieve(
+      createProfile([
+        ...contexts,
+        conversation(1, { concerns: ["knee feels better"] }),
+      ]),
+      "always tired lately",
+      1,
+      NOW
+    );
+
+    expect(memories[0].text).toBe(
+      "Concern while discussing training: can't sleep well"
+    );
+    expect(embed.mock.calls.map(([texts]) => texts.length)).toEqual([
+      3, 1, 1, 1,
+    ]);
+  });
+
+  it("rejects an embedding that returns the wrong number of vectors", async () => {
+    const retriever = new MemoryRetriever({ embed: () => [[1, 0]] });
+
+    await expect(
+      retriever.retrieve(createProfile(), "travel", 5, NOW)
+    ).rejects.toThrow("Embedding function returned 1 vectors for 2 texts");
+  });
+});
@@ -0,0 +1,117 @@
+import { mergeProfileUpdates } from "../ProfileMerge";
+
+interface Profile {
+  name: string;
+  goals: string[];
+  stats: { weight: number; height: number; history: number[] };
+  tags: { id: string; label: string; count: number }[];
+  updatedAt: Date;
+  note?: string | null;
+}
+
+function createProfile(): Profile {
+  return {
+    name: "Sam",
+    goals: ["strength"],
+    stats: { weight: 80, height: 180, history: [81, 80] },
+    tags: [
+      { id: "a", label: "early bird", count: 1 },
+      { id: "b", label: "runner", count: 2 },
+    ],
+    updatedAt: new Date("2026-01-01T00:00:00Z"),
+    note: "keep",
+  };
+}
+
+describe("mergeProfileUpdates", () => {
+  it("merges nested objects and keeps their siblings", () => {
+    const merged = mergeProfileUpdates(createProfile(), {
+      stats: { weight: 78 },
+    });
+
+    expect(merged.stats).toEqual({
+      weight: 78,
+      height: 180,
+      history: [81, 80],
+    });
+    expect(merged.name).toBe("Sam");
+  });
+
+  it("never mutates the base or shares references with it", () => {
+    const base = createProfile();
+    const merged = mergeProfileUpdates(base, { name: "Alex" });
+
+    merged.stats.history.push(79);
+    merged.tags[0].count = 10;
+
+    expect(base).toEqual(createProfile());
+  });
+
+  it("ignores undefined values and replaces dates and null", () => {
+    const updatedAt = new Date("2026-02-01T00:00:00Z");
+    const merged = mergeProfileUpdates(createProfile(), {
+      name: undefined,
+      note: null,
+      updatedAt,
+    });
+
+    expect(merged.name).toBe("Sam");
+    expect(merged.note).toBeNull();
+    expect(merged.updatedAt).toEqual(updatedAt);
+    expect(merged.updatedAt).not.toBe(updatedAt);
+  });
+
+  it("replaces arrays unless a strategy is given", () => {
+    const updates = { goals: ["strength", "endurance"] };
+
+    expect(mergeProfileUpdates(createProfile(), updates).goals).toEqual([
+      "strength",
+      "endurance",
+    ]);
+    expect(
+      mergeProfileUpdates(createProfile(), updates, { goals: "append" }).goals
+    ).toEqual(["strength", "strength", "endurance"]);
+    expect(
+      mergeProfileUpdates(createProfile(), updates, { goals: "union" }).goals
+    ).toEqual(["strength", "endurance"]);
+  });
+
+  it("merges array items by key", () => {
+    const merged = mergeProfileUpdates(
+      createProfile(),
+      {
+        tags: [
+          { id: "b", label: "runner", count: 3 },
+          { id: "c", label: "lifter", count: 1 },
+        ],
+      },
+      { tags: { mergeByKey: "id" } }
+    );
+
+    expect(merged.tags).toEqual([
+      { id: "a", label: "early bird", count: 1 },
+      { id: "b", label: "runner", count: 3 },
+      { id: "c", label: "lifter", count: 1 },
+    ]);
+  });
+
+  it("matches strategies by dotted path with wildcards", () => {
+    const base = {
+      weeks: [
+        { id: 1, days: ["mon"] },
+        { id: 2, days: ["tue"] },
+      ],
+    };
+
+    const merged = mergeProfileUpdates(
+      base,
+      { weeks: [{ id: 1, days: ["wed"] }] },
+      { weeks: { mergeByKey: "id" }, "weeks.*.days": "union" }
+    );
+
+    expect(merged.weeks).toEqual([
+      { id: 1, days: ["mon", "wed"] },
+      { id: 2, days: ["tue"] },
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+import { RuleInteraction, RuleWeights } from "../../adaptation-engine";
+import { RecommendationConflictResolver } from "../RecommendationConflictResolver";
+import { createRecommendation, NOW } from "../../__tests__/fixtures";
+
+function createWeights(ruleName: string, baseWeight: number): RuleWeights {
+  return {
+    ruleName,
+    baseWeight,
+    contextualModifiers: {},
+    userTypeModifiers: {},
+    seasonalModifiers: {},
+    learningRate: 0.05,
+    lastUpdated: NOW,
+  };
+}
+
+describe("RecommendationConflictResolver", () => {
+  const resolver = new RecommendationConflictResolver();
+
+  it("keeps the higher priority side of opposing changes", () => {
+    const raise = createRecommendation({
+      ruleId: "ProgressiveOverloadRule",
+      priority: "medium",
+      changes: [{ target: "intensity", adjustment: 10 }],
+    });
+    const lower = createRecommendation({
+      ruleId: "FatigueRule",
+      priority: "high",
+      changes: [{ target: "intensity", adjustment: -15 }],
+    });
+
+    const result = resolver.resolve([raise, lower], new Map(), []);
+
+    expect(result.recommendations).toHaveLength(1);
+    expect(result.recommendations[0].ruleId).toBe("FatigueRule");
+    expect(result.conflicts).toEqual([
+      expect.objectContaining({
+        target: "intensity",
+        resolution: "priority",
+        recommendationDropped: true,
+        discardedChange: { target: "intensity", adjustment: 10 },
+      }),
+    ]);
+  });
+
+  it("breaks priority ties by learned rule weight, then by order", () => {
+    const a = createRecommendation({
+      ruleId: "A",
+      changes: [{ target: "volume", adjustment: 10 }],
+    });
+    const b = createRecommendation({
+      ruleId: "B",
+      changes: [{ target: "volume", adjustment: -10 }],
+    });
+
+    const byWeight = resolver.resolve(
+      [a, b],
+      new Map([
+        ["A", createWeights("A", 0.5)],
+        ["B", createWeights("B", 1.2)],
+      ]),
+      []
+    );
+    const byOrder = resolver.resolve([a, b], new Map(), []);
+
+    expect(byWeight.recommendations.map((r) => r.ruleId)).toEqual(["B"]);
+    expect(byWeight.conflicts[0].resolution).toBe("rule_weight");
+    expect(byOrder.recommendations.map((r) => r.ruleId)).toEqual(["A"]);
+    expect(byOrder.conflicts[0].resolution).toBe("order");
+  });
+
+  it("gives the same outcome regardless of input order", () => {
+    const raise = createRecommendation({
+      ruleId: "ProgressiveOverloadRule",
+      changes: [{ target: "frequency", adjustment: 1 }],
+    });
+    const rest = createRecommendation({
+      ruleId: "RecoveryRule",
+      type: "rest_day",
+      priority: "high",
+      changes: [{ target: "rest", adjustment: "1 day" }],
+    });
+
+    const forward = resolver.resolve([raise, rest], new Map(), []);
+    const backward = resolver.resolve([rest, raise], new Map(), []);
+
+    expect(forward.recommendations).toEqual(backward.recommendations);
+    expect(forward.recommendations[0].ruleId).toBe("RecoveryRule");
+  });
+
+  it("leaves changes to different targets or in the same direction alone", () => {
+    const recommendations = [
+      createRecommendation({
+        changes: [{ target: "intensity", adjustment: 5 }],
+      }),
+      createRecommendation({
+        changes: [{ target: "intensity", adjustment: 8 }],
+      }),
+      createRecommendation({
+        changes: [{ target: "volume", adjustment: -10 }],
+      }),
+    ];
+
+    const result = resolver.resolve(recommendations, new Map(), []);
+
+    expect(result.recommendations).toEqual(recommendations);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it("applies merge, suppress and redirect interactions", () => {
+    const raise = createRecommendation({
+      ruleId: "A",
+      changes: [{ target: "intensity", adjustment: 10 }],
+    });
+    const lower = createRecommendation({
+      ruleId: "B",
+      changes: [{ target: "intensity", adjustment: -20 }],
+    });
+    const interaction = (
+      interactionType: RuleInteraction["interactionType"]
+    ): RuleInteraction => ({
+      rules: ["B", "A"],
+      interactionType,
+      resultingStrategy: "deload_week",
+      priorityModifier: 0,
+    });
+
+    const merged = resolver.resolve([raise, lower], new Map(), [
+      interaction("merge"),
+    ]);
+    const suppressed = resolver.resolve([raise, lower], new Map(), [
+      interaction("suppress"),
+    ]);
+    const redirected = resolver.resolve([raise, lower], new Map(), [
+      interaction("redirect"),
+    ]);
+
+    expect(merged.recommendations).toHaveLength(1);
+    expect(merged.recommendations[0].changes).toEqual([
+      { target: "intensity", adjustment: -5 },
+    ]);
+    expect(suppressed.recommendations.map((r) => r.ruleId)).toEqual(["B"]);
+    expect(suppressed.conflicts[0].resolution).toBe("suppress");
+    expect(redirected.recommendations[0].changes).toEqual([
+      { target: "exercise", adjustment: "deload_week" },
+    ]);
+    expect(redirected.conflicts.map((c) => c.resolution)).toEqual([
+      "redirect",
+      "redirect",
+    ]);
+  });
+});
@@ -1,4 +1,7 @@
 export * from "./MemoryPersistenceService";
+export * from "./MemoryConsolidator";
+export * from "./MemoryRetriever";
+export * from "./ProfileMerge";
 export * from "./NateScoringEngine";
 export * from "./PlanTemplateGenerator";
 export * from "./VisualizationService";
@@ -6,3 +9,7 @@ export * from "./PrivacyManager";
 export * from "./CacheService";
 export * from "./PlanTemplateService";
 export * from "./PlanLibraryService";
+export * from "./AdaptationStatePersistence";
+export * from "./AdaptationGuardrails";
+export * from "./RecommendationConflictResolver";
+export * from "./AdaptationScheduler";
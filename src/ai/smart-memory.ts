@@ -7,12 +7,32 @@
  */
 
 import { z } from "zod";
-import { MemoryPersistenceService } from "./services/MemoryPersistenceService";
+import {
+  MemoryPersistenceService,
+  MemoryProfileConflictError,
+  MemoryProfileVersion,
+  ProfileDiff,
+} from "./services/MemoryPersistenceService";
+import {
+  ArrayMergeStrategies,
+  DeepPartial,
+  mergeProfileUpdates,
+} from "./services/ProfileMerge";
 import { NateScoringEngine } from "./services/NateScoringEngine";
 import { PlanTemplateGenerator } from "./services/PlanTemplateGenerator";
 import { VisualizationService } from "./services/VisualizationService";
 import { PrivacyManager } from "./services/PrivacyManager";
 import { CacheService } from "./services/CacheService";
+import {
+  ConsolidationOptions,
+  ConsolidationResult,
+  MemoryConsolidator,
+} from "./services/MemoryConsolidator";
+import {
+  MemoryRetriever,
+  RetrievalOptions,
+  RetrievedMemory,
+} from "./services/MemoryRetriever";
 
 // Core memory interfaces
 export interface UserMemoryProfile {
@@ -35,9 +55,22 @@ export interface UserMemoryProfile {
   failurePatterns: FailurePatterns;
   motivationalTriggers: MotivationalTriggers;
   communicationStyle: CommunicationStyle;
+  workoutArchive?: WorkoutArchiveSummary; // totals for consolidated workoutHistory
+  version?: number; // incremented on every save
   lastUpdated: Date;
 }
 
+export interface WorkoutArchiveSummary {
+  totalWorkouts: number;
+  completedWorkouts: number;
+  firstDate: string;
+  lastDate: string;
+  byType: Record<
+    string,
+    { count: number; completed: number; totalDuration: number }
+  >; // totalDuration counts completed minutes only
+}
+
 export interface PersonalityProfile {
   motivationType: "intrinsic" | "extrinsic" | "mixed";
   goalOrientation: "process" | "outcome" | "balanced";
@@ -119,6 +152,19 @@ export interface ContextualMemory {
   goalEvolution: GoalEvolutionTrack[];
   lifeEventImpacts: LifeEventImpact[];
   seasonalBehaviors: Record<string, SeasonalBehavior>;
+  longTermFacts?: LongTermFact[]; // summaries of consolidated history
+}
+
+// A summary of old history, e.g. "consistently skips monday sessions in winter"
+export interface LongTermFact {
+  id: string; // stable key, facts with the same id are merged
+  category: "workout_pattern" | "conversation" | "concern" | "mood";
+  statement: string;
+  value: number; // the rate or average behind the statement
+  observations: number;
+  firstObserved: Date;
+  lastObserved: Date;
+  weight: number; // 0-1, decays with time since lastObserved
 }
 
 export interface ConversationContext {
@@ -175,13 +221,19 @@ export interface AppliedAdaptation {
   type: string;
   timestamp: Date;
   reasoning: string;
-  changes: any;
+  changes: AdaptationChangeRecord[];
   userReaction: "positive" | "neutral" | "negative";
   adherenceChange: number; // change in adherence rate
   durationEffective: number; // days it remained effective
   followUpNeeded: boolean;
 }
 
+export interface AdaptationChangeRecord {
+  target: string; // e.g. "intensity", "volume", "exercise"
+  adjustment: number | string;
+  exerciseIds?: string[];
+}
+
 export interface UserResponse {
   timestamp: Date;
   sentiment: "positive" | "neutral" | "negative";
@@ -357,14 +409,26 @@ export interface BreakthroughStrategy {
   applicablePlateaus: string[];
 }
 
+export interface ProfileUpdateOptions {
+  reason?: string; // recorded with the saved version
+  arrayStrategies?: ArrayMergeStrategies; // arrays are replaced unless listed
+  onConflict?: "retry" | "fail"; // when another write landed first; default retry
+  maxRetries?: number;
+}
+
+const DEFAULT_MAX_PROFILE_RETRIES = 3;
+
 export class SmartMemoryEngine {
   private memoryProfiles: Map<string, UserMemoryProfile> = new Map();
+  private profileWrites: Map<string, Promise<unknown>> = new Map(); // per-user write chain
   private persistenceService: MemoryPersistenceService;
   private scoringEngine: NateScoringEngine;
   private planGenerator: PlanTemplateGenerator;
   private visualizationService: VisualizationService;
   private privacyManager: PrivacyManager;
   private cacheService: CacheService;
+  private consolidator = new MemoryConsolidator();
+  private retriever = new MemoryRetriever();
 
   constructor(
     persistenceService: MemoryPersistenceService,
@@ -382,23 +446,64 @@ export class SmartMemoryEngine {
     this.cacheService = cacheService;
   }
 
+  /**
+   * Deep-merges updates into the stored profile, so updating
+   * behaviorPatterns.workoutTiming keeps the other behavior patterns
+   */
   async updateMemoryProfile(
     userId: string,
-    updates: Partial<UserMemoryProfile>
-  ): Promise<void> {
-    let profile = await this.getMemoryProfile(userId);
-    if (!profile) {
-      profile = this.createDefaultProfile(userId);
-    }
+    updates: DeepPartial<UserMemoryProfile>,
+    options: ProfileUpdateOptions = {}
+  ): Promise<UserMemoryProfile> {
+    return this.commitProfileUpdate(
+      userId,
+      (profile) =>
+        mergeProfileUpdates<UserMemoryProfile>(
+          profile,
+          updates,
+          options.arrayStrategies
+        ),
+      options
+    );
+  }
 
-    const updatedProfile = {
-      ...profile,
-      ...updates,
-      lastUpdated: new Date(),
-    };
+  async getMemoryProfileVersions(
+    userId: string
+  ): Promise<MemoryProfileVersion[]> {
+    return this.persistenceService.getMemoryProfileVersions(userId);
+  }
+
+  async getMemoryProfileAt(
+    userId: string,
+    date: Date
+  ): Promise<UserMemoryProfile | null> {
+    return this.persistenceService.getMemoryProfileAt(userId, date);
+  }
+
+  async diffMemoryProfileVersions(
+    userId: string,
+    fromVersion: number,
+    toVersion: number
+  ): Promise<ProfileDiff> {
+    return this.persistenceService.diffMemoryProfileVersions(
+      userId,
+      fromVersion,
+      toVersion
+    );
+  }
 
-    await this.persistenceService.saveMemoryProfile(updatedProfile);
-    this.memoryProfiles.set(userId, updatedProfile);
+  async rollbackMemoryProfile(
+    userId: string,
+    toVersion: number
+  ): Promise<UserMemoryProfile> {
+    return this.withProfileLock(userId, async () => {
+      const restored = await this.persistenceService.rollbackMemoryProfile(
+        userId,
+        toVersion
+      );
+      this.memoryProfiles.set(userId, restored);
+      return restored;
+    });
   }
 
   async getMemoryProfile(userId: string): Promise<UserMemoryProfile | null> {
@@ -415,23 +520,25 @@ export class SmartMemoryEngine {
 
   async learnFromInteraction(
     userId: string,
-    interaction: {
-      type:
-        | "workout_completed"
-        | "workout_skipped"
-        | "goal_changed"
-        | "feedback_given"
-        | "adaptation_applied";
-      data: any;
-      userResponse: any;
-      context: any;
-    }
+    event: MemoryInteractionInput
   ): Promise<void> {
-    const profile = await this.getMemoryProfile(userId);
-    if (!profile) {
+    const interaction = parseMemoryInteraction(event);
+    if (!(await this.getMemoryProfile(userId))) {
       throw new Error("Profile not found");
     }
 
+    // Re-applied to the latest profile if a concurrent write lands first
+    await this.commitProfileUpdate(
+      userId,
+      (profile) => this.applyInteraction(profile, interaction),
+      { reason: `interaction:${interaction.type}` }
+    );
+  }
+
+  private async applyInteraction(
+    profile: UserMemoryProfile,
+    interaction: MemoryInteraction
+  ): Promise<UserMemoryProfile> {
     // Update relevant profile sections based on interaction type
     switch (interaction.type) {
       case "workout_completed":
@@ -447,10 +554,141 @@ export class SmartMemoryEngine {
       case "adaptation_applied":
         await this.updateAdaptationHistory(profile, interaction);
         break;
+      case "injury_reported":
+        await this.updateInjuryPatterns(profile, interaction);
+        break;
+      case "life_event":
+        await this.updateLifeEvents(profile, interaction);
+        break;
     }
 
-    // Update the profile
-    await this.updateMemoryProfile(userId, profile);
+    // Keep long-lived profiles bounded as history accumulates
+    if (this.consolidator.needsConsolidation(profile)) {
+      this.consolidator.consolidate(profile);
+    }
+    return profile;
+  }
+
+  /**
+   * Applies a change to the current profile and saves it only if nobody
+   * else saved in between. Updates for one user run one at a time in this
+   * process; a conflict with another process re-applies the change to a
+   * freshly loaded profile, up to maxRetries times.
+   */
+  private commitProfileUpdate(
+    userId: string,
+    apply: (
+      profile: UserMemoryProfile
+    ) => UserMemoryProfile | Promise<UserMemoryProfile>,
+    options: ProfileUpdateOptions
+  ): Promise<UserMemoryProfile> {
+    return this.withProfileLock(userId, () =>
+      this.applyAndSave(userId, apply, options)
+    );
+  }
+
+  private async applyAndSave(
+    userId: string,
+    apply: (
+      profile: UserMemoryProfile
+    ) => UserMemoryProfile | Promise<UserMemoryProfile>,
+    options: ProfileUpdateOptions
+  ): Promise<UserMemoryProfile> {
+    const maxRetries =
+      options.onConflict === "fail"
+        ? 0
+        : (options.maxRetries ?? DEFAULT_MAX_PROFILE_RETRIES);
+
+    for (let attempt = 0; ; attempt++) {
+      const current =
+        attempt === 0
+          ? await this.getMemoryProfile(userId)
+          : await this.persistenceService.loadMemoryProfile(userId, true);
+      const base = current || this.createDefaultProfile(userId);
+
+      const updated = await apply(structuredClone(base));
+      try {
+        const saved = await this.persistenceService.saveMemoryProfile(
+          { ...updated, version: base.version, lastUpdated: new Date() },
+          options.reason,
+          true
+        );
+        this.memoryProfiles.set(userId, saved);
+        return saved;
+      } catch (error) {
+        if (!(error instanceof MemoryProfileConflictError)) throw error;
+        this.memoryProfiles.delete(userId);
+        if (attempt >= maxRetries) throw error;
+      }
+    }
+  }
+
+  // Runs after the user's previous write settles, whether it failed or not
+  private withProfileLock<T>(
+    userId: string,
+    write: () => Promise<T>
+  ): Promise<T> {
+    const previous = this.profileWrites.get(userId) || Promise.resolve();
+    const result = previous.then(write);
+    const settled = result.catch(() => undefined);
+    this.profileWrites.set(userId, settled);
+    settled.then(() => {
+      if (this.profileWrites.get(userId) === settled) {
+        this.profileWrites.delete(userId);
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Rolls old contexts and workouts into long-term facts, decays fact
+   * weights and caps list sizes
+   */
+  async consolidateMemory(
+    userId: string,
+    now: Date = new Date()
+  ): Promise<ConsolidationResult> {
+    if (!(await this.getMemoryProfile(userId))) {
+      throw new Error("Profile not found");
+    }
+
+    let result: ConsolidationResult | undefined;
+    await this.commitProfileUpdate(
+      userId,
+      (profile) => {
+        result = this.consolidator.consolidate(profile, now);
+        return profile;
+      },
+      { reason: "consolidation" }
+    );
+    return result!;
+  }
+
+  configureConsolidation(
+    options: Partial<ConsolidationOptions>
+  ): ConsolidationOptions {
+    return this.consolidator.configure(options);
+  }
+
+  /**
+   * Memories ranked by relevance to a message, for prompt grounding
+   */
+  async retrieveRelevantMemories(
+    userId: string,
+    message: string,
+    topK?: number
+  ): Promise<RetrievedMemory[]> {
+    const profile = await this.getMemoryProfile(userId);
+    if (!profile) {
+      throw new Error("Profile not found");
+    }
+
+    return this.retriever.retrieve(profile, message, topK);
+  }
+
+  // Set options.embed to rank with an embedding model instead of BM25
+  configureRetrieval(options: Partial<RetrievalOptions>): RetrievalOptions {
+    return this.retriever.configure(options);
   }
 
   async generateContextualInsights(
@@ -462,57 +700,63 @@ export class SmartMemoryEngine {
       throw new Error("Profile not found");
     }
 
+    const context = this.classifyContext(currentContext);
     return {
-      personalityMatch: this.calculatePersonalityMatch(profile, currentContext),
-      behaviorPredictions: this.predictBehavior(profile, currentContext),
+      personalityMatch: this.calculatePersonalityMatch(profile, context),
+      behaviorPredictions: this.predictBehavior(profile, context),
       motivationalStrategy: this.selectOptimalMotivationalStrategy(
         profile,
-        currentContext
-      ),
-      communicationAdjustments: this.adjustCommunicationStyle(
-        profile,
-        currentContext
+        context
       ),
-      riskFactors: this.identifyRiskFactors(profile, currentContext),
-      opportunities: this.identifyOpportunities(profile, currentContext),
-      historicalContext: this.getRelevantHistory(profile, currentContext),
+      communicationAdjustments: this.adjustCommunicationStyle(profile, context),
+      riskFactors: this.identifyRiskFactors(profile, context),
+      opportunities: this.identifyOpportunities(profile, context),
+      historicalContext: await this.getRelevantHistory(profile, currentContext),
+      context: {
+        topics: context.topics,
+        primaryTopic: context.primaryTopic,
+        keywords: context.keywords,
+        sentiment: context.sentiment,
+      },
     };
   }
 
   async predictUserNeeds(
     userId: string,
-    timeHorizon: "immediate" | "short_term" | "medium_term"
+    timeHorizon: NeedHorizon,
+    asOf: Date = new Date()
   ): Promise<PredictedNeeds> {
     const profile = await this.getMemoryProfile(userId);
     if (!profile) {
       throw new Error("Profile not found");
     }
 
-    const predictions = [];
-    let confidence = 0;
-    let reasoning = [];
-
+    let predictions: NeedPrediction[] = [];
     switch (timeHorizon) {
       case "immediate":
-        predictions.push(...this.predictImmediateNeeds(profile));
-        confidence = 0.9;
+        predictions = this.predictImmediateNeeds(profile, asOf);
         break;
       case "short_term":
-        predictions.push(...this.predictShortTermNeeds(profile));
-        confidence = 0.8;
+        predictions = this.predictShortTermNeeds(profile, asOf);
         break;
       case "medium_term":
-        predictions.push(...this.predictMediumTermNeeds(profile));
-        confidence = 0.7;
+        predictions = this.predictMediumTermNeeds(profile, asOf);
         break;
     }
-
-    reasoning = this.explainPredictions(predictions, profile);
+    predictions.sort((a, b) => b.confidence - a.confidence);
 
     return {
-      needs: predictions,
-      confidence,
-      reasoning,
+      needs: predictions.map((p) => p.need),
+      confidence:
+        predictions.length > 0
+          ? roundTo(
+              predictions.reduce((sum, p) => sum + p.confidence, 0) /
+                predictions.length,
+              2
+            )
+          : 0,
+      reasoning: this.explainPredictions(predictions, profile),
+      predictions,
     };
   }
 
@@ -632,6 +876,13 @@ export class SmartMemoryEngine {
     await this.privacyManager.updatePrivacySettings(userId, settings);
   }
 
+  // Deletes stored data and everything held in memory for the user
+  async deleteUserData(userId: string): Promise<void> {
+    await this.persistenceService.deleteUserData(userId);
+    this.memoryProfiles.delete(userId);
+    this.retriever.forget(userId);
+  }
+
   async generateUserVisualizationData(
     userId: string
   ): Promise<UserVisualizationData> {
@@ -727,6 +978,7 @@ export class SmartMemoryEngine {
         goalEvolution: [],
         lifeEventImpacts: [],
         seasonalBehaviors: {},
+        longTermFacts: [],
       },
       adaptationHistory: {
         adaptationsApplied: [],
@@ -770,130 +1022,1545 @@ export class SmartMemoryEngine {
 
   private async updateWorkoutPatterns(
     profile: UserMemoryProfile,
-    interaction: any
+    interaction: WorkoutCompletedInteraction | WorkoutSkippedInteraction
   ): Promise<void> {
-    // Implementation based on workout interaction analysis
-    // TODO: Implement
+    const { data } = interaction;
+    const completed = interaction.type === "workout_completed";
+
+    profile.workoutHistory.push({
+      date: data.date.toISOString(),
+      type: data.workoutType,
+      duration: data.durationMinutes, // planned minutes when skipped
+      intensity: data.intensity,
+      completed,
+    });
+
+    const timing = profile.behaviorPatterns.workoutTiming;
+    const history = profile.workoutHistory;
+    const recent = history.slice(-RECENT_WORKOUT_WINDOW);
+    timing.consistencyScore =
+      recent.filter((w) => w.completed).length / recent.length;
+
+    // Days and times the user actually trains on, ranked by completions
+    const rank = (key: (date: Date) => string) => {
+      const stats = new Map<string, { completed: number; total: number }>();
+      history.forEach((workout) => {
+        const bucket = key(new Date(workout.date));
+        const entry = stats.get(bucket) || { completed: 0, total: 0 };
+        entry.total++;
+        if (workout.completed) entry.completed++;
+        stats.set(bucket, entry);
+      });
+      return Array.from(stats.entries())
+        .filter(
+          ([, entry]) =>
+            entry.completed >= 2 && entry.completed / entry.total >= 0.6
+        )
+        .sort((a, b) => b[1].completed - a[1].completed)
+        .map(([bucket]) => bucket);
+    };
+    timing.preferredDays = rank((date) => WEEKDAYS[date.getDay()]).slice(0, 5);
+    timing.preferredTimes = rank((date) => this.timeOfDay(date)).slice(0, 2);
+
+    const season = this.seasonOf(data.date);
+    const seasonal = history.filter(
+      (w) => this.seasonOf(new Date(w.date)) === season
+    );
+    timing.seasonalPatterns[season] =
+      seasonal.filter((w) => w.completed).length / seasonal.length;
+
+    if (completed) {
+      for (const exercise of interaction.data.exercises || []) {
+        if (exercise.rating !== undefined) {
+          this.recordExerciseRating(profile, exercise.name, exercise.rating);
+        }
+      }
+    } else {
+      const triggers = profile.failurePatterns.dropOffTriggers;
+      if (!triggers.includes(interaction.data.reason)) {
+        triggers.push(interaction.data.reason);
+      }
+    }
   }
 
   private async updateGoalEvolution(
     profile: UserMemoryProfile,
-    interaction: any
+    interaction: GoalChangedInteraction
   ): Promise<void> {
-    // Implementation based on goal change analysis
-    // TODO: Implement
+    const { data } = interaction;
+    const primaryGoal = profile.fitnessGoals[0];
+    const previousGoal = data.previousGoal ?? primaryGoal ?? "";
+
+    profile.contextualMemory.goalEvolution.push({
+      timestamp: interaction.context?.timestamp || new Date(),
+      previousGoal,
+      newGoal: data.newGoal,
+      reason: data.reason,
+      confidence: data.confidence ?? 0.7,
+    });
+
+    // Only the primary goal is replaced; other goals stay alongside the new one
+    const replaced = previousGoal === primaryGoal ? primaryGoal : undefined;
+    profile.fitnessGoals = [
+      data.newGoal,
+      ...profile.fitnessGoals.filter(
+        (goal) => goal !== replaced && goal !== data.newGoal
+      ),
+    ];
   }
 
   private async updatePreferences(
     profile: UserMemoryProfile,
-    interaction: any
+    interaction: FeedbackInteraction
   ): Promise<void> {
-    // Implementation based on feedback analysis
-    // TODO: Implement
+    const { data } = interaction;
+
+    Object.entries(data.exerciseRatings || {}).forEach(([exercise, rating]) =>
+      this.recordExerciseRating(profile, exercise, rating)
+    );
+    Object.assign(
+      profile.preferences.exercisePreferences.modifications,
+      data.modifications || {}
+    );
   }
 
   private async updateAdaptationHistory(
     profile: UserMemoryProfile,
-    interaction: any
+    interaction: AdaptationAppliedInteraction
   ): Promise<void> {
-    // Implementation based on adaptation response analysis
-    // TODO: Implement
+    const { data, userResponse = {} } = interaction;
+    const history = profile.adaptationHistory;
+    const timestamp = interaction.context?.timestamp || new Date();
+    const adherenceChange = data.adherenceAfter - data.adherenceBefore;
+    // Explicit sentiment wins, then the rating, then the adherence trend
+    const signal =
+      userResponse.rating !== undefined
+        ? (userResponse.rating - 5.5) / 10
+        : adherenceChange;
+    const userReaction =
+      userResponse.sentiment ??
+      (signal > 0.05 ? "positive" : signal < -0.05 ? "negative" : "neutral");
+
+    history.adaptationsApplied.push({
+      id: data.adaptationId,
+      type: data.adaptationType,
+      timestamp,
+      reasoning: data.reasoning,
+      changes: data.changes,
+      userReaction,
+      adherenceChange,
+      durationEffective: data.durationEffective ?? 0,
+      followUpNeeded: userReaction === "negative" || adherenceChange < 0,
+    });
+
+    history.userResponses[data.adaptationType] = [
+      ...(history.userResponses[data.adaptationType] || []),
+      {
+        timestamp,
+        sentiment: userReaction,
+        adherence: data.adherenceAfter,
+        feedback: userResponse.feedback || "",
+        suggestedImprovements: userResponse.suggestedImprovements || [],
+      },
+    ];
+
+    const ofType = history.adaptationsApplied.filter(
+      (a) => a.type === data.adaptationType
+    );
+    history.successRates[data.adaptationType] =
+      ofType.filter((a) => this.adaptationSucceeded(a)).length / ofType.length;
+
+    // Remember when this kind of adaptation lands well
+    if (this.adaptationSucceeded(history.adaptationsApplied.at(-1)!)) {
+      const slot = `${WEEKDAYS[timestamp.getDay()]}_${this.timeOfDay(timestamp)}`;
+      const timings = history.optimalTimings[data.adaptationType] || [];
+      if (!timings.includes(slot)) {
+        history.optimalTimings[data.adaptationType] = [...timings, slot];
+      }
+    }
+  }
+
+  private async updateInjuryPatterns(
+    profile: UserMemoryProfile,
+    interaction: InjuryReportedInteraction
+  ): Promise<void> {
+    const { data } = interaction;
+    const patterns = profile.behaviorPatterns.injuryPatterns;
+    const addUnique = (list: string[], value?: string) => {
+      if (value && !list.includes(value)) list.push(value);
+    };
+
+    addUnique(patterns.commonInjuries, data.injury);
+    addUnique(patterns.triggers, data.cause);
+    if (data.expectedRecoveryDays !== undefined) {
+      // Average with earlier recoveries from the same injury
+      const previous = patterns.recoveryTime[data.injury];
+      patterns.recoveryTime[data.injury] =
+        previous === undefined
+          ? data.expectedRecoveryDays
+          : (previous + data.expectedRecoveryDays) / 2;
+    }
+
+    profile.contextualMemory.lifeEventImpacts.push({
+      event: "injury",
+      startDate: data.date,
+      endDate:
+        data.expectedRecoveryDays !== undefined
+          ? new Date(data.date.getTime() + data.expectedRecoveryDays * DAY_MS)
+          : undefined,
+      impact: "negative",
+      adaptationsUsed: [],
+      effectOnAdherence: -data.severity / 10,
+    });
+  }
+
+  private async updateLifeEvents(
+    profile: UserMemoryProfile,
+    interaction: LifeEventInteraction
+  ): Promise<void> {
+    const { data } = interaction;
+    const impacts = profile.contextualMemory.lifeEventImpacts;
+
+    // Reporting the end of an ongoing event closes it instead of adding one
+    const ongoing = impacts.find(
+      (impact) =>
+        impact.event === data.event &&
+        !impact.endDate &&
+        impact.startDate.getTime() === data.startDate.getTime()
+    );
+    const impact = ongoing || {
+      event: data.event,
+      startDate: data.startDate,
+      impact: data.impact,
+      adaptationsUsed: [],
+      effectOnAdherence: 0,
+    };
+    if (!ongoing) impacts.push(impact);
+
+    impact.endDate = data.endDate ?? impact.endDate;
+    impact.impact = data.impact;
+    impact.adaptationsUsed = Array.from(
+      new Set([...impact.adaptationsUsed, ...(data.adaptationsUsed || [])])
+    );
+    impact.effectOnAdherence =
+      data.effectOnAdherence ??
+      this.adherenceShiftDuring(profile, impact.startDate, impact.endDate);
+  }
+
+  // Completion rate during a period relative to the rest of the history
+  private adherenceShiftDuring(
+    profile: UserMemoryProfile,
+    start: Date,
+    end: Date = new Date()
+  ): number {
+    const rate = (workouts: UserMemoryProfile["workoutHistory"]) =>
+      workouts.filter((w) => w.completed).length / workouts.length;
+    const during = profile.workoutHistory.filter((w) => {
+      const time = new Date(w.date).getTime();
+      return time >= start.getTime() && time <= end.getTime();
+    });
+    const outside = profile.workoutHistory.filter((w) => !during.includes(w));
+    if (during.length === 0 || outside.length === 0) return 0;
+
+    return Math.max(-1, Math.min(1, rate(during) - rate(outside)));
+  }
+
+  // A single rating moves the exercise to the matching preference list
+  private recordExerciseRating(
+    profile: UserMemoryProfile,
+    exercise: string,
+    rating: number
+  ): void {
+    const preferences = profile.preferences.exercisePreferences;
+    const target = rating >= 8 ? "loved" : rating <= 4 ? "disliked" : "neutral";
+
+    preferences.loved = preferences.loved.filter((e) => e !== exercise);
+    preferences.disliked = preferences.disliked.filter((e) => e !== exercise);
+    preferences.neutral = preferences.neutral.filter((e) => e !== exercise);
+    preferences[target].push(exercise);
+  }
+
+  private adaptationSucceeded(adaptation: AppliedAdaptation): boolean {
+    return (
+      adaptation.userReaction === "positive" ||
+      (adaptation.userReaction === "neutral" && adaptation.adherenceChange > 0)
+    );
+  }
+
+  private timeOfDay(date: Date): string {
+    const hour = date.getHours();
+    return hour < 12 ? "morning" : hour < 17 ? "afternoon" : "evening";
+  }
+
+  private seasonOf(date: Date): string {
+    return ["winter", "spring", "summer", "autumn"][
+      Math.floor(((date.getMonth() + 1) % 12) / 3)
+    ];
+  }
+
+  // Keyword-based topic and sentiment classification of a user message
+  private classifyContext(message: string): ContextClassification {
+    const words = wordsOf(message);
+    const text = words.join(" ");
+    const keywords = Array.from(
+      new Set(words.filter((w) => w.length > 2 && !STOPWORDS.has(w)))
+    );
+
+    const scored = (Object.keys(TOPIC_KEYWORDS) as ContextTopic[])
+      .map((topic) => ({
+        topic,
+        hits: TOPIC_KEYWORDS[topic].filter((keyword) =>
+          keyword.includes(" ")
+            ? containsPhrase(text, keyword)
+            : words.some((w) => matchesStem(w, keyword))
+        ).length,
+      }))
+      .filter(({ hits }) => hits > 0)
+      .sort((a, b) => b.hits - a.hits);
+
+    const count = (list: string[]) =>
+      words.filter((w) => list.some((term) => matchesStem(w, term))).length;
+    const polarity = count(POSITIVE_TERMS) - count(NEGATIVE_TERMS);
+
+    return {
+      topics: scored.map(({ topic }) => topic),
+      primaryTopic: scored[0]?.topic || "general",
+      keywords,
+      sentiment:
+        polarity > 0 ? "positive" : polarity < 0 ? "negative" : "neutral",
+      text,
+    };
+  }
+
+  // Whether a stored trigger or pattern ("work travel") comes up in the
+  // message: the whole phrase, or every significant term of it
+  private mentions(context: ContextClassification, phrase: string): boolean {
+    const normalized = wordsOf(phrase.replace(/_/g, " ")).join(" ");
+    if (!normalized) return false;
+    if (containsPhrase(context.text, normalized)) return true;
+
+    const terms = normalized
+      .split(" ")
+      .filter((term) => term.length > 3 && !STOPWORDS.has(term));
+    return (
+      terms.length > 0 &&
+      terms.every((term) =>
+        context.keywords.some(
+          (keyword) => matchesStem(keyword, term) || matchesStem(term, keyword)
+        )
+      )
+    );
   }
 
   private calculatePersonalityMatch(
     profile: UserMemoryProfile,
-    context: string
+    context: ContextClassification
   ): number {
-    // Implementation based on personality-context alignment
-    return 0.8; // TODO: Implement
+    const personality = profile.personalityProfile;
+    const has = (...topics: ContextTopic[]) =>
+      topics.some((topic) => context.topics.includes(topic));
+    let match = 0.6;
+
+    // Outcome-driven users engage with results, process-driven with the work
+    if (personality.goalOrientation === "outcome") {
+      match += has("progress", "goals") ? 0.15 : 0;
+      match -= has("technique") ? 0.05 : 0;
+    } else if (personality.goalOrientation === "process") {
+      match += has("workout", "technique", "schedule") ? 0.15 : 0;
+      match -= has("progress") && context.sentiment === "negative" ? 0.1 : 0;
+    } else {
+      match += context.topics.length > 0 ? 0.05 : 0;
+    }
+
+    if (has("plateau", "injury") || context.sentiment === "negative") {
+      // Setbacks sit better with persistent, risk tolerant users
+      match +=
+        ((personality.persistenceLevel + personality.riskTolerance) / 20 -
+          0.5) *
+        0.3;
+    }
+    if (context.keywords.some((k) => CHANGE_TERMS.has(k))) {
+      match += (personality.openToChange / 10 - 0.5) * 0.3;
+    }
+    if (has("goals") && personality.timeHorizon === "short_term") {
+      match -= 0.05;
+    }
+
+    return roundTo(Math.max(0, Math.min(1, match)), 2);
   }
 
   private predictBehavior(
     profile: UserMemoryProfile,
-    context: string
+    context: ContextClassification
   ): BehaviorPrediction[] {
-    // Implementation based on behavior pattern analysis
-    return []; // TODO: Implement
+    const predictions: BehaviorPrediction[] = [];
+    const timing = profile.behaviorPatterns.workoutTiming;
+    const triggers = profile.failurePatterns.dropOffTriggers.filter((t) =>
+      this.mentions(context, t)
+    );
+
+    let completion =
+      profile.workoutHistory.length > 0 ? timing.consistencyScore : 0.5;
+    const factors = [
+      profile.workoutHistory.length > 0
+        ? `consistency score ${timing.consistencyScore.toFixed(2)}`
+        : "no workout history yet",
+    ];
+    if (context.sentiment === "negative") {
+      completion -= 0.15;
+      factors.push("negative sentiment in message");
+    } else if (context.sentiment === "positive") {
+      completion += 0.05;
+      factors.push("positive sentiment in message");
+    }
+    if (triggers.length > 0) {
+      completion -= 0.2;
+      factors.push(`known drop-off triggers: ${triggers.join(", ")}`);
+    }
+    completion = Math.max(0.05, Math.min(0.95, completion));
+
+    predictions.push({
+      behavior: "complete_next_workout",
+      probability: completion,
+      timeframe:
+        timing.preferredDays.length > 0
+          ? `next session (usually ${timing.preferredDays[0]})`
+          : "next session",
+      factors,
+    });
+    if (completion < 0.5) {
+      predictions.push({
+        behavior: "skip_next_workout",
+        probability: 1 - completion,
+        timeframe: "next session",
+        factors,
+      });
+    }
+
+    for (const relapse of profile.failurePatterns.relapseCycles) {
+      if (!this.mentions(context, relapse.pattern)) continue;
+      predictions.push({
+        behavior: `relapse: ${relapse.pattern}`,
+        probability: Math.min(0.9, relapse.frequency / (relapse.frequency + 2)),
+        timeframe: `within ${relapse.durationDays} days`,
+        factors: [
+          `pattern seen ${relapse.frequency} times`,
+          ...relapse.recoveryFactors.map((f) => `recovers with ${f}`),
+        ],
+      });
+    }
+
+    for (const demotivator of profile.motivationalTriggers.demotivators) {
+      if (!this.mentions(context, demotivator.trigger)) continue;
+      predictions.push({
+        behavior: "motivation_dip",
+        probability: demotivator.impactSeverity / 10,
+        timeframe: `${demotivator.recoveryTime} days`,
+        factors: [`demotivator mentioned: ${demotivator.trigger}`],
+      });
+    }
+
+    if (context.topics.includes("goals")) {
+      const goalChanges = profile.contextualMemory.goalEvolution.length;
+      predictions.push({
+        behavior: "change_goal",
+        probability: Math.min(
+          0.9,
+          (profile.personalityProfile.openToChange / 10) * 0.6 +
+            Math.min(goalChanges, 3) * 0.1
+        ),
+        timeframe: "this conversation",
+        factors: [
+          `openness to change ${profile.personalityProfile.openToChange}/10`,
+          `${goalChanges} previous goal changes`,
+        ],
+      });
+    }
+
+    return predictions
+      .map((p) => ({ ...p, probability: roundTo(p.probability, 2) }))
+      .sort((a, b) => b.probability - a.probability);
   }
 
   private selectOptimalMotivationalStrategy(
     profile: UserMemoryProfile,
-    context: string
+    context: ContextClassification
   ): MotivationalStrategy {
-    // Implementation based on motivation effectiveness analysis
+    const { motivationalTriggers, personalityProfile } = profile;
+    const intrinsicWeight =
+      personalityProfile.motivationType === "intrinsic"
+        ? 1.2
+        : personalityProfile.motivationType === "extrinsic"
+          ? 0.8
+          : 1;
+
+    // Motivators whose context requirements this conversation meets
+    const candidates = [
+      ...motivationalTriggers.intrinsicMotivators.map((m) => ({
+        motivator: m,
+        weight: intrinsicWeight,
+      })),
+      ...motivationalTriggers.extrinsicMotivators.map((m) => ({
+        motivator: m,
+        weight: 2 - intrinsicWeight,
+      })),
+    ]
+      .filter(({ motivator }) =>
+        motivator.contextRequirements.every(
+          (requirement) =>
+            context.topics.includes(requirement as ContextTopic) ||
+            this.mentions(context, requirement)
+        )
+      )
+      .map(({ motivator, weight }) => ({
+        motivator,
+        score:
+          motivator.effectivenessScore *
+          weight *
+          (this.mentions(context, motivator.trigger) ? 1.2 : 1),
+      }))
+      .sort((a, b) => b.score - a.score);
+
+    const timing = [...motivationalTriggers.optimalTimingStrategies].sort(
+      (a, b) => b.userResponsiveness - a.userResponsiveness
+    )[0];
+    const defaultTiming = context.topics.some((t) =>
+      ["motivation", "injury"].includes(t)
+    )
+      ? "immediate"
+      : "pre_workout";
+
+    if (
+      context.sentiment === "negative" &&
+      context.topics.includes("motivation")
+    ) {
+      const recovery = [...profile.failurePatterns.recoveryStrategies].sort(
+        (a, b) => b.successRate - a.successRate
+      );
+      return {
+        strategy: "empathetic_reset",
+        confidence: recovery.length > 0 ? recovery[0].successRate : 0.5,
+        triggers: recovery.slice(0, 3).map((r) => r.strategy),
+        timing: "immediate",
+      };
+    }
+
+    if (candidates.length === 0) {
+      const fallback = {
+        intrinsic:
+          personalityProfile.goalOrientation === "outcome"
+            ? "mastery_milestones"
+            : "mastery_focus",
+        extrinsic: "reward_milestones",
+        mixed: "progressive_challenge",
+      }[personalityProfile.motivationType];
+      return {
+        strategy: fallback,
+        confidence: 0.5,
+        triggers:
+          personalityProfile.goalOrientation === "process"
+            ? ["habit_tracking", "effort_recognition"]
+            : ["achievement", "progress_tracking"],
+        timing: timing?.optimalTimes[0] || defaultTiming,
+      };
+    }
+
+    const best = candidates[0].motivator;
     return {
-      strategy: "progressive_challenge",
-      confidence: 0.8,
-      triggers: ["achievement", "progress_tracking"],
-      timing: "pre_workout",
-    }; // TODO: Implement
+      strategy: best.trigger,
+      confidence: roundTo(
+        Math.min(
+          0.95,
+          (best.effectivenessScore / 10) * (candidates.length > 1 ? 1 : 0.9)
+        ),
+        2
+      ),
+      triggers: candidates
+        .slice(0, 3)
+        .map(({ motivator }) => motivator.trigger),
+      timing: timing?.optimalTimes[0] || defaultTiming,
+    };
   }
 
   private adjustCommunicationStyle(
     profile: UserMemoryProfile,
-    context: string
+    context: ContextClassification
   ): CommunicationAdjustments {
-    // Implementation based on communication preference analysis
+    const style = profile.communicationStyle;
+    const personality = profile.personalityProfile;
+
+    let tone: string =
+      personality.communicationPreference === "direct" || style.directness >= 8
+        ? "direct"
+        : personality.communicationPreference === "analytical"
+          ? "analytical"
+          : personality.communicationPreference;
+    if (
+      tone !== "direct" &&
+      (style.preferredTone === "formal" ||
+        style.preferredTone === "professional")
+    ) {
+      tone = "professional";
+    }
+    if (context.sentiment === "negative" || context.topics.includes("injury")) {
+      tone = "empathetic";
+    }
+
+    const length =
+      personality.feedbackStyle === "brief" ? "brief" : style.responseLength;
+
+    const emphasis = new Set<string>();
+    context.topics.forEach((topic) =>
+      TOPIC_EMPHASIS[topic].forEach((e) => emphasis.add(e))
+    );
+    emphasis.add(
+      personality.goalOrientation === "outcome" ? "results" : "effort"
+    );
+    if (style.technicalDetail === "comprehensive")
+      emphasis.add("technique_details");
+    if (style.encouragementStyle === "celebration") emphasis.add("wins");
+
+    const avoid = new Set<string>(
+      [...profile.motivationalTriggers.demotivators]
+        .sort((a, b) => b.impactSeverity - a.impactSeverity)
+        .slice(0, 3)
+        .map((d) => d.trigger)
+    );
+    if (style.humorAppreciation <= 3) avoid.add("humor");
+    if (style.directness <= 3) avoid.add("blunt_criticism");
+    if (style.personalSharing === "minimal") avoid.add("personal_questions");
+    if (
+      personality.challengeLevel === "conservative" ||
+      context.sentiment === "negative"
+    ) {
+      avoid.add("pressure");
+    }
+    if (personality.feedbackStyle !== "comparative") avoid.add("comparison");
+
     return {
-      tone: "encouraging",
-      length: "moderate",
-      emphasis: ["progress", "effort"],
-      avoid: ["pressure", "comparison"],
-    }; // TODO: Implement
+      tone,
+      length,
+      emphasis: Array.from(emphasis),
+      avoid: Array.from(avoid),
+    };
   }
 
   private identifyRiskFactors(
     profile: UserMemoryProfile,
-    context: string
+    context: ContextClassification
   ): RiskFactor[] {
-    // Implementation based on risk pattern analysis
-    return []; // TODO: Implement
+    const risks: RiskFactor[] = [];
+    const { failurePatterns, behaviorPatterns } = profile;
+    const severityOf = (score: number) =>
+      score >= 7 ? "high" : score >= 4 ? "medium" : "low";
+
+    const triggers = failurePatterns.dropOffTriggers.filter((t) =>
+      this.mentions(context, t)
+    );
+    const consistency = behaviorPatterns.workoutTiming.consistencyScore;
+    const lowConsistency =
+      profile.workoutHistory.length >= 5 && consistency < 0.6;
+    if (triggers.length > 0 || lowConsistency) {
+      const prevention = failurePatterns.preventiveInterventions
+        .filter(
+          (intervention) =>
+            triggers.length === 0 ||
+            intervention.triggersDetected.some((t) => triggers.includes(t))
+        )
+        .sort((a, b) => b.successRate - a.successRate)
+        .map((intervention) => intervention.intervention);
+      risks.push({
+        risk: "dropout",
+        probability: Math.min(
+          0.9,
+          (lowConsistency ? 1 - consistency : 0.3) + triggers.length * 0.15
+        ),
+        severity: triggers.length > 0 && lowConsistency ? "high" : "medium",
+        preventionStrategies:
+          prevention.length > 0
+            ? prevention
+            : ["reduce session length", "schedule on preferred days"],
+      });
+    }
+
+    for (const point of failurePatterns.commonFailurePoints) {
+      if (!this.mentions(context, point.trigger)) continue;
+      risks.push({
+        risk: `failure_point: ${point.trigger}`,
+        probability: Math.min(0.9, 0.2 + point.frequency * 0.1),
+        severity: point.impactSeverity,
+        preventionStrategies: point.successfulInterventions,
+      });
+    }
+
+    const injuries = behaviorPatterns.injuryPatterns;
+    const injuryMentioned =
+      context.topics.includes("injury") ||
+      [...injuries.commonInjuries, ...injuries.triggers].some((i) =>
+        this.mentions(context, i)
+      );
+    if (injuryMentioned) {
+      risks.push({
+        risk: "injury",
+        probability: Math.min(0.9, 0.3 + injuries.commonInjuries.length * 0.1),
+        severity: injuries.commonInjuries.length > 1 ? "high" : "medium",
+        preventionStrategies:
+          injuries.preventiveStrategies.length > 0
+            ? injuries.preventiveStrategies
+            : ["reduce load on affected area", "prioritize mobility work"],
+      });
+    }
+
+    for (const demotivator of profile.motivationalTriggers.demotivators) {
+      if (!this.mentions(context, demotivator.trigger)) continue;
+      risks.push({
+        risk: `demotivation: ${demotivator.trigger}`,
+        probability: demotivator.impactSeverity / 10,
+        severity: severityOf(demotivator.impactSeverity),
+        preventionStrategies: [
+          ...demotivator.countermeasures,
+          ...demotivator.avoidanceStrategies,
+        ],
+      });
+    }
+
+    const plateaus = behaviorPatterns.plateauHistory;
+    const ongoingPlateau = plateaus.previousPlateaus.find((p) => !p.endDate);
+    if (context.topics.includes("plateau") || ongoingPlateau) {
+      risks.push({
+        risk: "plateau_frustration",
+        probability: ongoingPlateau
+          ? Math.min(0.9, ongoingPlateau.userFrustration / 10)
+          : 0.4,
+        severity: severityOf(ongoingPlateau?.userFrustration ?? 4),
+        preventionStrategies: [...plateaus.successfulBreakthroughs]
+          .sort((a, b) => b.successRate - a.successRate)
+          .map((b) => b.strategy),
+      });
+    }
+
+    return risks
+      .map((r) => ({ ...r, probability: roundTo(r.probability, 2) }))
+      .sort((a, b) => b.probability - a.probability);
   }
 
   private identifyOpportunities(
     profile: UserMemoryProfile,
-    context: string
+    context: ContextClassification
   ): Opportunity[] {
-    // Implementation based on opportunity pattern analysis
-    return []; // TODO: Implement
+    const opportunities: Opportunity[] = [];
+    const { motivationalTriggers, achievementHistory, personalityProfile } =
+      profile;
+
+    for (const motivator of [
+      ...motivationalTriggers.intrinsicMotivators,
+      ...motivationalTriggers.extrinsicMotivators,
+    ]) {
+      if (motivator.effectivenessScore < 7) continue;
+      if (
+        !this.mentions(context, motivator.trigger) &&
+        !motivator.contextRequirements.some((r) =>
+          context.topics.includes(r as ContextTopic)
+        )
+      ) {
+        continue;
+      }
+      opportunities.push({
+        opportunity: `leverage ${motivator.trigger}`,
+        potential: motivator.effectivenessScore / 10,
+        requirements: motivator.contextRequirements,
+        timing: motivator.frequencyOptimal,
+      });
+    }
+
+    if (
+      context.sentiment === "positive" ||
+      context.topics.includes("progress")
+    ) {
+      const latest = [
+        ...achievementHistory.milestones.map((m) => ({
+          label: m.name,
+          date: m.achievedDate,
+        })),
+        ...achievementHistory.personalRecords.map((r) => ({
+          label: `${r.exercise} PR`,
+          date: r.achievedDate,
+        })),
+      ].sort((a, b) => b.date.getTime() - a.date.getTime())[0];
+      opportunities.push({
+        opportunity: latest
+          ? `celebrate ${latest.label}`
+          : "celebrate recent effort",
+        potential: context.sentiment === "positive" ? 0.8 : 0.6,
+        requirements: [],
+        timing: "now",
+      });
+    }
+
+    const streak = achievementHistory.streaks.find(
+      (s) => s.type === "workout" && !s.streakEndDate
+    );
+    if (streak && streak.currentStreak >= 3) {
+      opportunities.push({
+        opportunity: `extend ${streak.currentStreak}-day workout streak`,
+        potential: Math.min(1, streak.motivationLevel / 10),
+        requirements: ["complete next scheduled workout"],
+        timing: "next session",
+      });
+    }
+
+    const loved = profile.preferences.exercisePreferences.loved;
+    if (context.topics.includes("workout") && loved.length > 0) {
+      opportunities.push({
+        opportunity: "feature loved exercises",
+        potential: 0.7,
+        requirements: loved.slice(0, 3),
+        timing: "next plan update",
+      });
+    }
+
+    if (
+      personalityProfile.openToChange >= 7 &&
+      context.topics.some((t) => ["goals", "workout", "plateau"].includes(t))
+    ) {
+      opportunities.push({
+        opportunity: "introduce a new challenge",
+        potential: personalityProfile.openToChange / 10,
+        requirements: [`${personalityProfile.challengeLevel} progression`],
+        timing: "next plan update",
+      });
+    }
+
+    const [bestAdaptation, rate] =
+      Object.entries(profile.adaptationHistory.successRates).sort(
+        (a, b) => b[1] - a[1]
+      )[0] || [];
+    if (bestAdaptation && rate >= 0.7) {
+      opportunities.push({
+        opportunity: `reuse ${bestAdaptation} adaptation`,
+        potential: rate,
+        requirements: [],
+        timing:
+          profile.adaptationHistory.optimalTimings[bestAdaptation]?.[0] ||
+          "next plan update",
+      });
+    }
+
+    return opportunities
+      .map((o) => ({ ...o, potential: roundTo(o.potential, 2) }))
+      .sort((a, b) => b.potential - a.potential);
   }
 
-  private getRelevantHistory(
+  private async getRelevantHistory(
     profile: UserMemoryProfile,
     context: string
-  ): RelevantHistory {
-    // Implementation based on historical context analysis
+  ): Promise<RelevantHistory> {
+    const memories = await this.retriever.retrieve(profile, context);
+    const textsIn = (section: RetrievedMemory["section"]) =>
+      memories.filter((m) => m.section === section).map((m) => m.text);
+
     return {
-      events: [],
-      patterns: [],
-      successes: [],
-    }; // TODO: Implement
+      events: textsIn("events"),
+      patterns: textsIn("patterns"),
+      successes: textsIn("successes"),
+      memories,
+    };
   }
 
-  private predictImmediateNeeds(profile: UserMemoryProfile): string[] {
-    // Implementation based on immediate need prediction
-    return []; // TODO: Implement
+  private predictImmediateNeeds(
+    profile: UserMemoryProfile,
+    asOf: Date
+  ): NeedPrediction[] {
+    return this.predictNeedsWithin(profile, asOf, "immediate");
   }
 
-  private predictShortTermNeeds(profile: UserMemoryProfile): string[] {
-    // Implementation based on short-term need prediction
-    return []; // TODO: Implement
+  private predictShortTermNeeds(
+    profile: UserMemoryProfile,
+    asOf: Date
+  ): NeedPrediction[] {
+    return this.predictNeedsWithin(profile, asOf, "short_term");
   }
 
-  private predictMediumTermNeeds(profile: UserMemoryProfile): string[] {
-    // Implementation based on medium-term need prediction
-    return []; // TODO: Implement
+  private predictMediumTermNeeds(
+    profile: UserMemoryProfile,
+    asOf: Date
+  ): NeedPrediction[] {
+    return this.predictNeedsWithin(profile, asOf, "medium_term");
   }
 
   private explainPredictions(
-    predictions: string[],
+    predictions: NeedPrediction[],
     profile: UserMemoryProfile
   ): string[] {
-    // Implementation based on prediction explanation generation
-    return []; // TODO: Implement
+    return predictions.map((prediction) => {
+      const when = prediction.expectedBy.toISOString().slice(0, 10);
+      return `${prediction.need} by ${when} (${Math.round(prediction.confidence * 100)}% confidence): ${prediction.evidence.join("; ")}`;
+    });
+  }
+
+  // Every need the profile points to, kept when it falls inside the horizon
+  private predictNeedsWithin(
+    profile: UserMemoryProfile,
+    asOf: Date,
+    horizon: NeedHorizon
+  ): NeedPrediction[] {
+    const [from, to] = NEED_HORIZON_DAYS[horizon];
+    return [
+      ...this.predictDeloadNeed(profile, asOf),
+      ...this.predictMotivationDip(profile, asOf),
+      ...this.predictRelapses(profile, asOf),
+      ...this.predictSeasonalNeeds(profile, asOf),
+      ...this.predictLifeEventNeeds(profile, asOf),
+    ]
+      .map((prediction) => ({
+        ...prediction,
+        horizon,
+        confidence: roundTo(prediction.confidence, 2),
+      }))
+      .filter((prediction) => {
+        const days =
+          (prediction.expectedBy.getTime() - asOf.getTime()) / DAY_MS;
+        return days >= from && days < to;
+      });
+  }
+
+  // Consecutive hard training weeks since the last lighter week or deload
+  private predictDeloadNeed(
+    profile: UserMemoryProfile,
+    asOf: Date
+  ): NeedCandidate[] {
+    const weeks = Array.from({ length: 12 }, () => ({
+      sessions: 0,
+      intensity: 0,
+    }));
+    profile.workoutHistory
+      .filter((w) => w.completed)
+      .forEach((workout) => {
+        const week = Math.floor(
+          (asOf.getTime() - new Date(workout.date).getTime()) / (7 * DAY_MS)
+        );
+        if (week < 0 || week >= weeks.length) return;
+        weeks[week].sessions++;
+        weeks[week].intensity += workout.intensity;
+      });
+
+    const lastDeload = profile.adaptationHistory.adaptationsApplied
+      .filter((a) => /deload|recovery/i.test(a.type))
+      .map((a) => new Date(a.timestamp).getTime())
+      .sort((a, b) => b - a)[0];
+    const deloadWeek =
+      lastDeload !== undefined
+        ? Math.floor((asOf.getTime() - lastDeload) / (7 * DAY_MS))
+        : Infinity;
+
+    // The current week may just have started; count from last week if empty
+    const averages: number[] = [];
+    for (
+      let week = weeks[0].sessions > 0 ? 0 : 1;
+      week < weeks.length;
+      week++
+    ) {
+      const { sessions, intensity } = weeks[week];
+      if (sessions === 0 || intensity / sessions < 6 || week >= deloadWeek) {
+        break;
+      }
+      averages.push(intensity / sessions);
+    }
+
+    const streak = averages.length;
+    if (streak < DELOAD_INTERVAL_WEEKS - 1) return [];
+
+    const rising = averages[0] > averages[averages.length - 1];
+    const deloadSuccess = Object.entries(
+      profile.adaptationHistory.successRates
+    ).find(([type]) => /deload|recovery/i.test(type))?.[1];
+    const evidence = [
+      `${streak} consecutive training weeks at average intensity ${(averages.reduce((a, b) => a + b, 0) / streak).toFixed(1)}/10`,
+      lastDeload !== undefined
+        ? `last deload or recovery adaptation ${Math.floor((asOf.getTime() - lastDeload) / DAY_MS)} days ago`
+        : "no deload on record",
+    ];
+    if (rising) {
+      evidence.push(
+        `intensity rose from ${averages[averages.length - 1].toFixed(1)} to ${averages[0].toFixed(1)}`
+      );
+    }
+    if (deloadSuccess !== undefined) {
+      evidence.push(
+        `past deloads succeeded ${Math.round(deloadSuccess * 100)}% of the time`
+      );
+    }
+
+    return [
+      {
+        need: "deload week",
+        category: "deload",
+        expectedBy: new Date(
+          asOf.getTime() +
+            Math.max(0, DELOAD_INTERVAL_WEEKS - streak) * 7 * DAY_MS
+        ),
+        confidence: Math.min(
+          0.9,
+          0.5 +
+            0.1 * (streak - DELOAD_INTERVAL_WEEKS + 1) +
+            (rising ? 0.1 : 0) +
+            (deloadSuccess !== undefined && deloadSuccess >= 0.6 ? 0.1 : 0)
+        ),
+        evidence,
+        suggestedActions: [
+          "reduce volume and intensity by 20-30% for one week",
+          "keep session frequency to protect the habit",
+        ],
+      },
+    ];
+  }
+
+  // Motivation dips recur every averageCycleDuration days from the last one
+  private predictMotivationDip(
+    profile: UserMemoryProfile,
+    asOf: Date
+  ): NeedCandidate[] {
+    const cycles = profile.behaviorPatterns.motivationCycles;
+    const cycleDays = cycles.averageCycleDuration;
+    if (cycleDays <= 0) return [];
+
+    // A dip starts with the first skipped workout after a completed one
+    const history = [...profile.workoutHistory].sort(
+      (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+    );
+    const dips = history
+      .filter((w, index) => !w.completed && history[index - 1]?.completed)
+      .map((w) => new Date(w.date).getTime())
+      .filter((time) => time <= asOf.getTime());
+    if (dips.length === 0) return [];
+
+    const lastDip = dips[dips.length - 1];
+    const cyclesSince = Math.max(
+      1,
+      Math.ceil((asOf.getTime() - lastDip) / (cycleDays * DAY_MS))
+    );
+    const expectedBy = new Date(lastDip + cyclesSince * cycleDays * DAY_MS);
+
+    // Regular spacing between past dips makes the next one more predictable
+    const intervals = dips
+      .slice(1)
+      .map((time, index) => (time - dips[index]) / DAY_MS);
+    const regularity =
+      intervals.length >= 2
+        ? Math.max(
+            0,
+            1 -
+              intervals.reduce((sum, d) => sum + Math.abs(d - cycleDays), 0) /
+                intervals.length /
+                cycleDays
+          )
+        : 0;
+
+    const evidence = [
+      `motivation typically cycles every ${cycleDays} days`,
+      `last dip began ${new Date(lastDip).toISOString().slice(0, 10)}`,
+      `${dips.length} dips found in workout history`,
+    ];
+    if (intervals.length >= 2) {
+      evidence.push(
+        `past dips were ${intervals.map((d) => Math.round(d)).join(", ")} days apart`
+      );
+    }
+    if (cycles.lowMotivationTriggers.length > 0) {
+      evidence.push(
+        `known low-motivation triggers: ${cycles.lowMotivationTriggers.join(", ")}`
+      );
+    }
+
+    return [
+      {
+        need: "motivation boost",
+        category: "motivation",
+        expectedBy,
+        confidence: 0.35 + 0.45 * regularity,
+        evidence,
+        suggestedActions:
+          cycles.recoveryStrategies.length > 0
+            ? cycles.recoveryStrategies
+            : cycles.highMotivationTriggers,
+      },
+    ];
+  }
+
+  // Relapses are expected after matching life events or when adherence slips
+  private predictRelapses(
+    profile: UserMemoryProfile,
+    asOf: Date
+  ): NeedCandidate[] {
+    const recent = profile.workoutHistory.filter((w) => {
+      const age = asOf.getTime() - new Date(w.date).getTime();
+      return age >= 0 && age <= 14 * DAY_MS;
+    });
+    const rate = (workouts: UserMemoryProfile["workoutHistory"]) =>
+      workouts.filter((w) => w.completed).length / workouts.length;
+    const slipping =
+      recent.length >= 3 &&
+      profile.workoutHistory.length > recent.length &&
+      rate(recent) < rate(profile.workoutHistory) - 0.2;
+
+    return profile.failurePatterns.relapseCycles.flatMap((relapse) => {
+      const base = Math.min(0.8, relapse.frequency / (relapse.frequency + 2));
+      const evidence = [
+        `"${relapse.pattern}" has happened ${relapse.frequency} times, lasting about ${relapse.durationDays} days`,
+      ];
+
+      const event = profile.contextualMemory.lifeEventImpacts.find(
+        (impact) =>
+          sharesTerm(impact.event, relapse.pattern) &&
+          (impact.endDate ?? impact.startDate).getTime() >= asOf.getTime()
+      );
+      if (event) {
+        const trigger = event.endDate ?? event.startDate;
+        return [
+          {
+            need: `relapse prevention: ${relapse.pattern}`,
+            category: "relapse_prevention" as const,
+            expectedBy: trigger,
+            confidence: Math.min(0.9, base + 0.1),
+            evidence: [
+              ...evidence,
+              `upcoming ${event.event} ${event.endDate ? "ends" : "starts"} ${trigger.toISOString().slice(0, 10)}`,
+            ],
+            suggestedActions: relapse.preventionStrategies,
+          },
+        ];
+      }
+
+      if (slipping) {
+        return [
+          {
+            need: `relapse prevention: ${relapse.pattern}`,
+            category: "relapse_prevention" as const,
+            expectedBy: asOf,
+            confidence: base,
+            evidence: [
+              ...evidence,
+              `completion over the last 14 days is ${Math.round(rate(recent) * 100)}% vs ${Math.round(rate(profile.workoutHistory) * 100)}% overall`,
+            ],
+            suggestedActions: relapse.preventionStrategies,
+          },
+        ];
+      }
+      return [];
+    });
+  }
+
+  // The next season is a need when the user historically trains less in it
+  private predictSeasonalNeeds(
+    profile: UserMemoryProfile,
+    asOf: Date
+  ): NeedCandidate[] {
+    const behaviors = profile.contextualMemory.seasonalBehaviors;
+    const adherenceIn = (season: string) =>
+      behaviors[season]?.adherenceRate ??
+      profile.behaviorPatterns.workoutTiming.seasonalPatterns[season];
+
+    const current = this.seasonOf(asOf);
+    const nextStart = new Date(
+      asOf.getFullYear(),
+      Math.floor(((asOf.getMonth() + 1) % 12) / 3) * 3 + 2,
+      1
+    );
+    if (nextStart <= asOf) nextStart.setFullYear(nextStart.getFullYear() + 1);
+    const next = this.seasonOf(nextStart);
+
+    const needs: NeedCandidate[] = [];
+    const currentRate = adherenceIn(current);
+    const nextRate = adherenceIn(next);
+    const baseline =
+      currentRate ?? profile.behaviorPatterns.workoutTiming.consistencyScore;
+
+    if (nextRate !== undefined && nextRate < baseline - 0.1) {
+      const behavior = behaviors[next];
+      needs.push({
+        need: `${next} adherence plan`,
+        category: "seasonal",
+        expectedBy: nextStart,
+        confidence: Math.min(0.85, 0.4 + (baseline - nextRate) * 2),
+        evidence: [
+          `adherence in ${next} is ${Math.round(nextRate * 100)}% vs ${Math.round(baseline * 100)}% now`,
+          ...(behavior?.challenges.length
+            ? [`${next} challenges: ${behavior.challenges.join(", ")}`]
+            : []),
+        ],
+        suggestedActions: behavior?.strategies || [],
+      });
+    }
+
+    const behavior = behaviors[current];
+    if (
+      behavior &&
+      behavior.challenges.length > 0 &&
+      behavior.adherenceRate < 0.6
+    ) {
+      needs.push({
+        need: `${current} strategies`,
+        category: "seasonal",
+        expectedBy: asOf,
+        confidence: Math.min(0.85, 0.4 + (0.6 - behavior.adherenceRate)),
+        evidence: [
+          `adherence in ${current} is ${Math.round(behavior.adherenceRate * 100)}%`,
+          `${current} challenges: ${behavior.challenges.join(", ")}`,
+        ],
+        suggestedActions: behavior.strategies,
+      });
+    }
+
+    return needs;
+  }
+
+  // Upcoming and ongoing life events, informed by earlier occurrences
+  private predictLifeEventNeeds(
+    profile: UserMemoryProfile,
+    asOf: Date
+  ): NeedCandidate[] {
+    const impacts = profile.contextualMemory.lifeEventImpacts;
+    const now = asOf.getTime();
+
+    return impacts.flatMap((impact) => {
+      const start = impact.startDate.getTime();
+      const end = impact.endDate?.getTime();
+      const past = impacts.filter(
+        (other) =>
+          other !== impact &&
+          other.event === impact.event &&
+          other.endDate !== undefined &&
+          other.endDate.getTime() < now
+      );
+      const pastEffect =
+        past.length > 0
+          ? past.reduce((sum, p) => sum + p.effectOnAdherence, 0) / past.length
+          : impact.effectOnAdherence;
+      const evidence =
+        past.length > 0
+          ? [
+              `${past.length} earlier ${impact.event} events changed adherence by ${Math.round(pastEffect * 100)}% on average`,
+            ]
+          : [`${impact.event} expected to be ${impact.impact}`];
+      const actions = Array.from(
+        new Set([impact, ...past].flatMap((p) => p.adaptationsUsed))
+      );
+      const confidence = 0.5 + 0.1 * Math.min(3, past.length);
+      const disruptive = impact.impact === "negative" || pastEffect < 0;
+      const needs: NeedCandidate[] = [];
+
+      if (start > now) {
+        needs.push({
+          need: disruptive
+            ? `plan adjustments for ${impact.event}`
+            : `make the most of ${impact.event}`,
+          category: "life_event",
+          expectedBy: impact.startDate,
+          confidence,
+          evidence: [
+            `${impact.event} starts ${impact.startDate.toISOString().slice(0, 10)}`,
+            ...evidence,
+          ],
+          suggestedActions: actions,
+        });
+      } else if (end === undefined || end > now) {
+        needs.push({
+          need: disruptive
+            ? `support during ${impact.event}`
+            : `build on ${impact.event}`,
+          category: "life_event",
+          expectedBy: asOf,
+          confidence: confidence + 0.1,
+          evidence: [
+            `${impact.event} has been ongoing since ${impact.startDate.toISOString().slice(0, 10)}`,
+            ...evidence,
+          ],
+          suggestedActions: actions,
+        });
+      }
+
+      if (end !== undefined && end > now && disruptive) {
+        needs.push({
+          need: `ramp back up after ${impact.event}`,
+          category: "life_event",
+          expectedBy: impact.endDate!,
+          confidence,
+          evidence: [
+            `${impact.event} ends ${impact.endDate!.toISOString().slice(0, 10)}`,
+            ...evidence,
+          ],
+          suggestedActions: ["return at reduced volume for the first week"],
+        });
+      }
+      return needs;
+    });
   }
 }
 
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+// Word stems that place a message in a topic
+const TOPIC_KEYWORDS: Record<ContextTopic, string[]> = {
+  workout: [
+    "workout",
+    "train",
+    "exercis",
+    "session",
+    "lift",
+    "run",
+    "runn",
+    "cardio",
+    "squat",
+    "sets",
+    "reps",
+  ],
+  nutrition: [
+    "eat",
+    "eating",
+    "food",
+    "diet",
+    "meal",
+    "protein",
+    "calori",
+    "macro",
+    "hungry",
+    "snack",
+  ],
+  recovery: [
+    "sleep",
+    "rest",
+    "sore",
+    "tired",
+    "fatigue",
+    "recover",
+    "exhaust",
+    "stretch",
+  ],
+  injury: [
+    "injur",
+    "pain",
+    "hurt",
+    "strain",
+    "sprain",
+    "ache",
+    "tweak",
+    "knee",
+    "shoulder",
+    "back",
+  ],
+  motivation: [
+    "motivat",
+    "lazy",
+    "bored",
+    "give up",
+    "quit",
+    "struggl",
+    "unmotivated",
+    "excited",
+  ],
+  progress: [
+    "progress",
+    "result",
+    "pr",
+    "prs",
+    "record",
+    "stronger",
+    "lost",
+    "gain",
+    "improv",
+    "milestone",
+  ],
+  plateau: ["plateau", "stuck", "stall", "not improving", "no progress"],
+  goals: [
+    "goal",
+    "target",
+    "aim",
+    "want to",
+    "marathon",
+    "compete",
+    "tone",
+    "bulk",
+    "cut",
+  ],
+  schedule: [
+    "schedul",
+    "time",
+    "busy",
+    "week",
+    "morning",
+    "evening",
+    "travel",
+    "calendar",
+  ],
+  technique: ["form", "technique", "how to", "cue", "posture", "grip"],
+};
+
+// Topic -> what a reply should lean on
+const TOPIC_EMPHASIS: Record<ContextTopic, string[]> = {
+  workout: ["plan_clarity"],
+  nutrition: ["practical_habits"],
+  recovery: ["recovery"],
+  injury: ["safety", "recovery"],
+  motivation: ["past_wins", "small_steps"],
+  progress: ["progress", "milestones"],
+  plateau: ["breakthrough_strategies"],
+  goals: ["goal_alignment"],
+  schedule: ["flexibility"],
+  technique: ["form_cues"],
+};
+
+const POSITIVE_TERMS = [
+  "great",
+  "good",
+  "love",
+  "enjoy",
+  "happy",
+  "excit",
+  "proud",
+  "strong",
+  "awesome",
+  "better",
+  "easy",
+];
+const NEGATIVE_TERMS = [
+  "hate",
+  "tired",
+  "bored",
+  "frustrat",
+  "stuck",
+  "hard",
+  "pain",
+  "hurt",
+  "sad",
+  "stress",
+  "worse",
+  "lazy",
+  "quit",
+  "can't",
+  "cannot",
+];
+const CHANGE_TERMS = new Set([
+  "new",
+  "change",
+  "switch",
+  "different",
+  "try",
+  "instead",
+]);
+const STOPWORDS = new Set([
+  "the",
+  "and",
+  "but",
+  "for",
+  "with",
+  "that",
+  "this",
+  "have",
+  "has",
+  "was",
+  "are",
+  "you",
+  "your",
+  "not",
+  "just",
+  "what",
+  "how",
+  "can",
+  "from",
+  "about",
+  "been",
+  "really",
+  "today",
+]);
+
+// Endings a stem may take and still be the same word: "rest" matches
+// "resting" but not "restaurant", "form" matches "forms" but not "formal"
+const STEM_SUFFIXES =
+  /^e?(s|es|d|ed|ing|er|ers|y|ies|ied|ly|ion|ions|ional|ment|ments|ness|ful)?$/;
+
+function wordsOf(message: string): string[] {
+  return message.toLowerCase().match(/[a-z']+/g) || [];
+}
+
+// Short stems like "pr" or "rep" only match whole words
+function matchesStem(word: string, stem: string): boolean {
+  if (stem.length <= 3) return word === stem;
+  return word.startsWith(stem) && STEM_SUFFIXES.test(word.slice(stem.length));
+}
+
+// Phrase match on word boundaries within space-joined words
+function containsPhrase(text: string, phrase: string): boolean {
+  return ` ${text} `.includes(` ${phrase} `);
+}
+
+// Days ahead covered by each prediction horizon, [from, to)
+const NEED_HORIZON_DAYS: Record<NeedHorizon, [number, number]> = {
+  immediate: [0, 4],
+  short_term: [4, 15],
+  medium_term: [15, 91],
+};
+
+const DELOAD_INTERVAL_WEEKS = 4;
+
+// Whether two labels like "post-vacation slump" and "vacation" share a word
+function sharesTerm(a: string, b: string): boolean {
+  const terms = (label: string) =>
+    label
+      .toLowerCase()
+      .split(/[^a-z]+/)
+      .filter((term) => term.length > 3);
+  const other = terms(b);
+  return terms(a).some((term) =>
+    other.some((t) => t.startsWith(term) || term.startsWith(t))
+  );
+}
+
+// Workouts considered for the rolling consistency score
+const RECENT_WORKOUT_WINDOW = 20;
+
+// Interaction events accepted by learnFromInteraction, see MemoryInteractionSchema
+export type MemoryInteraction = z.infer<typeof MemoryInteractionSchema>;
+export type MemoryInteractionInput = z.input<typeof MemoryInteractionSchema>;
+export type InteractionContext = z.infer<typeof InteractionContextSchema>;
+export type InteractionUserResponse = z.infer<
+  typeof InteractionUserResponseSchema
+>;
+export type InteractionExerciseResult = z.infer<
+  typeof InteractionExerciseResultSchema
+>;
+export type WorkoutCompletedInteraction = z.infer<
+  typeof WorkoutCompletedInteractionSchema
+>;
+export type WorkoutSkippedInteraction = z.infer<
+  typeof WorkoutSkippedInteractionSchema
+>;
+export type GoalChangedInteraction = z.infer<
+  typeof GoalChangedInteractionSchema
+>;
+export type FeedbackInteraction = z.infer<typeof FeedbackInteractionSchema>;
+export type AdaptationAppliedInteraction = z.infer<
+  typeof AdaptationAppliedInteractionSchema
+>;
+export type InjuryReportedInteraction = z.infer<
+  typeof InjuryReportedInteractionSchema
+>;
+export type LifeEventInteraction = z.infer<typeof LifeEventInteractionSchema>;
+
 // Supporting interfaces for insights and predictions
 export interface ContextualInsights {
   personalityMatch: number;
@@ -903,6 +2570,27 @@ export interface ContextualInsights {
   riskFactors: RiskFactor[];
   opportunities: Opportunity[];
   historicalContext: RelevantHistory;
+  context?: Omit<ContextClassification, "text">; // without the message itself
+}
+
+export type ContextTopic =
+  | "workout"
+  | "nutrition"
+  | "recovery"
+  | "injury"
+  | "motivation"
+  | "progress"
+  | "plateau"
+  | "goals"
+  | "schedule"
+  | "technique";
+
+export interface ContextClassification {
+  topics: ContextTopic[]; // most keyword hits first
+  primaryTopic: ContextTopic | "general";
+  keywords: string[];
+  sentiment: "positive" | "neutral" | "negative";
+  text: string; // normalized message, words joined by single spaces
 }
 
 export interface BehaviorPrediction {
@@ -944,14 +2632,35 @@ export interface RelevantHistory {
   events: string[];
   patterns: string[];
   successes: string[];
+  memories?: RetrievedMemory[]; // top-k ranked items behind the lists above
 }
 
 export interface PredictedNeeds {
   needs: string[];
   confidence: number;
   reasoning: string[];
+  predictions?: NeedPrediction[];
+}
+
+export type NeedHorizon = "immediate" | "short_term" | "medium_term";
+
+export interface NeedPrediction {
+  need: string; // e.g. "deload week"
+  category:
+    | "deload"
+    | "motivation"
+    | "relapse_prevention"
+    | "seasonal"
+    | "life_event";
+  horizon: NeedHorizon;
+  expectedBy: Date;
+  confidence: number; // 0-1
+  evidence: string[]; // why the need is predicted
+  suggestedActions: string[];
 }
 
+type NeedCandidate = Omit<NeedPrediction, "horizon">;
+
 // 🚀 NEW: Advanced Smart Memory Features
 
 /**
@@ -1510,3 +3219,156 @@ export const UserMemoryProfileSchema = z.object({
   lastUpdated: z.date(),
   // Additional validation schemas would be added here...
 });
+
+// Interaction events. Dates accept Date objects or ISO strings so client
+// apps can send JSON payloads directly.
+const InteractionContextSchema = z.object({
+  timestamp: z.coerce.date().optional(), // when it happened, defaults to now
+  mood: z.number().min(1).max(10).optional(),
+  notes: z.string().optional(),
+});
+
+const InteractionUserResponseSchema = z.object({
+  sentiment: z.enum(["positive", "neutral", "negative"]).optional(),
+  rating: z.number().min(1).max(10).optional(),
+  feedback: z.string().optional(),
+  suggestedImprovements: z.array(z.string()).optional(),
+});
+
+const InteractionExerciseResultSchema = z.object({
+  name: z.string().min(1, "Exercise name is required"),
+  completed: z.boolean().optional(),
+  sets: z.number().int().nonnegative().optional(),
+  reps: z.number().int().nonnegative().optional(),
+  weight: z.number().nonnegative().optional(),
+  durationMinutes: z.number().nonnegative().optional(),
+  perceivedExertion: z.number().min(1).max(10).optional(),
+  rating: z.number().min(1).max(10).optional(),
+});
+
+const interactionEvent = <Type extends string, Data extends z.ZodTypeAny>(
+  type: Type,
+  data: Data
+) =>
+  z.object({
+    type: z.literal(type),
+    data,
+    userResponse: InteractionUserResponseSchema.optional(),
+    context: InteractionContextSchema.optional(),
+  });
+
+const WorkoutCompletedInteractionSchema = interactionEvent(
+  "workout_completed",
+  z.object({
+    workoutType: z.string().min(1),
+    date: z.coerce.date(),
+    durationMinutes: z.number().positive(),
+    intensity: z.number().min(1).max(10),
+    exercises: z.array(InteractionExerciseResultSchema).optional(),
+  })
+);
+
+const WorkoutSkippedInteractionSchema = interactionEvent(
+  "workout_skipped",
+  z.object({
+    workoutType: z.string().min(1),
+    date: z.coerce.date(), // when it was scheduled
+    durationMinutes: z.number().nonnegative(), // planned
+    intensity: z.number().min(1).max(10), // planned
+    reason: z.string().min(1, "A reason is required for skipped workouts"),
+  })
+);
+
+const GoalChangedInteractionSchema = interactionEvent(
+  "goal_changed",
+  z.object({
+    previousGoal: z.string().optional(), // defaults to the current primary goal
+    newGoal: z.string().min(1),
+    reason: z.string().min(1),
+    confidence: z.number().min(0).max(1).optional(),
+  })
+);
+
+const FeedbackInteractionSchema = interactionEvent(
+  "feedback_given",
+  z.object({
+    exerciseRatings: z.record(z.number().min(1).max(10)).optional(),
+    modifications: z.record(z.string()).optional(), // exercise -> preferred modification
+  })
+);
+
+const AdaptationAppliedInteractionSchema = interactionEvent(
+  "adaptation_applied",
+  z.object({
+    adaptationId: z.string().min(1),
+    adaptationType: z.string().min(1),
+    reasoning: z.string(),
+    changes: z.array(
+      z.object({
+        target: z.string(),
+        adjustment: z.union([z.number(), z.string()]),
+        exerciseIds: z.array(z.string()).optional(),
+      })
+    ),
+    adherenceBefore: z.number().min(0).max(1),
+    adherenceAfter: z.number().min(0).max(1),
+    durationEffective: z.number().nonnegative().optional(), // days
+  })
+);
+
+const InjuryReportedInteractionSchema = interactionEvent(
+  "injury_reported",
+  z.object({
+    injury: z.string().min(1), // e.g. "knee strain"
+    bodyPart: z.string().optional(),
+    severity: z.number().min(1).max(10),
+    date: z.coerce.date(),
+    cause: z.string().optional(),
+    expectedRecoveryDays: z.number().nonnegative().optional(),
+  })
+);
+
+const LifeEventInteractionSchema = interactionEvent(
+  "life_event",
+  z
+    .object({
+      event: z.string().min(1), // 'vacation', 'work_stress', 'life_change'
+      startDate: z.coerce.date(),
+      endDate: z.coerce.date().optional(),
+      impact: z.enum(["positive", "negative", "neutral"]),
+      adaptationsUsed: z.array(z.string()).optional(),
+      effectOnAdherence: z.number().min(-1).max(1).optional(),
+    })
+    .refine((data) => !data.endDate || data.endDate >= data.startDate, {
+      message: "endDate must not be before startDate",
+      path: ["endDate"],
+    })
+);
+
+export const MemoryInteractionSchema = z.discriminatedUnion("type", [
+  WorkoutCompletedInteractionSchema,
+  WorkoutSkippedInteractionSchema,
+  GoalChangedInteractionSchema,
+  FeedbackInteractionSchema,
+  AdaptationAppliedInteractionSchema,
+  InjuryReportedInteractionSchema,
+  LifeEventInteractionSchema,
+]);
+
+/**
+ * Validates an interaction event, throwing one message that lists every
+ * invalid field, e.g. `data.exercises.0.rating: Number must be less than or equal to 10`
+ */
+export function parseMemoryInteraction(input: unknown): MemoryInteraction {
+  const result = MemoryInteractionSchema.safeParse(input);
+  if (result.success) return result.data;
+
+  const type =
+    typeof input === "object" && input !== null && "type" in input
+      ? String(input.type)
+      : "interaction";
+  const problems = result.error.issues
+    .map((issue) => `${issue.path.join(".") || "event"}: ${issue.message}`)
+    .join("; ");
+  throw new Error(`Invalid ${type} event: ${problems}`);
+}